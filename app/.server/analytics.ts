@@ -0,0 +1,28 @@
+import { appendFile, mkdir } from 'node:fs/promises';
+import path from 'node:path';
+import type { AnalyticsEvent } from '~/analytics/events';
+
+// Development collector: appends each received event as one JSON line.
+// Production deployments point VITE_ANALYTICS_ENDPOINT at a real pipeline
+// instead, unless ANALYTICS_COLLECTOR=1 keeps this one switched on.
+
+const LOG_PATH = path.resolve(
+    process.env.ANALYTICS_LOG_PATH ?? '.cache/analytics.ndjson'
+);
+
+export const isAnalyticsCollectorEnabled = (): boolean =>
+    process.env.NODE_ENV !== 'production' ||
+    process.env.ANALYTICS_COLLECTOR === '1';
+
+export const appendAnalyticsEvents = async (
+    events: AnalyticsEvent[],
+    userAgent: string | null
+): Promise<void> => {
+    if (events.length === 0) return;
+    const receivedAt = new Date().toISOString();
+    const lines = events
+        .map((event) => JSON.stringify({ ...event, receivedAt, userAgent }))
+        .join('\n');
+    await mkdir(path.dirname(LOG_PATH), { recursive: true });
+    await appendFile(LOG_PATH, `${lines}\n`);
+};
@@ -0,0 +1,26 @@
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import type { AssetManifest, ProductAssets } from '~/products/asset-manifest';
+
+const MANIFEST_PATH =
+    process.env.ASSET_MANIFEST_PATH ||
+    path.join(process.cwd(), 'data', 'asset-manifest.json');
+
+// Read per request like the option schemas, so re-running the asset
+// pipeline takes effect without a restart
+const readManifest = async (): Promise<AssetManifest | null> => {
+    try {
+        return JSON.parse(await readFile(MANIFEST_PATH, 'utf8'));
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+        throw error;
+    }
+};
+
+// Null until the pipeline has processed the product
+export const getProductAssets = async (
+    productId: string
+): Promise<ProductAssets | null> => {
+    const entry = (await readManifest())?.products[productId];
+    return entry ? { ...entry, productId } : null;
+};
@@ -0,0 +1,16 @@
+import path from 'node:path';
+import type { CartAdapter } from '~/commerce/cart';
+import { createMockCartAdapter } from './mock-cart-adapter';
+
+const CART_STORE_PATH =
+    process.env.CART_STORE_PATH ||
+    path.join(process.cwd(), '.cache', 'carts.json');
+
+let adapter: CartAdapter = createMockCartAdapter(CART_STORE_PATH);
+
+export const getCartAdapter = (): CartAdapter => adapter;
+
+// Lets a deployment swap the mock for a real shop backend
+export const setCartAdapter = (next: CartAdapter): void => {
+    adapter = next;
+};
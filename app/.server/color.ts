@@ -0,0 +1,15 @@
+// glTF base color factors and UsdPreviewSurface colors are both linear,
+// while the customization color is an sRGB hex string.
+const srgbToLinear = (channel: number): number => {
+    const c = channel / 255;
+    return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+};
+
+export const hexToLinearRgb = (hex: string): [number, number, number] => {
+    const value = hex.replace('#', '');
+    return [
+        srgbToLinear(parseInt(value.slice(0, 2), 16)),
+        srgbToLinear(parseInt(value.slice(2, 4), 16)),
+        srgbToLinear(parseInt(value.slice(4, 6), 16)),
+    ];
+};
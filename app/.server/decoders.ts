@@ -0,0 +1,56 @@
+import { readFile } from 'node:fs/promises';
+import { createRequire } from 'node:module';
+import path from 'node:path';
+
+const require = createRequire(import.meta.url);
+
+// Resolved from the installed packages so the decoders always match the
+// versions the optimize script encodes with
+const THREE_DRACO_DIR = path.join(
+    path.dirname(require.resolve('three')),
+    '..',
+    'examples',
+    'jsm',
+    'libs',
+    'draco',
+    'gltf'
+);
+const MESHOPT_DIR = path.dirname(require.resolve('meshoptimizer'));
+
+interface DecoderFile {
+    path: string;
+    contentType: string;
+}
+
+// File names are the ones model-viewer requests: Draco's loader appends them
+// to the decoder directory, meshopt's is loaded as a classic script
+const DECODER_FILES: Record<string, DecoderFile> = {
+    'draco_wasm_wrapper.js': {
+        path: path.join(THREE_DRACO_DIR, 'draco_wasm_wrapper.js'),
+        contentType: 'text/javascript',
+    },
+    'draco_decoder.wasm': {
+        path: path.join(THREE_DRACO_DIR, 'draco_decoder.wasm'),
+        contentType: 'application/wasm',
+    },
+    // Fallback for browsers without WebAssembly
+    'draco_decoder.js': {
+        path: path.join(THREE_DRACO_DIR, 'draco_decoder.js'),
+        contentType: 'text/javascript',
+    },
+    'meshopt_decoder.js': {
+        path: path.join(MESHOPT_DIR, 'meshopt_decoder.cjs'),
+        contentType: 'text/javascript',
+    },
+};
+
+// Null for anything that isn't a known decoder file
+export const readDecoder = async (
+    name: string
+): Promise<{ data: Buffer; contentType: string } | null> => {
+    const file = Object.hasOwn(DECODER_FILES, name)
+        ? DECODER_FILES[name]
+        : null;
+    if (!file) return null;
+    return { data: await readFile(file.path), contentType: file.contentType };
+};
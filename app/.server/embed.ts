@@ -0,0 +1,18 @@
+// Partner sites allowed to embed the viewer, as a comma-separated list of
+// origins such as `https://shop.example.com`. Development accepts any origin
+// unless EMBED_ALLOWED_ORIGINS says otherwise; production embeds nowhere by
+// default.
+
+const DEFAULT_ORIGINS = process.env.NODE_ENV === 'production' ? '' : '*';
+
+export const getEmbedAllowedOrigins = (): string[] =>
+    (process.env.EMBED_ALLOWED_ORIGINS ?? DEFAULT_ORIGINS)
+        .split(',')
+        .map((origin) => origin.trim().replace(/\/+$/, ''))
+        .filter(Boolean);
+
+// The browser enforces this one: other sites can't frame the page at all
+export const getFrameAncestors = (allowedOrigins: string[]): string =>
+    allowedOrigins.includes('*')
+        ? 'frame-ancestors *'
+        : ["frame-ancestors 'self'", ...allowedOrigins].join(' ');
@@ -0,0 +1,6 @@
+// Authoring mode lets whoever opens a product page place feature hotspots
+// and export them for the catalog, so it stays off unless a deployment meant
+// for catalog editors sets FEATURE_AUTHORING=1.
+
+export const isFeatureAuthoringEnabled = (): boolean =>
+    process.env.FEATURE_AUTHORING === '1';
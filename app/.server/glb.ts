@@ -0,0 +1,136 @@
+import type { Customization } from '~/products/customization';
+import { getMaterialPreset } from '~/products/materials';
+import { hexToLinearRgb } from './color';
+
+const GLB_MAGIC = 0x46546c67; // 'glTF'
+const CHUNK_JSON = 0x4e4f534a;
+const CHUNK_BIN = 0x004e4942;
+
+interface GltfNode {
+    name?: string;
+    children?: number[];
+    scale?: number[];
+    [key: string]: unknown;
+}
+
+interface GltfMaterial {
+    pbrMetallicRoughness?: {
+        baseColorFactor?: number[];
+        metallicFactor?: number;
+        roughnessFactor?: number;
+        [key: string]: unknown;
+    };
+    [key: string]: unknown;
+}
+
+interface GltfJson {
+    scenes?: { nodes?: number[]; [key: string]: unknown }[];
+    nodes?: GltfNode[];
+    materials?: GltfMaterial[];
+    [key: string]: unknown;
+}
+
+export interface Glb {
+    json: GltfJson;
+    bin: Buffer | null;
+}
+
+export const parseGlb = (buffer: Buffer): Glb => {
+    if (buffer.length < 20 || buffer.readUInt32LE(0) !== GLB_MAGIC) {
+        throw new Error('Invalid GLB: bad magic');
+    }
+    const version = buffer.readUInt32LE(4);
+    if (version !== 2) {
+        throw new Error(`Unsupported GLB version ${version}`);
+    }
+
+    let json: GltfJson | null = null;
+    let bin: Buffer | null = null;
+    let offset = 12;
+    while (offset < buffer.length) {
+        const length = buffer.readUInt32LE(offset);
+        const type = buffer.readUInt32LE(offset + 4);
+        const data = buffer.subarray(offset + 8, offset + 8 + length);
+        if (type === CHUNK_JSON) {
+            json = JSON.parse(data.toString('utf8'));
+        } else if (type === CHUNK_BIN && !bin) {
+            bin = Buffer.from(data);
+        }
+        offset += 8 + length;
+    }
+
+    if (!json) {
+        throw new Error('Invalid GLB: missing JSON chunk');
+    }
+    return { json, bin };
+};
+
+const padChunk = (data: Buffer, padByte: number): Buffer => {
+    const padding = (4 - (data.length % 4)) % 4;
+    return padding === 0
+        ? data
+        : Buffer.concat([data, Buffer.alloc(padding, padByte)]);
+};
+
+const chunk = (type: number, data: Buffer): Buffer => {
+    const header = Buffer.alloc(8);
+    header.writeUInt32LE(data.length, 0);
+    header.writeUInt32LE(type, 4);
+    return Buffer.concat([header, data]);
+};
+
+export const serializeGlb = ({ json, bin }: Glb): Buffer => {
+    const chunks = [
+        chunk(CHUNK_JSON, padChunk(Buffer.from(JSON.stringify(json)), 0x20)),
+    ];
+    if (bin) {
+        chunks.push(chunk(CHUNK_BIN, padChunk(bin, 0)));
+    }
+    const body = Buffer.concat(chunks);
+
+    const header = Buffer.alloc(12);
+    header.writeUInt32LE(GLB_MAGIC, 0);
+    header.writeUInt32LE(2, 4);
+    header.writeUInt32LE(12 + body.length, 8);
+    return Buffer.concat([header, body]);
+};
+
+// Tints every material with the customization color, applies the material
+// preset and wraps each scene's root nodes in a uniformly scaled parent node.
+export const applyCustomizationToGlb = (
+    source: Buffer,
+    customization: Customization
+): Buffer => {
+    const glb = parseGlb(source);
+    const { json } = glb;
+    const [r, g, b] = hexToLinearRgb(customization.color);
+    const preset = getMaterialPreset(customization.material);
+
+    for (const material of json.materials ?? []) {
+        const pbr = (material.pbrMetallicRoughness ??= {});
+        const alpha = pbr.baseColorFactor?.[3] ?? 1;
+        pbr.baseColorFactor = [r, g, b, alpha];
+        if (preset) {
+            pbr.roughnessFactor = preset.roughness;
+            pbr.metallicFactor = preset.metalness;
+        }
+    }
+
+    if (customization.scale !== 1) {
+        const nodes = (json.nodes ??= []);
+        for (const scene of json.scenes ?? []) {
+            nodes.push({
+                name: 'VariantScale',
+                children: scene.nodes ?? [],
+                scale: [
+                    customization.scale,
+                    customization.scale,
+                    customization.scale,
+                ],
+            });
+            scene.nodes = [nodes.length - 1];
+        }
+    }
+
+    return serializeGlb(glb);
+};
@@ -0,0 +1,64 @@
+// In-memory record of desktop → phone handoffs. The desktop creates a session
+// id, encodes it in its QR code and polls here; the phone reports back when it
+// opens the link and when it enters AR.
+
+export type HandoffStatus = 'waiting' | 'opened' | 'ar-started';
+
+export interface HandoffSession {
+    status: HandoffStatus;
+    productId: string | null;
+    updatedAt: number;
+}
+
+const SESSION_TTL_MS = 30 * 60 * 1000;
+const MAX_SESSIONS = 10_000;
+const STATUS_ORDER: HandoffStatus[] = ['waiting', 'opened', 'ar-started'];
+
+// Kept in update order, so the first entries are the oldest
+const sessions = new Map<string, HandoffSession>();
+
+const pruneExpired = (now: number) => {
+    for (const [id, session] of sessions) {
+        if (now - session.updatedAt > SESSION_TTL_MS) {
+            sessions.delete(id);
+        }
+    }
+};
+
+export const isHandoffStatus = (value: unknown): value is HandoffStatus => {
+    return STATUS_ORDER.includes(value as HandoffStatus);
+};
+
+export const getHandoff = (sessionId: string): HandoffSession => {
+    pruneExpired(Date.now());
+    return (
+        sessions.get(sessionId) ?? {
+            status: 'waiting',
+            productId: null,
+            updatedAt: Date.now(),
+        }
+    );
+};
+
+// Statuses only move forward, so a late "opened" can't hide "ar-started"
+export const reportHandoff = (
+    sessionId: string,
+    status: HandoffStatus,
+    productId: string | null
+): HandoffSession => {
+    const now = Date.now();
+    pruneExpired(now);
+    const current = sessions.get(sessionId);
+    const next: HandoffSession =
+        current &&
+        STATUS_ORDER.indexOf(current.status) > STATUS_ORDER.indexOf(status)
+            ? { ...current, updatedAt: now }
+            : { status, productId, updatedAt: now };
+    sessions.delete(sessionId);
+    sessions.set(sessionId, next);
+    for (const id of sessions.keys()) {
+        if (sessions.size <= MAX_SESSIONS) break;
+        sessions.delete(id);
+    }
+    return next;
+};
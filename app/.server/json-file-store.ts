@@ -0,0 +1,55 @@
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+
+// Local persistence for stand-ins and small deployments: the whole store is
+// one JSON file, which makes it easy to inspect while testing.
+
+export interface JsonFileStore<T> {
+    read: () => Promise<T>;
+    update: <R>(change: (store: T) => R) => Promise<R>;
+}
+
+export const createJsonFileStore = <T>(
+    storePath: string,
+    empty: () => T
+): JsonFileStore<T> => {
+    // Writes are chained so concurrent requests never interleave
+    let queue: Promise<unknown> = Promise.resolve();
+
+    const load = async (): Promise<T> => {
+        try {
+            return JSON.parse(await readFile(storePath, 'utf8'));
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+                return empty();
+            }
+            throw error;
+        }
+    };
+
+    const write = async (store: T) => {
+        await mkdir(path.dirname(storePath), { recursive: true });
+        const temp = `${storePath}.${process.pid}.tmp`;
+        await writeFile(temp, JSON.stringify(store, null, 2));
+        await rename(temp, storePath);
+    };
+
+    return {
+        // Waits for pending writes so callers read their own changes
+        read: async () => {
+            await queue;
+            return load();
+        },
+
+        update: (change) => {
+            const next = queue.then(async () => {
+                const store = await load();
+                const result = change(store);
+                await write(store);
+                return result;
+            });
+            queue = next.catch(() => undefined);
+            return next;
+        },
+    };
+};
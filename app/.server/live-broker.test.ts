@@ -0,0 +1,180 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+    MAX_PARTICIPANTS,
+    type LiveEvent,
+    type LiveParticipant,
+} from '~/live/protocol';
+import { DEFAULT_CUSTOMIZATION } from '~/products/customization';
+import {
+    createInProcessLiveBroker,
+    LiveSessionError,
+    type LiveBroker,
+} from './live-broker';
+
+const SESSION = 'session-1';
+
+const participant = (id: string, joinedAt = 0): LiveParticipant => ({
+    id,
+    name: id,
+    joinedAt,
+});
+
+const CUSTOMIZATION_MESSAGE = {
+    type: 'customization' as const,
+    customization: { ...DEFAULT_CUSTOMIZATION, scale: 1.5 },
+};
+
+// Joins with a listener that records everything it receives
+const join = (
+    broker: LiveBroker,
+    id: string,
+    productId = 'sofa',
+    joinedAt = 0
+) => {
+    const events: LiveEvent[] = [];
+    const leave = broker.join(
+        SESSION,
+        productId,
+        participant(id, joinedAt),
+        (event) => events.push(event)
+    );
+    return { events, leave };
+};
+
+// The status and message of a LiveSessionError, or null if none was thrown
+const rejection = (attempt: () => unknown) => {
+    try {
+        attempt();
+    } catch (error) {
+        return error instanceof LiveSessionError
+            ? { message: error.message, status: error.status }
+            : error;
+    }
+    return null;
+};
+
+describe('createInProcessLiveBroker', () => {
+    let broker: LiveBroker;
+
+    beforeEach(() => {
+        broker = createInProcessLiveBroker();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('sends a snapshot on join and tells the others', () => {
+        const host = join(broker, 'host', 'sofa', 1);
+        const guest = join(broker, 'guest', 'sofa', 2);
+
+        expect(guest.events).toEqual([
+            {
+                type: 'snapshot',
+                state: { customization: null, camera: null, annotations: [] },
+                participants: [participant('host', 1), participant('guest', 2)],
+            },
+        ]);
+        expect(host.events.at(-1)).toEqual({
+            type: 'presence',
+            participants: [participant('host', 1), participant('guest', 2)],
+        });
+        expect(broker.getProductId(SESSION)).toBe('sofa');
+    });
+
+    it('relays updates to everyone but the sender', () => {
+        const host = join(broker, 'host');
+        const guest = join(broker, 'guest');
+        const hostEvents = host.events.length;
+
+        broker.publish(SESSION, 'host', CUSTOMIZATION_MESSAGE);
+        expect(host.events).toHaveLength(hostEvents);
+        expect(guest.events.at(-1)).toEqual({
+            type: 'update',
+            from: 'host',
+            message: CUSTOMIZATION_MESSAGE,
+        });
+    });
+
+    it('hands the current state to late joiners', () => {
+        join(broker, 'host');
+        broker.publish(SESSION, 'host', CUSTOMIZATION_MESSAGE);
+
+        const late = join(broker, 'late');
+        expect(late.events[0]).toMatchObject({
+            type: 'snapshot',
+            state: { customization: CUSTOMIZATION_MESSAGE.customization },
+        });
+    });
+
+    it('only accepts messages from participants', () => {
+        join(broker, 'host');
+        expect(
+            rejection(() =>
+                broker.publish(SESSION, 'stranger', CUSTOMIZATION_MESSAGE)
+            )
+        ).toEqual({ message: 'Not in this session', status: 403 });
+        expect(
+            rejection(() =>
+                broker.publish('other-session', 'host', CUSTOMIZATION_MESSAGE)
+            )
+        ).toEqual({ message: 'Not in this session', status: 403 });
+    });
+
+    it('keeps a session to its product', () => {
+        join(broker, 'host', 'sofa');
+        expect(rejection(() => join(broker, 'guest', 'armchair'))).toEqual({
+            message: 'Session is for sofa',
+            status: 409,
+        });
+    });
+
+    it('turns away participants once the session is full', () => {
+        for (let index = 0; index < MAX_PARTICIPANTS; index++) {
+            join(broker, `participant-${index}`);
+        }
+        expect(rejection(() => join(broker, 'one-too-many'))).toEqual({
+            message: 'Session is full',
+            status: 429,
+        });
+        // Reconnecting doesn't take another seat
+        expect(rejection(() => join(broker, 'participant-0'))).toBe(null);
+    });
+
+    it('announces leaving, but not when a reconnect replaced the stream', () => {
+        const host = join(broker, 'host');
+        const first = join(broker, 'guest');
+        const second = join(broker, 'guest');
+        const hostEvents = host.events.length;
+
+        first.leave();
+        expect(host.events).toHaveLength(hostEvents);
+        broker.publish(SESSION, 'host', CUSTOMIZATION_MESSAGE);
+        expect(second.events.at(-1)).toMatchObject({ type: 'update' });
+
+        second.leave();
+        expect(host.events.at(-1)).toEqual({
+            type: 'presence',
+            participants: [participant('host')],
+        });
+    });
+
+    it('forgets empty sessions after half an hour', () => {
+        vi.useFakeTimers();
+        const host = join(broker, 'host');
+        broker.publish(SESSION, 'host', CUSTOMIZATION_MESSAGE);
+        host.leave();
+
+        vi.advanceTimersByTime(29 * 60 * 1000);
+        const back = join(broker, 'host');
+        expect(back.events[0]).toMatchObject({
+            state: { customization: CUSTOMIZATION_MESSAGE.customization },
+        });
+        back.leave();
+
+        // Expired sessions are pruned on the next join, freeing the id
+        vi.advanceTimersByTime(31 * 60 * 1000);
+        expect(rejection(() => join(broker, 'guest', 'armchair'))).toBe(null);
+        expect(broker.getProductId(SESSION)).toBe('armchair');
+    });
+});
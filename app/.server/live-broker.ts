@@ -0,0 +1,164 @@
+import {
+    applyLiveMessage,
+    EMPTY_LIVE_STATE,
+    MAX_PARTICIPANTS,
+    type LiveEvent,
+    type LiveMessage,
+    type LiveParticipant,
+    type LiveState,
+} from '~/live/protocol';
+
+// Fans live-session messages out to the participants' event streams. The
+// in-process broker only reaches participants connected to this server
+// process, which covers a single instance and local testing; a deployment
+// running several instances swaps in one backed by shared pub/sub.
+
+export type LiveListener = (event: LiveEvent) => void;
+
+export interface LiveBroker {
+    // Returns a function that leaves the session
+    join: (
+        sessionId: string,
+        productId: string,
+        participant: LiveParticipant,
+        listener: LiveListener
+    ) => () => void;
+    publish: (sessionId: string, from: string, message: LiveMessage) => void;
+    getProductId: (sessionId: string) => string | null;
+}
+
+// Thrown when a session is full or belongs to another product
+export class LiveSessionError extends Error {
+    constructor(
+        message: string,
+        readonly status: number
+    ) {
+        super(message);
+        this.name = 'LiveSessionError';
+    }
+}
+
+interface Session {
+    productId: string;
+    state: LiveState;
+    participants: Map<
+        string,
+        { participant: LiveParticipant; listener: LiveListener }
+    >;
+    updatedAt: number;
+}
+
+// Empty sessions keep their state this long so a reconnecting participant
+// finds the model as they left it
+const SESSION_TTL_MS = 30 * 60 * 1000;
+
+export const createInProcessLiveBroker = (): LiveBroker => {
+    const sessions = new Map<string, Session>();
+
+    const pruneExpired = (now: number) => {
+        for (const [id, session] of sessions) {
+            if (
+                session.participants.size === 0 &&
+                now - session.updatedAt > SESSION_TTL_MS
+            ) {
+                sessions.delete(id);
+            }
+        }
+    };
+
+    const broadcast = (
+        session: Session,
+        event: LiveEvent,
+        exceptId?: string
+    ) => {
+        for (const [id, { listener }] of session.participants) {
+            if (id !== exceptId) listener(event);
+        }
+    };
+
+    const listParticipants = (session: Session): LiveParticipant[] =>
+        [...session.participants.values()]
+            .map(({ participant }) => participant)
+            .sort((a, b) => a.joinedAt - b.joinedAt);
+
+    return {
+        join: (sessionId, productId, participant, listener) => {
+            const now = Date.now();
+            pruneExpired(now);
+            let session = sessions.get(sessionId);
+            if (session && session.productId !== productId) {
+                throw new LiveSessionError(
+                    `Session is for ${session.productId}`,
+                    409
+                );
+            }
+            if (!session) {
+                session = {
+                    productId,
+                    state: EMPTY_LIVE_STATE,
+                    participants: new Map(),
+                    updatedAt: now,
+                };
+                sessions.set(sessionId, session);
+            }
+            // A reconnect replaces the participant's old stream
+            if (
+                !session.participants.has(participant.id) &&
+                session.participants.size >= MAX_PARTICIPANTS
+            ) {
+                throw new LiveSessionError('Session is full', 429);
+            }
+
+            const joined = session;
+            joined.participants.set(participant.id, { participant, listener });
+            joined.updatedAt = now;
+            listener({
+                type: 'snapshot',
+                state: joined.state,
+                participants: listParticipants(joined),
+            });
+            broadcast(
+                joined,
+                { type: 'presence', participants: listParticipants(joined) },
+                participant.id
+            );
+
+            return () => {
+                // Only the stream that joined may leave, not one it was
+                // replaced by
+                if (
+                    joined.participants.get(participant.id)?.listener !==
+                    listener
+                ) {
+                    return;
+                }
+                joined.participants.delete(participant.id);
+                joined.updatedAt = Date.now();
+                broadcast(joined, {
+                    type: 'presence',
+                    participants: listParticipants(joined),
+                });
+            };
+        },
+
+        publish: (sessionId, from, message) => {
+            const session = sessions.get(sessionId);
+            if (!session?.participants.has(from)) {
+                throw new LiveSessionError('Not in this session', 403);
+            }
+            session.state = applyLiveMessage(session.state, message);
+            session.updatedAt = Date.now();
+            broadcast(session, { type: 'update', from, message }, from);
+        },
+
+        getProductId: (sessionId) => sessions.get(sessionId)?.productId ?? null,
+    };
+};
+
+let broker: LiveBroker = createInProcessLiveBroker();
+
+export const getLiveBroker = (): LiveBroker => broker;
+
+export const setLiveBroker = (next: LiveBroker): void => {
+    broker = next;
+};
@@ -0,0 +1,61 @@
+import { randomUUID } from 'node:crypto';
+import {
+    CartNotFoundError,
+    summarizeCart,
+    type CartAdapter,
+    type CartLine,
+} from '~/commerce/cart';
+import { PRICE_CURRENCY } from '~/products/pricing';
+import { createJsonFileStore } from './json-file-store';
+
+// Local stand-in for a shop backend: every cart lives in one JSON file, which
+// makes it easy to inspect what the viewer sent while testing.
+
+type CartStore = Record<string, CartLine[]>;
+
+export const createMockCartAdapter = (storePath: string): CartAdapter => {
+    const { read, update } = createJsonFileStore<CartStore>(
+        storePath,
+        () => ({})
+    );
+
+    const getLines = (store: CartStore, cartId: string): CartLine[] => {
+        const lines = store[cartId];
+        if (!lines) throw new CartNotFoundError(cartId);
+        return lines;
+    };
+
+    return {
+        createCart: () =>
+            update((store) => {
+                const id = randomUUID();
+                store[id] = [];
+                return summarizeCart(id, [], PRICE_CURRENCY);
+            }),
+
+        getCart: async (cartId) => {
+            const lines = (await read())[cartId];
+            return lines ? summarizeCart(cartId, lines, PRICE_CURRENCY) : null;
+        },
+
+        addLine: (cartId, input) =>
+            update((store) => {
+                const lines = getLines(store, cartId);
+                lines.push({
+                    ...input,
+                    id: randomUUID(),
+                    addedAt: new Date().toISOString(),
+                });
+                return summarizeCart(cartId, lines, PRICE_CURRENCY);
+            }),
+
+        removeLine: (cartId, lineId) =>
+            update((store) => {
+                const lines = getLines(store, cartId).filter(
+                    (line) => line.id !== lineId
+                );
+                store[cartId] = lines;
+                return summarizeCart(cartId, lines, PRICE_CURRENCY);
+            }),
+    };
+};
@@ -0,0 +1,65 @@
+import type { Product } from '~/products/catalog';
+
+// Placeholder shown by model-viewer until the first model has loaded: the
+// product's bounding box in oblique projection, drawn to the catalog
+// proportions so the layout and silhouette don't jump when the model appears.
+
+const WIDTH = 800;
+const HEIGHT = 600;
+const FILL = 0.6; // share of the poster the box may cover
+const DEPTH_SHORTENING = 0.5;
+const DEPTH_ANGLE = Math.PI / 6; // 30°
+
+const point = (x: number, y: number) => `${x.toFixed(1)},${y.toFixed(1)}`;
+
+export const renderPosterSvg = (product: Product): string => {
+    const { width, height, depth } = product.dimensions;
+    const depthX = depth * DEPTH_SHORTENING * Math.cos(DEPTH_ANGLE);
+    const depthY = depth * DEPTH_SHORTENING * Math.sin(DEPTH_ANGLE);
+    const scale = Math.min(
+        (WIDTH * FILL) / (width + depthX),
+        (HEIGHT * FILL) / (height + depthY)
+    );
+
+    const w = width * scale;
+    const h = height * scale;
+    const dx = depthX * scale;
+    const dy = depthY * scale;
+    // Front face's bottom-left corner, chosen to center the whole box
+    const left = (WIDTH - w - dx) / 2;
+    const bottom = (HEIGHT + h + dy) / 2;
+
+    const front = [
+        point(left, bottom),
+        point(left + w, bottom),
+        point(left + w, bottom - h),
+        point(left, bottom - h),
+    ];
+    const top = [
+        point(left, bottom - h),
+        point(left + w, bottom - h),
+        point(left + w + dx, bottom - h - dy),
+        point(left + dx, bottom - h - dy),
+    ];
+    const side = [
+        point(left + w, bottom),
+        point(left + w + dx, bottom - dy),
+        point(left + w + dx, bottom - h - dy),
+        point(left + w, bottom - h),
+    ];
+
+    return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${WIDTH} ${HEIGHT}" width="${WIDTH}" height="${HEIGHT}">
+  <defs>
+    <linearGradient id="background" x1="0" y1="0" x2="0" y2="1">
+      <stop offset="0" stop-color="#e0e7ff"/>
+      <stop offset="1" stop-color="#f3f4f6"/>
+    </linearGradient>
+  </defs>
+  <rect width="${WIDTH}" height="${HEIGHT}" fill="url(#background)"/>
+  <ellipse cx="${(left + (w + dx) / 2).toFixed(1)}" cy="${(bottom - dy / 2).toFixed(1)}" rx="${((w + dx) * 0.6).toFixed(1)}" ry="${(dy * 0.9 + 12).toFixed(1)}" fill="#1f2937" opacity="0.08"/>
+  <polygon points="${top.join(' ')}" fill="#d1d5db"/>
+  <polygon points="${side.join(' ')}" fill="#9ca3af"/>
+  <polygon points="${front.join(' ')}" fill="#b6bcc6"/>
+</svg>
+`;
+};
@@ -0,0 +1,30 @@
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import type { ProductOptionSchema } from '~/products/options';
+
+// Option schemas live in a local JSON file until a catalog service replaces
+// this module.
+
+const OPTIONS_PATH =
+    process.env.PRODUCT_OPTIONS_PATH ||
+    path.join(process.cwd(), 'data', 'product-options.json');
+
+type OptionsFile = Record<string, Omit<ProductOptionSchema, 'productId'>>;
+
+// Read per request, the file is small and edits show up immediately
+const readOptionsFile = async (): Promise<OptionsFile> => {
+    try {
+        return JSON.parse(await readFile(OPTIONS_PATH, 'utf8'));
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return {};
+        throw error;
+    }
+};
+
+// Products without an entry have no constraints, surcharges or stock data
+export const getProductOptions = async (
+    productId: string
+): Promise<ProductOptionSchema | null> => {
+    const entry = (await readOptionsFile())[productId];
+    return entry ? { ...entry, productId } : null;
+};
@@ -0,0 +1,177 @@
+import path from 'node:path';
+import { getProduct } from '~/products/catalog';
+import {
+    createConfiguration,
+    validateCustomization,
+    type PlacementMode,
+} from '~/products/configuration';
+import {
+    MAX_NAME_LENGTH,
+    mergeSavedConfigurations,
+    type SyncedConfiguration,
+} from '~/saved/saved-configurations';
+import { createJsonFileStore } from './json-file-store';
+
+// Server copy of saved configurations, keyed by the anonymous id in the
+// `saved-user` cookie. Deletions are remembered so another device's stale
+// copy doesn't bring an entry back on its next sync. Anyone can create a
+// user by posting without the cookie, so the store keeps only the most
+// recently active users and their latest deletions.
+
+const SAVED_STORE_PATH =
+    process.env.SAVED_STORE_PATH ||
+    path.join(process.cwd(), '.cache', 'saved-configurations.json');
+
+const ID_PATTERN = /^[A-Za-z0-9-]{8,64}$/;
+const THUMBNAIL_PATTERN =
+    /^data:image\/(jpeg|png|webp);base64,[A-Za-z0-9+/=]+$/;
+const MAX_THUMBNAIL_LENGTH = 256 * 1024;
+const MAX_USERS = 10_000;
+const MAX_DELETED_PER_USER = 200;
+
+interface UserEntry {
+    configurations: SyncedConfiguration[];
+    deleted: Record<string, number>; // id → deletedAt
+    updatedAt: number;
+}
+
+const store = createJsonFileStore<Record<string, UserEntry>>(
+    SAVED_STORE_PATH,
+    () => ({})
+);
+
+const getEntry = (
+    users: Record<string, UserEntry>,
+    userId: string
+): UserEntry => {
+    const entry = (users[userId] ??= {
+        configurations: [],
+        deleted: {},
+        updatedAt: 0,
+    });
+    entry.updatedAt = Date.now();
+    return entry;
+};
+
+// Drops the oldest deletions and the least recently active users; entries
+// written before users were timestamped count as the oldest
+const trimStore = (users: Record<string, UserEntry>, userId: string) => {
+    const { deleted } = users[userId];
+    const deletedIds = Object.keys(deleted);
+    if (deletedIds.length > MAX_DELETED_PER_USER) {
+        deletedIds
+            .sort((a, b) => deleted[b] - deleted[a])
+            .slice(MAX_DELETED_PER_USER)
+            .forEach((id) => delete deleted[id]);
+    }
+    const userIds = Object.keys(users);
+    if (userIds.length > MAX_USERS) {
+        userIds
+            .sort(
+                (a, b) => (users[b].updatedAt ?? 0) - (users[a].updatedAt ?? 0)
+            )
+            .slice(MAX_USERS)
+            .forEach((id) => delete users[id]);
+    }
+};
+
+export const isSavedConfigurationId = (id: unknown): id is string =>
+    typeof id === 'string' && ID_PATTERN.test(id);
+
+const isTimestamp = (value: unknown): value is number =>
+    typeof value === 'number' && Number.isFinite(value) && value > 0;
+
+// Rebuilds an uploaded entry from the catalog, dropping anything that
+// doesn't validate. Product names come from the catalog, not the client.
+export const sanitizeSyncedConfiguration = (
+    raw: any
+): SyncedConfiguration | null => {
+    if (!raw || typeof raw !== 'object') return null;
+    const { id, name, configuration, thumbnail, createdAt, updatedAt } = raw;
+    if (!isSavedConfigurationId(id)) return null;
+    if (typeof name !== 'string') return null;
+    const trimmedName = name.trim().slice(0, MAX_NAME_LENGTH);
+    if (!trimmedName || !isTimestamp(createdAt) || !isTimestamp(updatedAt)) {
+        return null;
+    }
+    if (
+        thumbnail !== null &&
+        (typeof thumbnail !== 'string' ||
+            thumbnail.length > MAX_THUMBNAIL_LENGTH ||
+            !THUMBNAIL_PATTERN.test(thumbnail))
+    ) {
+        return null;
+    }
+
+    const product = getProduct(configuration?.productId);
+    const placement: PlacementMode | null =
+        configuration?.placement === 'floor' ||
+        configuration?.placement === 'wall'
+            ? configuration.placement
+            : null;
+    if (!product || !placement) return null;
+    const rawCustomization = configuration.customization ?? {};
+    const { customization, warnings } = validateCustomization(
+        {
+            color: String(rawCustomization.color ?? ''),
+            scale: String(rawCustomization.scale ?? ''),
+            pattern: String(rawCustomization.pattern ?? ''),
+            material: String(rawCustomization.material ?? ''),
+        },
+        product
+    );
+    if (warnings.length > 0) return null;
+
+    return {
+        id,
+        name: trimmedName,
+        productName: product.name,
+        configuration: createConfiguration(
+            product.id,
+            customization,
+            placement
+        ),
+        thumbnail,
+        createdAt,
+        updatedAt,
+    };
+};
+
+export const listSavedConfigurations = async (
+    userId: string
+): Promise<SyncedConfiguration[]> =>
+    (await store.read())[userId]?.configurations ?? [];
+
+// Merges the device's list into the stored one and returns the result,
+// which the device adopts as its own. Nothing is stored for a new user
+// with nothing to upload.
+export const syncSavedConfigurations = (
+    userId: string,
+    uploaded: SyncedConfiguration[]
+): Promise<SyncedConfiguration[]> =>
+    store.update((users) => {
+        if (!users[userId] && uploaded.length === 0) return [];
+        const entry = getEntry(users, userId);
+        entry.configurations = mergeSavedConfigurations(
+            entry.configurations,
+            uploaded
+        ).filter((saved) => saved.updatedAt > (entry.deleted[saved.id] ?? 0));
+        trimStore(users, userId);
+        return entry.configurations;
+    });
+
+export const deleteSavedConfiguration = (
+    userId: string,
+    id: string
+): Promise<SyncedConfiguration[]> =>
+    store.update((users) => {
+        // An unknown user has nothing another device could bring back
+        if (!users[userId]) return [];
+        const entry = getEntry(users, userId);
+        entry.configurations = entry.configurations.filter(
+            (saved) => saved.id !== id
+        );
+        entry.deleted[id] = Date.now();
+        trimStore(users, userId);
+        return entry.configurations;
+    });
@@ -0,0 +1,79 @@
+import type { Customization } from '~/products/customization';
+import { getMaterialPreset } from '~/products/materials';
+import { hexToLinearRgb } from './color';
+import { readZip, writeUsdz } from './zip';
+
+const VARIANT_LAYER_NAME = 'variant.usda';
+
+const formatFloat = (value: number): string =>
+    Number(value.toFixed(6)).toString();
+
+// Text layers carry their own stage metadata; binary crate files are
+// assumed to be authored in meters.
+const readMetersPerUnit = (name: string, data: Buffer): number => {
+    if (!name.endsWith('.usda')) return 1;
+    const match = /metersPerUnit\s*=\s*([\d.eE+-]+)/.exec(
+        data.toString('utf8', 0, 4096)
+    );
+    return match ? parseFloat(match[1]) : 1;
+};
+
+// USDZ packages the first file as the root layer. Rather than rewriting the
+// (usually binary) source layer, the variant adds a new text root layer that
+// references it, scales it and binds a single preview material over every
+// descendant.
+export const applyCustomizationToUsdz = (
+    source: Buffer,
+    customization: Customization
+): Buffer => {
+    const entries = readZip(source);
+    const root = entries[0];
+    if (!root || !/\.usd[ac]?$/.test(root.name)) {
+        throw new Error('Invalid USDZ: first entry is not a USD layer');
+    }
+
+    const [r, g, b] = hexToLinearRgb(customization.color);
+    const scale = formatFloat(customization.scale);
+    const preset = getMaterialPreset(customization.material);
+    const surfaceInputs = preset
+        ? `
+            float inputs:roughness = ${formatFloat(preset.roughness)}
+            float inputs:metallic = ${formatFloat(preset.metalness)}`
+        : '';
+    const layer = `#usda 1.0
+(
+    defaultPrim = "Variant"
+    metersPerUnit = ${readMetersPerUnit(root.name, root.data)}
+    upAxis = "Y"
+)
+
+def Xform "Variant" (
+    prepend apiSchemas = ["MaterialBindingAPI"]
+    prepend references = @./${root.name}@
+)
+{
+    rel material:binding = </Variant/VariantMaterial> (
+        bindMaterialAs = "strongerThanDescendants"
+    )
+    double3 xformOp:scale = (${scale}, ${scale}, ${scale})
+    uniform token[] xformOpOrder = ["xformOp:scale"]
+
+    def Material "VariantMaterial"
+    {
+        token outputs:surface.connect = </Variant/VariantMaterial/Surface.outputs:surface>
+
+        def Shader "Surface"
+        {
+            uniform token info:id = "UsdPreviewSurface"
+            color3f inputs:diffuseColor = (${formatFloat(r)}, ${formatFloat(g)}, ${formatFloat(b)})${surfaceInputs}
+            token outputs:surface
+        }
+    }
+}
+`;
+
+    return writeUsdz([
+        { name: VARIANT_LAYER_NAME, data: Buffer.from(layer, 'utf8') },
+        ...entries.filter((entry) => entry.name !== VARIANT_LAYER_NAME),
+    ]);
+};
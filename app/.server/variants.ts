@@ -0,0 +1,171 @@
+import { createHash } from 'node:crypto';
+import {
+    mkdir,
+    readdir,
+    readFile,
+    rename,
+    rm,
+    stat,
+    utimes,
+    writeFile,
+} from 'node:fs/promises';
+import path from 'node:path';
+import type { Product } from '~/products/catalog';
+import type { Customization } from '~/products/customization';
+import { applyCustomizationToGlb } from './glb';
+import { applyCustomizationToUsdz } from './usdz';
+
+export type VariantFormat = 'glb' | 'usdz';
+
+export const VARIANT_CONTENT_TYPES: Record<VariantFormat, string> = {
+    glb: 'model/gltf-binary',
+    usdz: 'model/vnd.usdz+zip',
+};
+
+// Bump when the generated output changes so stale cache entries are ignored
+const VARIANT_VERSION = 2;
+
+const ASSET_ROOT = process.env.ASSET_ROOT || process.cwd();
+const CACHE_DIR =
+    process.env.VARIANT_CACHE_DIR ||
+    path.join(process.cwd(), '.cache', 'variants');
+// Every color is a distinct variant, so the cache is capped rather than
+// keyed on a small set
+const MAX_CACHE_BYTES =
+    Number(process.env.VARIANT_CACHE_MAX_BYTES) || 512 * 1024 * 1024;
+
+const pending = new Map<string, Promise<Buffer>>();
+
+export class AssetNotFoundError extends Error {
+    constructor(assetUrl: string) {
+        super(`Source asset not found: ${assetUrl}`);
+        this.name = 'AssetNotFoundError';
+    }
+}
+
+export const resolveAssetPath = (assetUrl: string): string => {
+    const resolved = path.resolve(ASSET_ROOT, `.${assetUrl}`);
+    if (!resolved.startsWith(path.resolve(ASSET_ROOT) + path.sep)) {
+        throw new AssetNotFoundError(assetUrl);
+    }
+    return resolved;
+};
+
+// Inverse of resolveAssetPath, for files written under the asset root
+export const toAssetUrl = (filePath: string): string => {
+    const relative = path.relative(path.resolve(ASSET_ROOT), filePath);
+    if (relative.startsWith('..') || path.isAbsolute(relative)) {
+        throw new Error(`${filePath} is outside the asset root`);
+    }
+    return `/${relative.split(path.sep).join('/')}`;
+};
+
+const getVariantKey = (
+    product: Product,
+    format: VariantFormat,
+    customization: Customization,
+    sourceMtime: number
+): string => {
+    return createHash('sha256')
+        .update(
+            JSON.stringify({
+                version: VARIANT_VERSION,
+                product: product.id,
+                format,
+                color: customization.color.toUpperCase(),
+                scale: customization.scale,
+                material: customization.material,
+                pattern: customization.pattern,
+                sourceMtime,
+            })
+        )
+        .digest('hex')
+        .slice(0, 24);
+};
+
+const generateVariant = async (
+    sourcePath: string,
+    cachePath: string,
+    format: VariantFormat,
+    customization: Customization
+): Promise<Buffer> => {
+    const source = await readFile(sourcePath);
+    const output =
+        format === 'glb'
+            ? applyCustomizationToGlb(source, customization)
+            : applyCustomizationToUsdz(source, customization);
+
+    await mkdir(path.dirname(cachePath), { recursive: true });
+    const tempPath = `${cachePath}.${process.pid}.tmp`;
+    await writeFile(tempPath, output);
+    await rename(tempPath, cachePath);
+    return output;
+};
+
+// Deletes the least recently used variants until the cache fits. Hits
+// refresh a file's modification time, so that is its last use.
+const pruneCache = async (): Promise<void> => {
+    const names = (await readdir(CACHE_DIR)).filter(
+        (name) => !name.endsWith('.tmp')
+    );
+    const files = await Promise.all(
+        names.map(async (name) => {
+            const filePath = path.join(CACHE_DIR, name);
+            const { size, mtimeMs } = await stat(filePath);
+            return { filePath, size, mtimeMs };
+        })
+    );
+    let total = files.reduce((sum, file) => sum + file.size, 0);
+    for (const file of files.sort((a, b) => a.mtimeMs - b.mtimeMs)) {
+        if (total <= MAX_CACHE_BYTES) break;
+        await rm(file.filePath, { force: true });
+        total -= file.size;
+    }
+};
+
+// Returns the customized asset, generating it on first request and serving
+// it from the on-disk cache afterwards.
+export const getVariant = async (
+    product: Product,
+    format: VariantFormat,
+    customization: Customization
+): Promise<{ key: string; data: Buffer }> => {
+    const assetUrl = format === 'glb' ? product.modelUrl : product.usdzUrl;
+    const sourcePath = resolveAssetPath(assetUrl);
+
+    let sourceMtime: number;
+    try {
+        sourceMtime = (await stat(sourcePath)).mtimeMs;
+    } catch {
+        throw new AssetNotFoundError(assetUrl);
+    }
+
+    const key = getVariantKey(product, format, customization, sourceMtime);
+    const cachePath = path.join(CACHE_DIR, `${product.id}-${key}.${format}`);
+
+    try {
+        const data = await readFile(cachePath);
+        const now = new Date();
+        utimes(cachePath, now, now).catch(() => undefined);
+        return { key, data };
+    } catch {
+        // Not cached yet
+    }
+
+    let generation = pending.get(cachePath);
+    if (!generation) {
+        generation = generateVariant(
+            sourcePath,
+            cachePath,
+            format,
+            customization
+        ).finally(() => {
+            pending.delete(cachePath);
+            pruneCache().catch((error) =>
+                console.error('Pruning the variant cache failed:', error)
+            );
+        });
+        pending.set(cachePath, generation);
+    }
+    return { key, data: await generation };
+};
@@ -0,0 +1,73 @@
+import { inflateRawSync } from 'node:zlib';
+import {
+    CENTRAL_HEADER_SIGNATURE,
+    END_OF_CENTRAL_DIR_SIGNATURE,
+    writeZip,
+    type ZipEntry,
+} from '~/zip/zip';
+
+// Reads ZIPs on the server, where zlib can inflate compressed entries, and
+// writes USDZ packages with the shared writer. USDZ archives must be
+// uncompressed with every file's data aligned to 64 bytes.
+
+export interface BufferZipEntry extends ZipEntry {
+    data: Buffer;
+}
+
+const USDZ_ALIGNMENT = 64;
+
+export const readZip = (archive: Buffer): BufferZipEntry[] => {
+    let eocd = -1;
+    for (let i = archive.length - 22; i >= 0; i--) {
+        if (archive.readUInt32LE(i) === END_OF_CENTRAL_DIR_SIGNATURE) {
+            eocd = i;
+            break;
+        }
+    }
+    if (eocd < 0) {
+        throw new Error(
+            'Invalid zip archive: end of central directory not found'
+        );
+    }
+
+    const entryCount = archive.readUInt16LE(eocd + 10);
+    let offset = archive.readUInt32LE(eocd + 16);
+    const entries: BufferZipEntry[] = [];
+
+    for (let i = 0; i < entryCount; i++) {
+        if (archive.readUInt32LE(offset) !== CENTRAL_HEADER_SIGNATURE) {
+            throw new Error('Invalid zip archive: corrupt central directory');
+        }
+        const method = archive.readUInt16LE(offset + 10);
+        const compressedSize = archive.readUInt32LE(offset + 20);
+        const nameLength = archive.readUInt16LE(offset + 28);
+        const extraLength = archive.readUInt16LE(offset + 30);
+        const commentLength = archive.readUInt16LE(offset + 32);
+        const localOffset = archive.readUInt32LE(offset + 42);
+        const name = archive.toString(
+            'utf8',
+            offset + 46,
+            offset + 46 + nameLength
+        );
+
+        const localNameLength = archive.readUInt16LE(localOffset + 26);
+        const localExtraLength = archive.readUInt16LE(localOffset + 28);
+        const dataStart = localOffset + 30 + localNameLength + localExtraLength;
+        const raw = archive.subarray(dataStart, dataStart + compressedSize);
+
+        if (method === 0) {
+            entries.push({ name, data: Buffer.from(raw) });
+        } else if (method === 8) {
+            entries.push({ name, data: inflateRawSync(raw) });
+        } else {
+            throw new Error(`Unsupported zip compression method ${method}`);
+        }
+
+        offset += 46 + nameLength + extraLength + commentLength;
+    }
+
+    return entries;
+};
+
+export const writeUsdz = (entries: ZipEntry[]): Buffer =>
+    Buffer.from(writeZip(entries, { alignment: USDZ_ALIGNMENT }).buffer);
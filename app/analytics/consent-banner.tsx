@@ -0,0 +1,48 @@
+import { useEffect, useState } from 'react';
+import { useI18n } from '~/i18n/i18n-context';
+import {
+    getAnalyticsConsent,
+    setAnalyticsConsent,
+    type AnalyticsConsent,
+} from './tracker';
+
+// Asks once; the answer is remembered in localStorage
+export default function ConsentBanner() {
+    const { t } = useI18n();
+    const [visible, setVisible] = useState(false);
+
+    useEffect(() => {
+        setVisible(getAnalyticsConsent() === null);
+    }, []);
+
+    const answer = (consent: AnalyticsConsent) => {
+        setAnalyticsConsent(consent);
+        setVisible(false);
+    };
+
+    if (!visible) return null;
+
+    return (
+        <div
+            className='consent-banner'
+            role='region'
+            aria-label={t('consent.label')}
+        >
+            <p>{t('consent.question')}</p>
+            <div className='consent-actions'>
+                <button
+                    className='button-secondary'
+                    onClick={() => answer('denied')}
+                >
+                    {t('consent.deny')}
+                </button>
+                <button
+                    className='button-primary'
+                    onClick={() => answer('granted')}
+                >
+                    {t('consent.allow')}
+                </button>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,65 @@
+import type { ARFailureReason, ARMode } from '~/welcome/ar-session';
+
+// Every event the viewer reports, with its properties. Shared by the client
+// tracker and the server collector so both agree on the wire format.
+export interface AnalyticsEventProperties {
+    model_loaded: { productId: string; loadTimeMs: number };
+    ar_confirm_shown: { productId: string; mode: ARMode };
+    ar_confirm_accepted: { productId: string; mode: ARMode };
+    ar_confirm_cancelled: { productId: string; mode: ARMode };
+    ar_session_started: { productId: string; mode: ARMode };
+    object_placed: { productId: string; mode: ARMode };
+    ar_failed: { productId: string; mode: ARMode; reason: ARFailureReason };
+    capture_taken: { productId: string; format: string };
+    add_to_cart: {
+        productId: string;
+        price: number;
+        source: 'page' | 'ar' | 'quick-look';
+    };
+    customization_changed: {
+        productId: string;
+        field: string;
+        value: string | number;
+    };
+}
+
+export type AnalyticsEventName = keyof AnalyticsEventProperties;
+
+export type AnalyticsEvent<
+    Name extends AnalyticsEventName = AnalyticsEventName,
+> = {
+    [N in Name]: {
+        name: N;
+        properties: AnalyticsEventProperties[N];
+        timestamp: number; // ms since epoch
+        sessionId: string;
+        path: string;
+    };
+}[Name];
+
+export const ANALYTICS_EVENT_NAMES: AnalyticsEventName[] = [
+    'model_loaded',
+    'ar_confirm_shown',
+    'ar_confirm_accepted',
+    'ar_confirm_cancelled',
+    'ar_session_started',
+    'object_placed',
+    'ar_failed',
+    'capture_taken',
+    'add_to_cart',
+    'customization_changed',
+];
+
+// Structural check for events arriving from the network
+export const isAnalyticsEvent = (value: unknown): value is AnalyticsEvent => {
+    if (!value || typeof value !== 'object') return false;
+    const event = value as Record<string, unknown>;
+    return (
+        ANALYTICS_EVENT_NAMES.includes(event.name as AnalyticsEventName) &&
+        !!event.properties &&
+        typeof event.properties === 'object' &&
+        typeof event.timestamp === 'number' &&
+        typeof event.sessionId === 'string' &&
+        typeof event.path === 'string'
+    );
+};
@@ -0,0 +1,142 @@
+import { createId } from '~/welcome/indexed-db';
+import type {
+    AnalyticsEvent,
+    AnalyticsEventName,
+    AnalyticsEventProperties,
+} from './events';
+
+// Batches events in memory and hands them to a sink. Nothing is recorded until
+// the visitor has agreed to analytics.
+
+export interface AnalyticsSink {
+    send: (events: AnalyticsEvent[]) => void;
+}
+
+export type AnalyticsConsent = 'granted' | 'denied';
+
+const CONSENT_KEY = 'ar-viewer:analytics-consent';
+const SESSION_KEY = 'ar-viewer:analytics-session';
+const DEFAULT_ENDPOINT: string =
+    import.meta.env.VITE_ANALYTICS_ENDPOINT || '/analytics';
+const BATCH_SIZE = 20;
+const FLUSH_INTERVAL_MS = 5000;
+
+// sendBeacon survives page unloads; fetch with keepalive is the fallback
+// where beacons are unavailable or the payload is refused
+export const createBeaconSink = (url: string): AnalyticsSink => ({
+    send: (events) => {
+        const body = JSON.stringify({ events });
+        const queued =
+            typeof navigator.sendBeacon === 'function' &&
+            navigator.sendBeacon(
+                url,
+                new Blob([body], { type: 'application/json' })
+            );
+        if (!queued) {
+            fetch(url, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body,
+                keepalive: true,
+            }).catch((error) => console.error('Analytics send failed:', error));
+        }
+    },
+});
+
+let sink: AnalyticsSink = createBeaconSink(DEFAULT_ENDPOINT);
+let queue: AnalyticsEvent[] = [];
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+let listening = false;
+// Kept for this page in case storage is unavailable, e.g. blocked or full
+let pageConsent: AnalyticsConsent | null = null;
+let pageSessionId: string | null = null;
+
+export const setAnalyticsSink = (next: AnalyticsSink): void => {
+    sink = next;
+};
+
+export const getAnalyticsConsent = (): AnalyticsConsent | null => {
+    try {
+        const stored = window.localStorage.getItem(CONSENT_KEY);
+        return stored === 'granted' || stored === 'denied'
+            ? stored
+            : pageConsent;
+    } catch {
+        return pageConsent;
+    }
+};
+
+export const setAnalyticsConsent = (consent: AnalyticsConsent): void => {
+    pageConsent = consent;
+    try {
+        window.localStorage.setItem(CONSENT_KEY, consent);
+    } catch (error) {
+        console.error('Saving analytics consent failed:', error);
+    }
+    if (consent === 'denied') {
+        queue = [];
+    }
+};
+
+const getSessionId = (): string => {
+    try {
+        let id = window.sessionStorage.getItem(SESSION_KEY);
+        if (!id) {
+            id = createId();
+            window.sessionStorage.setItem(SESSION_KEY, id);
+        }
+        return id;
+    } catch {
+        pageSessionId ??= createId();
+        return pageSessionId;
+    }
+};
+
+export const flushAnalytics = (): void => {
+    if (flushTimer) {
+        clearTimeout(flushTimer);
+        flushTimer = null;
+    }
+    if (queue.length === 0) return;
+    const batch = queue;
+    queue = [];
+    try {
+        sink.send(batch);
+    } catch (error) {
+        console.error('Analytics sink failed:', error);
+    }
+};
+
+// The last batch goes out when the tab is hidden, which also covers closing it
+const listenForPageHide = () => {
+    if (listening) return;
+    listening = true;
+    document.addEventListener('visibilitychange', () => {
+        if (document.visibilityState === 'hidden') flushAnalytics();
+    });
+    window.addEventListener('pagehide', flushAnalytics);
+};
+
+export const trackEvent = <Name extends AnalyticsEventName>(
+    name: Name,
+    properties: AnalyticsEventProperties[Name]
+): void => {
+    if (typeof window === 'undefined' || getAnalyticsConsent() !== 'granted') {
+        return;
+    }
+    listenForPageHide();
+
+    queue.push({
+        name,
+        properties,
+        timestamp: Date.now(),
+        sessionId: getSessionId(),
+        path: window.location.pathname,
+    } as AnalyticsEvent);
+
+    if (queue.length >= BATCH_SIZE) {
+        flushAnalytics();
+    } else if (!flushTimer) {
+        flushTimer = setTimeout(flushAnalytics, FLUSH_INTERVAL_MS);
+    }
+};
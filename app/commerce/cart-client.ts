@@ -0,0 +1,43 @@
+import type { Customization } from '~/products/customization';
+import type { Cart } from './cart';
+
+const CART_URL = '/cart';
+
+const parseCartResponse = async (response: Response): Promise<Cart> => {
+    if (!response.ok) {
+        throw new Error(`Cart request failed: ${response.status}`);
+    }
+    return response.json();
+};
+
+export const fetchCart = async (): Promise<Cart> => {
+    return parseCartResponse(await fetch(CART_URL));
+};
+
+// The server prices the line itself, the client only says what was configured
+export const addToCart = async (
+    productId: string,
+    customization: Customization,
+    quantity = 1
+): Promise<Cart> => {
+    const response = await fetch(CART_URL, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+            intent: 'add',
+            productId,
+            customization,
+            quantity,
+        }),
+    });
+    return parseCartResponse(response);
+};
+
+export const removeFromCart = async (lineId: string): Promise<Cart> => {
+    const response = await fetch(CART_URL, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ intent: 'remove', lineId }),
+    });
+    return parseCartResponse(response);
+};
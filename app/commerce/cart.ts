@@ -0,0 +1,57 @@
+import type { Customization } from '~/products/customization';
+
+// Commerce integration point. The viewer only talks to the `/cart` route;
+// the route hands every operation to a CartAdapter, so a real shop backend
+// replaces the mock adapter without touching the UI.
+
+export interface CartLineInput {
+    productId: string;
+    productName: string;
+    customization: Customization;
+    unitPrice: number;
+    currency: string;
+    quantity: number;
+}
+
+export interface CartLine extends CartLineInput {
+    id: string;
+    addedAt: string; // ISO timestamp
+}
+
+export interface Cart {
+    id: string;
+    lines: CartLine[];
+    itemCount: number;
+    total: number;
+    currency: string;
+}
+
+export interface CartAdapter {
+    createCart: () => Promise<Cart>;
+    getCart: (cartId: string) => Promise<Cart | null>;
+    addLine: (cartId: string, line: CartLineInput) => Promise<Cart>;
+    removeLine: (cartId: string, lineId: string) => Promise<Cart>;
+}
+
+// Thrown by adapters for unknown or expired cart ids
+export class CartNotFoundError extends Error {
+    constructor(cartId: string) {
+        super(`Cart not found: ${cartId}`);
+        this.name = 'CartNotFoundError';
+    }
+}
+
+export const summarizeCart = (
+    id: string,
+    lines: CartLine[],
+    currency: string
+): Cart => ({
+    id,
+    lines,
+    itemCount: lines.reduce((count, line) => count + line.quantity, 0),
+    total: lines.reduce(
+        (total, line) => total + line.unitPrice * line.quantity,
+        0
+    ),
+    currency,
+});
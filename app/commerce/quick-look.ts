@@ -0,0 +1,24 @@
+// Quick Look shows a custom banner when the USDZ URL carries these fragment
+// parameters, and model-viewer re-dispatches a tap on its button as the
+// `quick-look-button-tapped` event.
+
+export interface QuickLookBanner {
+    callToAction: string;
+    title: string;
+    subtitle?: string;
+    price?: string;
+}
+
+export const buildQuickLookUrl = (
+    usdzUrl: string,
+    banner: QuickLookBanner
+): string => {
+    const params = new URLSearchParams();
+    params.set('callToAction', banner.callToAction);
+    params.set('checkoutTitle', banner.title);
+    if (banner.subtitle) params.set('checkoutSubtitle', banner.subtitle);
+    if (banner.price) params.set('price', banner.price);
+    // Quick Look expects %20 rather than + for spaces
+    const fragment = params.toString().replace(/\+/g, '%20');
+    return `${usdzUrl.split('#')[0]}#${fragment}`;
+};
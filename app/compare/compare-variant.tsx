@@ -0,0 +1,218 @@
+import type { ModelViewerElement } from '@google/model-viewer';
+import { useCallback, useEffect, useReducer, useRef } from 'react';
+import { Link } from 'react-router';
+import { useCapabilities } from '~/device/capabilities-context';
+import { useI18n } from '~/i18n/i18n-context';
+import {
+    pickModelUrl,
+    pickPreviewUrl,
+    type ProductAssets,
+} from '~/products/asset-manifest';
+import { getPosterUrl, type Product } from '~/products/catalog';
+import {
+    encodeCompactConfiguration,
+    type ProductConfiguration,
+} from '~/products/configuration';
+import {
+    getVariantUrl,
+    isCustomized,
+    type Customization,
+} from '~/products/customization';
+import type { ProductOptionSchema } from '~/products/options';
+import { INITIAL_CAMERA_ORBIT } from '~/welcome/camera-controls';
+import CustomizationPanel from '~/welcome/customization-panel';
+import {
+    createModelLoadState,
+    isModelShown,
+    modelLoadReducer,
+} from '~/welcome/model-loading';
+import ModelProgress from '~/welcome/model-progress';
+import { applyCustomizationToScene } from '~/welcome/scene-customization';
+import {
+    useModelViewerEvents,
+    type ModelViewerEventMap,
+} from '~/welcome/use-model-viewer-events';
+
+interface CompareVariantProps {
+    product: Product;
+    options: ProductOptionSchema | null;
+    assets: ProductAssets | null;
+    variant: ProductConfiguration;
+    label: string;
+    viewerRef: (viewer: HTMLElement | null) => void;
+    onChange: (customization: Customization) => void;
+    onRemove: (() => void) | null; // null while at the minimum
+    onCameraMove: (viewer: HTMLElement) => void;
+    onModelShown: (viewer: HTMLElement) => void;
+}
+
+// One column of the compare page: a viewer with its own AR button and the
+// usual customization panel
+export default function CompareVariant({
+    product,
+    options,
+    assets,
+    variant,
+    label,
+    viewerRef,
+    onChange,
+    onRemove,
+    onCameraMove,
+    onModelShown,
+}: CompareVariantProps) {
+    const { isIOS, isMobile } = useCapabilities();
+    const { t } = useI18n();
+    const { customization, placement } = variant;
+    const [modelLoad, dispatchModelLoad] = useReducer(
+        modelLoadReducer,
+        null,
+        () =>
+            createModelLoadState(
+                pickModelUrl(product, assets, isMobile),
+                pickPreviewUrl(product, assets, isMobile)
+            )
+    );
+    const isModelLoaded = isModelShown(modelLoad);
+
+    // The parent's callback is bound to this variant, which never changes,
+    // so the ref stays stable instead of re-registering on every render
+    const modelViewerRef = useRef<ModelViewerElement | null>(null);
+    const setViewer = useCallback((viewer: ModelViewerElement | null) => {
+        modelViewerRef.current = viewer;
+        viewerRef(viewer);
+    }, []);
+
+    useEffect(() => {
+        if (!isModelLoaded) return;
+        applyCustomizationToScene(modelViewerRef.current, customization).catch(
+            (error) => console.error('Applying customization failed:', error)
+        );
+    }, [isModelLoaded, customization]);
+
+    // Catch up with the other cameras, e.g. when added after they were
+    // turned. Swapping the preview for the full model keeps the camera.
+    useEffect(() => {
+        if (isModelLoaded && modelViewerRef.current) {
+            onModelShown(modelViewerRef.current);
+        }
+    }, [isModelLoaded, modelLoad.attempt]);
+
+    const handleModelLoad = useCallback(
+        () => dispatchModelLoad({ type: 'LOADED' }),
+        []
+    );
+
+    const handleModelProgress = useCallback(
+        (e: ModelViewerEventMap['progress']) => {
+            dispatchModelLoad({
+                type: 'PROGRESS',
+                progress: e.detail.totalProgress,
+            });
+        },
+        []
+    );
+
+    const handleModelError = useCallback((e: ModelViewerEventMap['error']) => {
+        if (e.detail?.type !== 'loadfailure') return;
+        console.error('Model failed to load:', e.detail.sourceError);
+        dispatchModelLoad({ type: 'FAILED' });
+    }, []);
+
+    // Cameras set from code report `none`, so only drags and keys propagate
+    const handleCameraChange = useCallback(
+        (
+            e: ModelViewerEventMap['camera-change'],
+            viewer: ModelViewerElement
+        ) => {
+            if (e.detail.source === 'user-interaction') {
+                onCameraMove(viewer);
+            }
+        },
+        [onCameraMove]
+    );
+
+    useModelViewerEvents(modelViewerRef, {
+        load: handleModelLoad,
+        progress: handleModelProgress,
+        error: handleModelError,
+        'camera-change': handleCameraChange,
+    });
+
+    // Quick Look can't be customized at runtime, see ProductARViewer
+    const usdzUrl =
+        isIOS && isCustomized(customization)
+            ? getVariantUrl(product.id, 'usdz', customization)
+            : product.usdzUrl;
+    const viewerUrl = `/products/${encodeURIComponent(product.id)}?c=${encodeCompactConfiguration(variant)}`;
+
+    return (
+        <section
+            className='compare-variant'
+            aria-label={t('compare.variant', { label })}
+        >
+            <div className='compare-variant-header'>
+                <h2>{t('compare.variant', { label })}</h2>
+                {onRemove && (
+                    <button
+                        className='compare-remove'
+                        onClick={onRemove}
+                        aria-label={t('compare.removeVariant', { label })}
+                    >
+                        {t('compare.remove')}
+                    </button>
+                )}
+            </div>
+
+            <div className='compare-stage'>
+                <model-viewer
+                    key={modelLoad.attempt}
+                    ref={setViewer}
+                    src={modelLoad.src}
+                    poster={getPosterUrl(product.id)}
+                    ios-src={usdzUrl}
+                    ar
+                    ar-modes='webxr scene-viewer quick-look'
+                    ar-scale='auto'
+                    ar-placement={placement}
+                    camera-controls
+                    touch-action='pan-y'
+                    alt={t('viewer.alt', { product: product.name })}
+                    shadow-intensity='1'
+                    exposure='1.0'
+                    camera-orbit={INITIAL_CAMERA_ORBIT}
+                    scale={`${customization.scale} ${customization.scale} ${customization.scale}`}
+                >
+                    <ModelProgress state={modelLoad} />
+                    <button slot='ar-button' className='ar-button'>
+                        {t('ar.view')}
+                    </button>
+                </model-viewer>
+
+                {modelLoad.status === 'failed' && (
+                    <div className='compare-error' role='alert'>
+                        <p>{t('viewer.modelErrorTitle')}</p>
+                        <button
+                            className='button-primary'
+                            onClick={() => dispatchModelLoad({ type: 'RETRY' })}
+                        >
+                            {t('viewer.retry')}
+                        </button>
+                    </div>
+                )}
+            </div>
+
+            {/* AR on this device is the button inside the viewer; the
+                product page has the QR handoff for desktops */}
+            <Link to={viewerUrl} className='compare-open'>
+                {isMobile ? t('compare.openViewer') : t('compare.openOnPhone')}
+            </Link>
+
+            <CustomizationPanel
+                product={product}
+                options={options}
+                customization={customization}
+                onChange={onChange}
+            />
+        </section>
+    );
+}
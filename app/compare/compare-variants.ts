@@ -0,0 +1,91 @@
+import type { Product, ProductDimensions } from '~/products/catalog';
+import {
+    createConfiguration,
+    decodeCompactConfiguration,
+    encodeCompactConfiguration,
+    type ProductConfiguration,
+} from '~/products/configuration';
+import { DEFAULT_CUSTOMIZATION } from '~/products/customization';
+import type { ProductOptionSchema } from '~/products/options';
+import { getConfiguredPrice } from '~/products/pricing';
+
+// The compare page carries one compact token per variant, e.g.
+// /products/sofa/compare?c=1.sofa.FFFFFF.100.sdf.0abc123&c=...
+
+export const MIN_VARIANTS = 2;
+export const MAX_VARIANTS = 4;
+
+export const VARIANT_LABELS = ['A', 'B', 'C', 'D'];
+
+export type DifferenceField = 'price' | keyof ProductDimensions;
+
+export interface VariantDifference {
+    field: DifferenceField;
+    values: number[]; // price in PRICE_CURRENCY, lengths in meters
+}
+
+const AXES: (keyof ProductDimensions)[] = ['width', 'height', 'depth'];
+
+// Filler so there is always something to compare: the default in a
+// catalog color none of the other variants uses yet
+const createFillerVariant = (
+    product: Product,
+    variants: ProductConfiguration[]
+): ProductConfiguration => {
+    const used = variants.map((variant) =>
+        variant.customization.color.toUpperCase()
+    );
+    const color =
+        product.colors.find((color) => !used.includes(color.hex)) ??
+        product.colors[variants.length % product.colors.length];
+    return createConfiguration(product.id, {
+        ...DEFAULT_CUSTOMIZATION,
+        color: color.hex,
+    });
+};
+
+// Unreadable tokens and tokens for another product are dropped
+export const decodeCompareVariants = (
+    params: URLSearchParams,
+    product: Product
+): ProductConfiguration[] => {
+    const variants = params
+        .getAll('c')
+        .map((token) => decodeCompactConfiguration(token)?.configuration)
+        .filter(
+            (configuration): configuration is ProductConfiguration =>
+                configuration?.productId === product.id
+        )
+        .slice(0, MAX_VARIANTS);
+    while (variants.length < MIN_VARIANTS) {
+        variants.push(createFillerVariant(product, variants));
+    }
+    return variants;
+};
+
+export const encodeCompareVariants = (
+    variants: ProductConfiguration[]
+): URLSearchParams =>
+    new URLSearchParams(
+        variants.map((variant) => ['c', encodeCompactConfiguration(variant)])
+    );
+
+// Price and scaled size of every variant, in variant order
+export const getVariantDifferences = (
+    product: Product,
+    options: ProductOptionSchema | null,
+    variants: ProductConfiguration[]
+): VariantDifference[] => [
+    {
+        field: 'price',
+        values: variants.map((variant) =>
+            getConfiguredPrice(product, variant.customization, options)
+        ),
+    },
+    ...AXES.map((axis) => ({
+        field: axis,
+        values: variants.map(
+            (variant) => product.dimensions[axis] * variant.customization.scale
+        ),
+    })),
+];
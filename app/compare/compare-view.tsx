@@ -0,0 +1,201 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Link } from 'react-router';
+import { useI18n } from '~/i18n/i18n-context';
+import { getDefaultUnitSystem } from '~/i18n/locale';
+import type { ProductAssets } from '~/products/asset-manifest';
+import type { Product } from '~/products/catalog';
+import type { ProductConfiguration } from '~/products/configuration';
+import type { Customization } from '~/products/customization';
+import type { ProductOptionSchema } from '~/products/options';
+import { DEFAULT_UNITS } from '~/products/units';
+import { copyCamera } from '~/welcome/camera-controls';
+import { loadModelViewer } from '~/welcome/model-viewer-loader';
+import CompareVariant from './compare-variant';
+import {
+    encodeCompareVariants,
+    getVariantDifferences,
+    MAX_VARIANTS,
+    MIN_VARIANTS,
+    VARIANT_LABELS,
+} from './compare-variants';
+import VariantDifferences from './variant-differences';
+
+interface CompareViewProps {
+    product: Product;
+    options: ProductOptionSchema | null;
+    assets: ProductAssets | null;
+    initialVariants: ProductConfiguration[];
+}
+
+interface Variant {
+    id: number; // stable React key, labels shift when one is removed
+    configuration: ProductConfiguration;
+}
+
+export default function CompareView({
+    product,
+    options,
+    assets,
+    initialVariants,
+}: CompareViewProps) {
+    const { locale, t } = useI18n();
+    const [variants, setVariants] = useState<Variant[]>(() =>
+        initialVariants.map((configuration, id) => ({ id, configuration }))
+    );
+    const [viewerLoadError, setViewerLoadError] = useState(false);
+
+    const nextIdRef = useRef(initialVariants.length);
+    const viewersRef = useRef(new Map<number, HTMLElement>());
+
+    const loadViewer = useCallback(() => {
+        setViewerLoadError(false);
+        loadModelViewer().catch((error) => {
+            console.error('Model Viewer failed to load:', error);
+            setViewerLoadError(true);
+        });
+    }, []);
+
+    useEffect(() => {
+        loadViewer();
+    }, []);
+
+    // Keep the address shareable without triggering a navigation
+    useEffect(() => {
+        const params = encodeCompareVariants(
+            variants.map((variant) => variant.configuration)
+        );
+        const url = `${window.location.pathname}?${params}`;
+        window.history.replaceState(window.history.state, '', url);
+    }, [variants]);
+
+    const registerViewer = useCallback(
+        (id: number) => (viewer: HTMLElement | null) => {
+            if (viewer) {
+                viewersRef.current.set(id, viewer);
+            } else {
+                viewersRef.current.delete(id);
+            }
+        },
+        []
+    );
+
+    const syncCameras = useCallback((source: HTMLElement) => {
+        for (const viewer of viewersRef.current.values()) {
+            if (viewer !== source) copyCamera(source, viewer);
+        }
+    }, []);
+
+    const catchUpCamera = useCallback((viewer: HTMLElement) => {
+        const other = [...viewersRef.current.values()].find(
+            (candidate) => candidate !== viewer
+        );
+        if (other) copyCamera(other, viewer);
+    }, []);
+
+    const updateVariant = (id: number, customization: Customization) =>
+        setVariants((current) =>
+            current.map((variant) =>
+                variant.id === id
+                    ? {
+                          id,
+                          configuration: {
+                              ...variant.configuration,
+                              customization,
+                          },
+                      }
+                    : variant
+            )
+        );
+
+    // A new variant starts as a copy of the last one, ready to be changed
+    const addVariant = () =>
+        setVariants((current) => [
+            ...current,
+            {
+                id: nextIdRef.current++,
+                configuration: current[current.length - 1].configuration,
+            },
+        ]);
+
+    const removeVariant = (id: number) =>
+        setVariants((current) =>
+            current.filter((variant) => variant.id !== id)
+        );
+
+    const configurations = variants.map((variant) => variant.configuration);
+    const labels = VARIANT_LABELS.slice(0, variants.length);
+
+    return (
+        <div className='container compare-page'>
+            <div className='compare-header'>
+                <div>
+                    <h1 className='text-2xl font-bold text-gray-800'>
+                        {t('compare.title', { product: product.name })}
+                    </h1>
+                    <p className='text-sm text-gray-500'>
+                        {t('compare.syncHint')}
+                    </p>
+                </div>
+                <Link
+                    to={`/products/${encodeURIComponent(product.id)}`}
+                    className='compare-open'
+                >
+                    {t('compare.back', { product: product.name })}
+                </Link>
+            </div>
+
+            {viewerLoadError && (
+                <div className='ar-recovery' role='alert'>
+                    <span className='status-badge error'>
+                        {t('viewer.errorBadge')}
+                    </span>
+                    <h3>{t('viewer.errorTitle')}</h3>
+                    <p>{t('viewer.errorBody')}</p>
+                    <button className='button-primary' onClick={loadViewer}>
+                        {t('viewer.retry')}
+                    </button>
+                </div>
+            )}
+
+            <div className='compare-grid'>
+                {variants.map((variant, index) => (
+                    <CompareVariant
+                        key={variant.id}
+                        product={product}
+                        options={options}
+                        assets={assets}
+                        variant={variant.configuration}
+                        label={labels[index]}
+                        viewerRef={registerViewer(variant.id)}
+                        onChange={(customization) =>
+                            updateVariant(variant.id, customization)
+                        }
+                        onRemove={
+                            variants.length > MIN_VARIANTS
+                                ? () => removeVariant(variant.id)
+                                : null
+                        }
+                        onCameraMove={syncCameras}
+                        onModelShown={catchUpCamera}
+                    />
+                ))}
+            </div>
+
+            {variants.length < MAX_VARIANTS && (
+                <button className='button-secondary' onClick={addVariant}>
+                    {t('compare.add')}
+                </button>
+            )}
+
+            <VariantDifferences
+                differences={getVariantDifferences(
+                    product,
+                    options,
+                    configurations
+                )}
+                labels={labels}
+                unit={DEFAULT_UNITS[getDefaultUnitSystem(locale)]}
+            />
+        </div>
+    );
+}
@@ -0,0 +1,97 @@
+import { useI18n } from '~/i18n/i18n-context';
+import type { MessageKey } from '~/i18n/messages/en';
+import { formatPrice } from '~/products/pricing';
+import { formatLength, type LengthUnit } from '~/products/units';
+import type { DifferenceField, VariantDifference } from './compare-variants';
+
+interface VariantDifferencesProps {
+    differences: VariantDifference[];
+    labels: string[];
+    unit: LengthUnit;
+}
+
+const FIELD_LABELS: Record<DifferenceField, MessageKey> = {
+    price: 'compare.price',
+    width: 'compare.width',
+    height: 'compare.height',
+    depth: 'compare.depth',
+};
+
+// Under half a cent or half a millimeter reads as "no difference"
+const EPSILON: Record<DifferenceField, number> = {
+    price: 0.005,
+    width: 0.0005,
+    height: 0.0005,
+    depth: 0.0005,
+};
+
+// Every variant's value, with the difference to the first one (A) next to it
+export default function VariantDifferences({
+    differences,
+    labels,
+    unit,
+}: VariantDifferencesProps) {
+    const { locale, t } = useI18n();
+
+    const format = (field: DifferenceField, value: number) =>
+        field === 'price'
+            ? formatPrice(value, locale)
+            : formatLength(value, unit, locale);
+
+    const formatDelta = (field: DifferenceField, delta: number) =>
+        `${delta > 0 ? '+' : '−'}${format(field, Math.abs(delta))}`;
+
+    return (
+        <div className='info-card compare-differences'>
+            <h3
+                style={{
+                    margin: '0 0 12px 0',
+                    fontSize: '16px',
+                    fontWeight: '700',
+                    color: '#1f2937',
+                }}
+            >
+                ⚖️ {t('compare.differences')}
+            </h3>
+            <table>
+                <thead>
+                    <tr>
+                        <td />
+                        {labels.map((label) => (
+                            <th key={label} scope='col'>
+                                {label}
+                            </th>
+                        ))}
+                    </tr>
+                </thead>
+                <tbody>
+                    {differences.map(({ field, values }) => (
+                        <tr key={field}>
+                            <th scope='row'>{t(FIELD_LABELS[field])}</th>
+                            {values.map((value, index) => {
+                                const delta = value - values[0];
+                                const changed =
+                                    Math.abs(delta) >= EPSILON[field];
+                                return (
+                                    <td
+                                        key={labels[index]}
+                                        className={
+                                            changed ? 'compare-changed' : ''
+                                        }
+                                    >
+                                        {format(field, value)}
+                                        {changed && (
+                                            <span className='compare-delta'>
+                                                {formatDelta(field, delta)}
+                                            </span>
+                                        )}
+                                    </td>
+                                );
+                            })}
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </div>
+    );
+}
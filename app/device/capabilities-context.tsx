@@ -0,0 +1,46 @@
+import { createContext, useContext, useEffect, useState } from 'react';
+import {
+    DEFAULT_CAPABILITIES,
+    detectClientCapabilities,
+    type DeviceCapabilities,
+} from './capabilities';
+
+const CapabilitiesContext =
+    createContext<DeviceCapabilities>(DEFAULT_CAPABILITIES);
+
+interface CapabilitiesProviderProps {
+    initial: DeviceCapabilities;
+    children: React.ReactNode;
+}
+
+// Renders with the server's guess so the first paint already matches the
+// device, then swaps in the client's feature checks
+export function CapabilitiesProvider({
+    initial,
+    children,
+}: CapabilitiesProviderProps) {
+    const [capabilities, setCapabilities] = useState(initial);
+
+    useEffect(() => {
+        let cancelled = false;
+        detectClientCapabilities()
+            .then((detected) => {
+                if (!cancelled) setCapabilities(detected);
+            })
+            .catch((error) =>
+                console.error('Capability detection failed:', error)
+            );
+        return () => {
+            cancelled = true;
+        };
+    }, []);
+
+    return (
+        <CapabilitiesContext.Provider value={capabilities}>
+            {children}
+        </CapabilitiesContext.Provider>
+    );
+}
+
+export const useCapabilities = (): DeviceCapabilities =>
+    useContext(CapabilitiesContext);
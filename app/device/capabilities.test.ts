@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { detectPlatform, detectServerCapabilities } from './capabilities';
+
+const USER_AGENTS = {
+    iPhone: 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_4 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.4 Mobile/15E148 Safari/604.1',
+    pixel: 'Mozilla/5.0 (Linux; Android 14; Pixel 8) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Mobile Safari/537.36',
+    // Chrome's reduced user agent no longer names the device
+    reducedAndroid:
+        'Mozilla/5.0 (Linux; K) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Mobile Safari/537.36',
+    windowsPhone:
+        'Mozilla/5.0 (Windows Phone 10.0) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/42.0 Mobile Safari/537.36 Edge/12.10166',
+    mac: 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.4 Safari/605.1.15',
+    windows:
+        'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36',
+};
+
+const headersFor = (
+    userAgent: string,
+    hints: Record<string, string> = {}
+): Headers => new Headers({ 'User-Agent': userAgent, ...hints });
+
+describe('detectPlatform', () => {
+    it('recognizes platforms from the user agent', () => {
+        expect(detectPlatform(USER_AGENTS.iPhone)).toBe('ios');
+        expect(detectPlatform(USER_AGENTS.pixel)).toBe('android');
+        expect(detectPlatform(USER_AGENTS.windowsPhone)).toBe('other-mobile');
+        expect(detectPlatform(USER_AGENTS.mac)).toBe('desktop');
+        expect(detectPlatform('')).toBe('desktop');
+    });
+
+    it('prefers the platform hint over the user agent', () => {
+        expect(
+            detectPlatform(USER_AGENTS.reducedAndroid, { platform: 'Android' })
+        ).toBe('android');
+        expect(detectPlatform(USER_AGENTS.windows, { platform: 'iOS' })).toBe(
+            'ios'
+        );
+    });
+
+    it('treats a mobile hint as mobile when the platform is unknown', () => {
+        expect(
+            detectPlatform(USER_AGENTS.windows, {
+                mobile: true,
+                platform: 'Windows',
+            })
+        ).toBe('other-mobile');
+        expect(detectPlatform(USER_AGENTS.windows, { mobile: false })).toBe(
+            'desktop'
+        );
+    });
+});
+
+describe('detectServerCapabilities', () => {
+    it('guesses from the user agent and leaves the feature checks open', () => {
+        expect(
+            detectServerCapabilities(headersFor(USER_AGENTS.iPhone))
+        ).toEqual({
+            platform: 'ios',
+            isMobile: true,
+            isIOS: true,
+            isAndroid: false,
+            webXR: null,
+            quickLook: null,
+            sceneViewer: null,
+            source: 'server',
+        });
+    });
+
+    it('reads the quoted client hint headers', () => {
+        const capabilities = detectServerCapabilities(
+            headersFor(USER_AGENTS.reducedAndroid, {
+                'Sec-CH-UA-Mobile': '?1',
+                'Sec-CH-UA-Platform': '"Android"',
+            })
+        );
+        expect(capabilities).toMatchObject({
+            platform: 'android',
+            isMobile: true,
+            isAndroid: true,
+        });
+    });
+
+    it('keeps a desktop browser on desktop', () => {
+        const capabilities = detectServerCapabilities(
+            headersFor(USER_AGENTS.windows, {
+                'Sec-CH-UA-Mobile': '?0',
+                'Sec-CH-UA-Platform': '"Windows"',
+            })
+        );
+        expect(capabilities).toMatchObject({
+            platform: 'desktop',
+            isMobile: false,
+        });
+    });
+
+    it('falls back to desktop without a user agent', () => {
+        expect(detectServerCapabilities(new Headers()).platform).toBe(
+            'desktop'
+        );
+    });
+});
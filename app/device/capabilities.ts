@@ -0,0 +1,125 @@
+// Device capability detection shared by the server and the client. The
+// server can only guess from request headers; the client confirms with real
+// feature checks once it has mounted.
+
+export type DevicePlatform = 'ios' | 'android' | 'other-mobile' | 'desktop';
+
+export interface DeviceCapabilities {
+    platform: DevicePlatform;
+    isMobile: boolean;
+    isIOS: boolean;
+    isAndroid: boolean;
+    // null until checked on the client
+    webXR: boolean | null;
+    quickLook: boolean | null;
+    sceneViewer: boolean | null;
+    source: 'server' | 'client';
+}
+
+// Sent with every page so Chromium includes the hints on later requests
+export const CLIENT_HINT_HEADERS = ['Sec-CH-UA-Mobile', 'Sec-CH-UA-Platform'];
+
+const IOS_PATTERN = /iPad|iPhone|iPod/;
+const ANDROID_PATTERN = /Android/i;
+const MOBILE_PATTERN = /Mobi|Android|iPhone|iPad|iPod/i;
+
+const unquote = (value: string | null): string | null =>
+    value ? value.replace(/^"|"$/g, '') : null;
+
+const fromPlatform = (
+    platform: DevicePlatform,
+    source: DeviceCapabilities['source']
+): Omit<DeviceCapabilities, 'webXR' | 'quickLook' | 'sceneViewer'> => ({
+    platform,
+    isMobile: platform !== 'desktop',
+    isIOS: platform === 'ios',
+    isAndroid: platform === 'android',
+    source,
+});
+
+export const detectPlatform = (
+    userAgent: string,
+    hints: { mobile?: boolean | null; platform?: string | null } = {}
+): DevicePlatform => {
+    const hintedPlatform = hints.platform?.toLowerCase();
+    if (hintedPlatform === 'android') return 'android';
+    if (hintedPlatform === 'ios') return 'ios';
+
+    if (IOS_PATTERN.test(userAgent)) return 'ios';
+    if (ANDROID_PATTERN.test(userAgent)) return 'android';
+    if (hints.mobile === true || MOBILE_PATTERN.test(userAgent)) {
+        return 'other-mobile';
+    }
+    return 'desktop';
+};
+
+export const detectServerCapabilities = (
+    headers: Headers
+): DeviceCapabilities => {
+    const mobileHint = headers.get('Sec-CH-UA-Mobile');
+    const platform = detectPlatform(headers.get('User-Agent') ?? '', {
+        mobile: mobileHint === null ? null : mobileHint === '?1',
+        platform: unquote(headers.get('Sec-CH-UA-Platform')),
+    });
+    return {
+        ...fromPlatform(platform, 'server'),
+        webXR: null,
+        quickLook: null,
+        sceneViewer: null,
+    };
+};
+
+const supportsWebXR = async (): Promise<boolean> => {
+    if ('xr' in navigator) {
+        try {
+            return await (navigator as any).xr.isSessionSupported(
+                'immersive-ar'
+            );
+        } catch {
+            return false;
+        }
+    }
+    return false;
+};
+
+const supportsQuickLook = (): boolean => {
+    const anchor = document.createElement('a');
+    return Boolean(anchor.relList?.supports?.('ar'));
+};
+
+export const detectClientCapabilities =
+    async (): Promise<DeviceCapabilities> => {
+        const userAgent = navigator.userAgent;
+        const uaData = (navigator as any).userAgentData;
+        let platform = detectPlatform(userAgent, {
+            mobile: uaData?.mobile ?? null,
+            platform: uaData?.platform ?? null,
+        });
+
+        // iPadOS asks for desktop sites and reports itself as a Mac
+        if (
+            platform === 'desktop' &&
+            /Macintosh/.test(userAgent) &&
+            navigator.maxTouchPoints > 1
+        ) {
+            platform = 'ios';
+        }
+
+        const base = fromPlatform(platform, 'client');
+        return {
+            ...base,
+            webXR: await supportsWebXR(),
+            quickLook: supportsQuickLook(),
+            // Scene Viewer ships with the Google app on Android; Firefox and
+            // headset browsers can't hand off the intent
+            sceneViewer:
+                base.isAndroid && !/Firefox|OculusBrowser/.test(userAgent),
+        };
+    };
+
+export const DEFAULT_CAPABILITIES: DeviceCapabilities = {
+    ...fromPlatform('desktop', 'server'),
+    webXR: null,
+    quickLook: null,
+    sceneViewer: null,
+};
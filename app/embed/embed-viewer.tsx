@@ -0,0 +1,312 @@
+import type { ModelViewerElement } from '@google/model-viewer';
+import { useCallback, useEffect, useReducer, useRef, useState } from 'react';
+import { useCapabilities } from '~/device/capabilities-context';
+import { useI18n } from '~/i18n/i18n-context';
+import {
+    pickModelUrl,
+    pickPreviewUrl,
+    type ProductAssets,
+} from '~/products/asset-manifest';
+import { getPosterUrl, type Product } from '~/products/catalog';
+import {
+    decodeConfiguration,
+    validateCustomization,
+    type PlacementMode,
+} from '~/products/configuration';
+import {
+    DEFAULT_CUSTOMIZATION,
+    getVariantUrl,
+    isCustomized,
+    type Customization,
+} from '~/products/customization';
+import {
+    getOptionViolations,
+    type ProductOptionSchema,
+} from '~/products/options';
+import { INITIAL_CAMERA_ORBIT } from '~/welcome/camera-controls';
+import {
+    createModelLoadState,
+    isModelShown,
+    modelLoadReducer,
+} from '~/welcome/model-loading';
+import ModelProgress from '~/welcome/model-progress';
+import { loadModelViewer } from '~/welcome/model-viewer-loader';
+import { applyCustomizationToScene } from '~/welcome/scene-customization';
+import {
+    useModelViewerEvents,
+    type ModelViewerEventMap,
+} from '~/welcome/use-model-viewer-events';
+import {
+    EMBED_VIEWER_SOURCE,
+    isOriginAllowed,
+    parseEmbedCommand,
+    type EmbedCommand,
+    type EmbedEvent,
+} from './protocol';
+
+interface EmbedViewerProps {
+    product: Product;
+    options: ProductOptionSchema | null;
+    assets: ProductAssets | null;
+    allowedOrigins: string[];
+}
+
+// The host page passes its origin in the iframe URL (embed.js does); the
+// referrer is the fallback for hand-written iframes
+const getInitialHostOrigin = (
+    params: URLSearchParams,
+    allowedOrigins: string[]
+): string | null => {
+    const candidates = [params.get('origin')];
+    if (document.referrer) {
+        candidates.push(new URL(document.referrer).origin);
+    }
+    return (
+        candidates.find((origin) => isOriginAllowed(origin, allowedOrigins)) ??
+        null
+    );
+};
+
+// Chrome-less viewer for partner iframes: just the model and an AR button,
+// driven by the host page through postMessage (see ./protocol.ts)
+export default function EmbedViewer({
+    product,
+    options,
+    assets,
+    allowedOrigins,
+}: EmbedViewerProps) {
+    const { isIOS, isMobile } = useCapabilities();
+    const { t } = useI18n();
+    const [customization, setCustomization] = useState<Customization>(
+        DEFAULT_CUSTOMIZATION
+    );
+    const [placement, setPlacement] = useState<PlacementMode>('floor');
+    const [modelLoad, dispatchModelLoad] = useReducer(
+        modelLoadReducer,
+        null,
+        () =>
+            createModelLoadState(
+                pickModelUrl(product, assets, isMobile),
+                pickPreviewUrl(product, assets, isMobile)
+            )
+    );
+    const [loadError, setLoadError] = useState(false);
+    const isModelLoaded = isModelShown(modelLoad);
+
+    const viewerRef = useRef<ModelViewerElement | null>(null);
+    const hostOriginRef = useRef<string | null>(null);
+
+    // Messages only ever go to an allowed origin; with no known host they
+    // are dropped
+    const post = useCallback((event: EmbedEvent) => {
+        const origin = hostOriginRef.current;
+        if (!origin || window.parent === window) return;
+        window.parent.postMessage(
+            { source: EMBED_VIEWER_SOURCE, ...event },
+            origin
+        );
+    }, []);
+
+    const loadViewer = useCallback(() => {
+        setLoadError(false);
+        loadModelViewer().catch((error) => {
+            console.error('Model Viewer failed to load:', error);
+            setLoadError(true);
+            post({ event: 'error', message: 'viewer-load-failed' });
+        });
+    }, [post]);
+
+    useEffect(() => {
+        const params = new URLSearchParams(window.location.search);
+        const { configuration } = decodeConfiguration(params, product);
+        setCustomization(configuration.customization);
+        setPlacement(configuration.placement);
+        hostOriginRef.current = getInitialHostOrigin(params, allowedOrigins);
+        loadViewer();
+        post({ event: 'ready', productId: product.id });
+    }, []);
+
+    useEffect(() => {
+        if (!isModelShown(modelLoad)) return;
+        applyCustomizationToScene(viewerRef.current, customization).catch(
+            (error) => console.error('Applying customization failed:', error)
+        );
+    }, [modelLoad.status, customization]);
+
+    const handleCommand = async (command: EmbedCommand) => {
+        const modelViewer = viewerRef.current;
+        if (command.command === 'set-customization') {
+            const raw = { ...customization, ...command.customization };
+            const { customization: next, warnings } = validateCustomization(
+                {
+                    color: String(raw.color ?? ''),
+                    scale: String(raw.scale ?? ''),
+                    pattern: String(raw.pattern ?? ''),
+                    material: String(raw.material ?? ''),
+                },
+                product
+            );
+            const violations = getOptionViolations(options, next);
+            if (violations.length > 0) {
+                post({ event: 'error', message: violations.join(' ') });
+                return;
+            }
+            setCustomization(next);
+            post({
+                event: 'customization-changed',
+                customization: next,
+                warnings,
+            });
+        } else if (command.command === 'enter-ar') {
+            // Browsers may insist on a tap inside the frame, in which case
+            // the visitor still has the AR button
+            if (!modelViewer?.canActivateAR) {
+                post({ event: 'error', message: 'ar-unavailable' });
+                return;
+            }
+            try {
+                await modelViewer.activateAR();
+            } catch (error) {
+                console.error('AR activation failed:', error);
+                post({ event: 'error', message: 'ar-failed' });
+            }
+        } else if (command.command === 'capture') {
+            if (!modelViewer || !isModelLoaded) {
+                post({ event: 'error', message: 'viewer-not-ready' });
+                return;
+            }
+            const image = await modelViewer.toBlob({
+                mimeType: 'image/png',
+            });
+            post({ event: 'captured', image });
+        }
+    };
+
+    // The listener is registered once, so it calls the latest handler
+    const handleCommandRef = useRef(handleCommand);
+    handleCommandRef.current = handleCommand;
+
+    useEffect(() => {
+        const handleMessage = (event: MessageEvent) => {
+            if (event.source !== window.parent) return;
+            if (!isOriginAllowed(event.origin, allowedOrigins)) return;
+            const command = parseEmbedCommand(event.data);
+            if (!command) return;
+            hostOriginRef.current = event.origin;
+            handleCommandRef.current(command).catch((error) => {
+                console.error(
+                    `Embed command ${command.command} failed:`,
+                    error
+                );
+                post({ event: 'error', message: `${command.command}-failed` });
+            });
+        };
+        window.addEventListener('message', handleMessage);
+        return () => window.removeEventListener('message', handleMessage);
+    }, [allowedOrigins, post]);
+
+    const handleModelLoad = useCallback(() => {
+        // Only the full model counts, not the preview before it
+        if (modelLoad.src === modelLoad.fullSrc) {
+            post({ event: 'loaded', productId: product.id });
+        }
+        dispatchModelLoad({ type: 'LOADED' });
+    }, [post, product.id, modelLoad.src, modelLoad.fullSrc]);
+
+    const handleModelProgress = useCallback(
+        (e: ModelViewerEventMap['progress']) => {
+            dispatchModelLoad({
+                type: 'PROGRESS',
+                progress: e.detail.totalProgress,
+            });
+        },
+        []
+    );
+
+    const handleModelError = useCallback(
+        (e: ModelViewerEventMap['error']) => {
+            if (e.detail?.type !== 'loadfailure') return;
+            console.error('Model failed to load:', e.detail.sourceError);
+            dispatchModelLoad({ type: 'FAILED' });
+            post({ event: 'error', message: 'model-load-failed' });
+        },
+        [post]
+    );
+
+    const handleARStatus = useCallback(
+        (e: ModelViewerEventMap['ar-status']) => {
+            const status = e.detail.status;
+            if (status === 'session-started') {
+                post({ event: 'ar-started' });
+            } else if (status === 'object-placed') {
+                post({ event: 'placed' });
+            } else if (status === 'not-presenting') {
+                post({ event: 'ar-ended' });
+            } else if (status === 'failed') {
+                post({ event: 'error', message: 'ar-failed' });
+            }
+        },
+        [post]
+    );
+
+    useModelViewerEvents(viewerRef, {
+        load: handleModelLoad,
+        progress: handleModelProgress,
+        error: handleModelError,
+        'ar-status': handleARStatus,
+    });
+
+    const usdzUrl =
+        isIOS && isCustomized(customization)
+            ? getVariantUrl(product.id, 'usdz', customization)
+            : product.usdzUrl;
+
+    return (
+        <div className='embed-viewer'>
+            <model-viewer
+                key={modelLoad.attempt}
+                ref={viewerRef}
+                src={modelLoad.src}
+                poster={getPosterUrl(product.id)}
+                ios-src={usdzUrl}
+                ar
+                ar-modes='webxr scene-viewer quick-look'
+                ar-scale='auto'
+                ar-placement={placement}
+                camera-controls
+                touch-action='pan-y'
+                alt={t('viewer.alt', { product: product.name })}
+                shadow-intensity='1'
+                exposure='1.0'
+                camera-orbit={INITIAL_CAMERA_ORBIT}
+                scale={`${customization.scale} ${customization.scale} ${customization.scale}`}
+            >
+                <ModelProgress state={modelLoad} />
+                <button slot='ar-button' className='ar-button'>
+                    {t('ar.view')}
+                </button>
+            </model-viewer>
+
+            {loadError && (
+                <div className='embed-error' role='alert'>
+                    <p>{t('viewer.errorTitle')}</p>
+                    <button className='button-primary' onClick={loadViewer}>
+                        {t('viewer.retry')}
+                    </button>
+                </div>
+            )}
+
+            {modelLoad.status === 'failed' && (
+                <div className='embed-error' role='alert'>
+                    <p>{t('viewer.modelErrorTitle')}</p>
+                    <button
+                        className='button-primary'
+                        onClick={() => dispatchModelLoad({ type: 'RETRY' })}
+                    >
+                        {t('viewer.retry')}
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import {
+    EMBED_HOST_SOURCE,
+    EMBED_VIEWER_SOURCE,
+    isOriginAllowed,
+    parseEmbedCommand,
+} from './protocol';
+
+const fromHost = (message: Record<string, unknown>) => ({
+    source: EMBED_HOST_SOURCE,
+    ...message,
+});
+
+describe('parseEmbedCommand', () => {
+    it('accepts the commands without arguments', () => {
+        expect(parseEmbedCommand(fromHost({ command: 'enter-ar' }))).toEqual({
+            command: 'enter-ar',
+        });
+        expect(
+            parseEmbedCommand(fromHost({ command: 'capture', extra: 1 }))
+        ).toEqual({ command: 'capture' });
+    });
+
+    it('passes a partial customization through for validation', () => {
+        expect(
+            parseEmbedCommand(
+                fromHost({
+                    command: 'set-customization',
+                    customization: { color: '#FF0000', scale: 'big' },
+                })
+            )
+        ).toEqual({
+            command: 'set-customization',
+            customization: { color: '#FF0000', scale: 'big' },
+        });
+    });
+
+    it('rejects a customization that is not an object', () => {
+        for (const customization of [undefined, null, 'red', 3]) {
+            expect(
+                parseEmbedCommand(
+                    fromHost({ command: 'set-customization', customization })
+                )
+            ).toBe(null);
+        }
+    });
+
+    it('ignores messages from other sources', () => {
+        expect(parseEmbedCommand({ command: 'capture' })).toBe(null);
+        expect(
+            parseEmbedCommand({
+                source: EMBED_VIEWER_SOURCE,
+                command: 'capture',
+            })
+        ).toBe(null);
+    });
+
+    it('ignores unknown commands and non-objects', () => {
+        expect(parseEmbedCommand(fromHost({ command: 'reload' }))).toBe(null);
+        expect(parseEmbedCommand(fromHost({}))).toBe(null);
+        expect(parseEmbedCommand('capture')).toBe(null);
+        expect(parseEmbedCommand(null)).toBe(null);
+    });
+});
+
+describe('isOriginAllowed', () => {
+    const allowed = ['https://shop.example', 'https://www.shop.example'];
+
+    it('accepts listed origins only', () => {
+        expect(isOriginAllowed('https://shop.example', allowed)).toBe(true);
+        expect(isOriginAllowed('http://shop.example', allowed)).toBe(false);
+        expect(isOriginAllowed('https://shop.example.evil', allowed)).toBe(
+            false
+        );
+    });
+
+    it('accepts any origin with a wildcard', () => {
+        expect(isOriginAllowed('https://anywhere.example', ['*'])).toBe(true);
+    });
+
+    it('never accepts a missing or opaque origin', () => {
+        for (const origin of [null, undefined, '', 'null']) {
+            expect(isOriginAllowed(origin, ['*', 'null'])).toBe(false);
+        }
+    });
+
+    it('accepts nothing with an empty list', () => {
+        expect(isOriginAllowed('https://shop.example', [])).toBe(false);
+    });
+});
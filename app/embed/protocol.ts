@@ -0,0 +1,74 @@
+import type {
+    ConfigurationWarning,
+    RawCustomization,
+} from '~/products/configuration';
+import type { Customization } from '~/products/customization';
+
+// postMessage API between a partner page and the embedded viewer. The host
+// side lives in public/embed.js, which can't import this file, so keep the
+// two in step when changing a message.
+
+export const EMBED_HOST_SOURCE = 'ar-viewer-host';
+export const EMBED_VIEWER_SOURCE = 'ar-viewer';
+
+// Host page -> viewer. Fields missing from `customization` keep their value.
+export type EmbedCommand =
+    | {
+          command: 'set-customization';
+          customization: Partial<Record<keyof RawCustomization, unknown>>;
+      }
+    | { command: 'enter-ar' }
+    | { command: 'capture' };
+
+// Viewer -> host page
+export interface EmbedEventPayloads {
+    ready: { productId: string };
+    loaded: { productId: string };
+    'customization-changed': {
+        customization: Customization;
+        warnings: ConfigurationWarning[];
+    };
+    'ar-started': {};
+    placed: {};
+    'ar-ended': {};
+    captured: { image: Blob };
+    error: { message: string };
+}
+
+export type EmbedEventName = keyof EmbedEventPayloads;
+
+export type EmbedEvent<Name extends EmbedEventName = EmbedEventName> = {
+    [N in Name]: { event: N } & EmbedEventPayloads[N];
+}[Name];
+
+const COMMANDS: EmbedCommand['command'][] = [
+    'set-customization',
+    'enter-ar',
+    'capture',
+];
+
+// Structural check for messages arriving from the host page
+export const parseEmbedCommand = (value: unknown): EmbedCommand | null => {
+    if (!value || typeof value !== 'object') return null;
+    const message = value as Record<string, unknown>;
+    if (message.source !== EMBED_HOST_SOURCE) return null;
+    if (!COMMANDS.includes(message.command as EmbedCommand['command'])) {
+        return null;
+    }
+    if (message.command === 'set-customization') {
+        const { customization } = message;
+        return customization && typeof customization === 'object'
+            ? { command: 'set-customization', customization }
+            : null;
+    }
+    return { command: message.command } as EmbedCommand;
+};
+
+// `*` in the allow-list accepts any origin (development only)
+export const isOriginAllowed = (
+    origin: string | null | undefined,
+    allowedOrigins: string[]
+): origin is string =>
+    !!origin &&
+    origin !== 'null' &&
+    (allowedOrigins.includes('*') || allowedOrigins.includes(origin));
@@ -0,0 +1,143 @@
+import { useState } from 'react';
+import { useI18n } from '~/i18n/i18n-context';
+import {
+    formatFeaturesJson,
+    MAX_FEATURE_DETAILS_LENGTH,
+    MAX_FEATURE_TITLE_LENGTH,
+    type DraftFeature,
+} from './feature-authoring';
+
+interface AuthoringPanelProps {
+    productId: string;
+    features: DraftFeature[];
+    placing: boolean; // the next click on the model adds a feature
+    onPlacingChange: (placing: boolean) => void;
+    onFeatureChange: (
+        id: string,
+        changes: Pick<Partial<DraftFeature>, 'title' | 'details'>
+    ) => void;
+    onRemoveFeature: (id: string) => void;
+    onReset: () => void;
+}
+
+// Catalog editors place feature hotspots here and copy the JSON into
+// catalog.ts; nothing is saved on the server
+export default function AuthoringPanel({
+    productId,
+    features,
+    placing,
+    onPlacingChange,
+    onFeatureChange,
+    onRemoveFeature,
+    onReset,
+}: AuthoringPanelProps) {
+    const { t } = useI18n();
+    const [copied, setCopied] = useState(false);
+    const json = formatFeaturesJson(features);
+
+    const copyJson = async () => {
+        try {
+            await navigator.clipboard.writeText(json);
+            setCopied(true);
+            setTimeout(() => setCopied(false), 2000);
+        } catch (error) {
+            console.error('Copying the feature JSON failed:', error);
+        }
+    };
+
+    return (
+        <div className='info-card authoring-panel'>
+            <h3
+                style={{
+                    margin: '0 0 12px 0',
+                    fontSize: '16px',
+                    fontWeight: '700',
+                    color: '#1f2937',
+                }}
+            >
+                🛠️ {t('authoring.title')}
+            </h3>
+            <p className='live-panel-hint'>
+                {t('authoring.hint', { product: productId })}
+            </p>
+            <label className='space-panel-checkbox'>
+                <input
+                    type='checkbox'
+                    checked={placing}
+                    onChange={(e) => onPlacingChange(e.target.checked)}
+                />
+                {t('authoring.place')}
+            </label>
+
+            {features.length > 0 && (
+                <ol className='authoring-features'>
+                    {features.map((feature, index) => (
+                        <li key={feature.id}>
+                            <div className='authoring-feature-header'>
+                                <input
+                                    type='text'
+                                    aria-label={t('authoring.featureTitle', {
+                                        number: index + 1,
+                                    })}
+                                    placeholder={t(
+                                        'authoring.titlePlaceholder'
+                                    )}
+                                    maxLength={MAX_FEATURE_TITLE_LENGTH}
+                                    value={feature.title}
+                                    onChange={(e) =>
+                                        onFeatureChange(feature.id, {
+                                            title: e.target.value,
+                                        })
+                                    }
+                                />
+                                <button
+                                    className='saved-panel-delete'
+                                    aria-label={t('authoring.remove', {
+                                        number: index + 1,
+                                    })}
+                                    onClick={() => onRemoveFeature(feature.id)}
+                                >
+                                    ×
+                                </button>
+                            </div>
+                            <textarea
+                                aria-label={t('authoring.featureDetails', {
+                                    number: index + 1,
+                                })}
+                                placeholder={t('authoring.detailsPlaceholder')}
+                                maxLength={MAX_FEATURE_DETAILS_LENGTH}
+                                rows={2}
+                                value={feature.details}
+                                onChange={(e) =>
+                                    onFeatureChange(feature.id, {
+                                        details: e.target.value,
+                                    })
+                                }
+                            />
+                            <code className='authoring-feature-position'>
+                                {feature.position}
+                            </code>
+                        </li>
+                    ))}
+                </ol>
+            )}
+
+            <textarea
+                className='authoring-json'
+                readOnly
+                aria-label={t('authoring.json')}
+                rows={6}
+                value={json}
+                onFocus={(e) => e.target.select()}
+            />
+            <div className='authoring-actions'>
+                <button className='button-secondary' onClick={copyJson}>
+                    {copied ? t('authoring.copied') : t('authoring.copy')}
+                </button>
+                <button className='button-secondary' onClick={onReset}>
+                    {t('authoring.reset')}
+                </button>
+            </div>
+        </div>
+    );
+}
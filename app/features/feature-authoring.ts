@@ -0,0 +1,64 @@
+import type { ProductFeature } from '~/products/catalog';
+import type { HotspotPlacement } from '~/welcome/model-bounds';
+
+// A feature being edited in authoring mode. New features carry a temporary
+// id and get a readable one from their title on export.
+export interface DraftFeature extends ProductFeature {
+    isNew: boolean;
+}
+
+export const MAX_FEATURE_TITLE_LENGTH = 60;
+export const MAX_FEATURE_DETAILS_LENGTH = 280;
+
+export const toDraftFeatures = (features: ProductFeature[]): DraftFeature[] =>
+    features.map((feature) => ({ ...feature, isNew: false }));
+
+export const createDraftFeature = (
+    id: string,
+    placement: HotspotPlacement
+): DraftFeature => ({
+    id,
+    isNew: true,
+    title: '',
+    details: '',
+    ...placement,
+});
+
+const slugify = (title: string): string =>
+    title
+        .toLowerCase()
+        .normalize('NFKD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-|-$/g, '') || 'feature';
+
+// Catalog-ready features: untitled drafts are dropped and new ids are made
+// unique within the product
+export const exportFeatures = (drafts: DraftFeature[]): ProductFeature[] => {
+    const titled = drafts.filter((draft) => draft.title.trim());
+    const taken = new Set(
+        titled.filter((draft) => !draft.isNew).map((draft) => draft.id)
+    );
+    return titled.map(({ id, isNew, title, details, position, normal }) => {
+        let exportedId = id;
+        if (isNew) {
+            const base = slugify(title);
+            exportedId = base;
+            for (let n = 2; taken.has(exportedId); n++) {
+                exportedId = `${base}-${n}`;
+            }
+            taken.add(exportedId);
+        }
+        return {
+            id: exportedId,
+            title: title.trim(),
+            details: details.trim(),
+            position,
+            normal,
+        };
+    });
+};
+
+// Pasted as the product's `features` in catalog.ts
+export const formatFeaturesJson = (drafts: DraftFeature[]): string =>
+    JSON.stringify(exportFeatures(drafts), null, 4);
@@ -0,0 +1,55 @@
+import { useId, useState } from 'react';
+import { useI18n } from '~/i18n/i18n-context';
+import type { ProductFeature } from '~/products/catalog';
+
+interface FeatureHotspotsProps {
+    features: ProductFeature[];
+}
+
+// Rendered inside model-viewer: each feature is a numbered hotspot whose
+// details open on click, one at a time
+export default function FeatureHotspots({ features }: FeatureHotspotsProps) {
+    const { t } = useI18n();
+    const idPrefix = useId();
+    const [openId, setOpenId] = useState<string | null>(null);
+
+    return (
+        <>
+            {features.map((feature, index) => {
+                const open = feature.id === openId;
+                const detailsId = `${idPrefix}-${feature.id}`;
+                return (
+                    <div
+                        key={feature.id}
+                        slot={`hotspot-feature-${feature.id}`}
+                        className={`feature-hotspot${open ? ' open' : ''}`}
+                        data-position={feature.position}
+                        data-normal={feature.normal}
+                    >
+                        <button
+                            className='feature-hotspot-toggle'
+                            aria-expanded={open}
+                            aria-controls={detailsId}
+                            onClick={() => setOpenId(open ? null : feature.id)}
+                        >
+                            <span
+                                className='feature-hotspot-number'
+                                aria-hidden='true'
+                            >
+                                {index + 1}
+                            </span>
+                            {feature.title || t('features.untitled')}
+                        </button>
+                        <p
+                            id={detailsId}
+                            className='feature-hotspot-details'
+                            hidden={!open}
+                        >
+                            {feature.details}
+                        </p>
+                    </div>
+                );
+            })}
+        </>
+    );
+}
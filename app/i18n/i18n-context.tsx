@@ -0,0 +1,35 @@
+import { createContext, useContext, useMemo } from 'react';
+import {
+    DEFAULT_LOCALE,
+    formatMessage,
+    getMessages,
+    type MessageValues,
+} from './locale';
+import type { MessageKey } from './messages/en';
+
+interface I18n {
+    locale: string;
+    t: (key: MessageKey, values?: MessageValues) => string;
+}
+
+const createI18n = (locale: string): I18n => {
+    const messages = getMessages(locale);
+    return {
+        locale,
+        t: (key, values) => formatMessage(messages, key, values),
+    };
+};
+
+const I18nContext = createContext<I18n>(createI18n(DEFAULT_LOCALE));
+
+interface I18nProviderProps {
+    locale: string;
+    children: React.ReactNode;
+}
+
+export function I18nProvider({ locale, children }: I18nProviderProps) {
+    const i18n = useMemo(() => createI18n(locale), [locale]);
+    return <I18nContext.Provider value={i18n}>{children}</I18nContext.Provider>;
+}
+
+export const useI18n = (): I18n => useContext(I18nContext);
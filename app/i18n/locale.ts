@@ -0,0 +1,84 @@
+import type { UnitSystem } from '~/products/units';
+import { de } from './messages/de';
+import { en, type MessageKey, type Messages } from './messages/en';
+import { es } from './messages/es';
+
+export type Language = 'en' | 'de' | 'es';
+
+export type MessageValues = Record<string, string | number>;
+
+export const DEFAULT_LOCALE = 'en-US';
+
+const CATALOGS: Record<Language, Messages> = { en, de, es };
+
+// Regions still measuring in feet and inches
+const IMPERIAL_REGIONS = ['US', 'LR', 'MM'];
+
+const isLanguage = (value: string): value is Language => value in CATALOGS;
+
+export const getLanguage = (locale: string): Language => {
+    const language = locale.split('-')[0].toLowerCase();
+    return isLanguage(language) ? language : 'en';
+};
+
+export const getMessages = (locale: string): Messages =>
+    CATALOGS[getLanguage(locale)];
+
+// Fills `{name}` placeholders; unknown ones are left in place. Keys read from
+// data files (e.g. option rule reasons) may be missing and show as-is.
+export const formatMessage = (
+    messages: Messages,
+    key: MessageKey,
+    values?: MessageValues
+): string =>
+    (messages[key] ?? key).replace(/\{(\w+)\}/g, (match, name: string) =>
+        values && name in values ? String(values[name]) : match
+    );
+
+// Keeps the region so numbers are formatted the local way, e.g. "de-AT"
+const normalizeTag = (tag: string): string | null => {
+    try {
+        const [canonical] = Intl.getCanonicalLocales(tag.trim());
+        return canonical && isLanguage(canonical.split('-')[0])
+            ? canonical
+            : null;
+    } catch {
+        return null;
+    }
+};
+
+// Picks the best supported locale from an explicit choice (`?lang=`) or the
+// Accept-Language header, honouring q-values
+export const detectLocale = (
+    acceptLanguage: string | null,
+    override?: string | null
+): string => {
+    const chosen = override && normalizeTag(override);
+    if (chosen) return chosen;
+
+    const ranked = (acceptLanguage ?? '')
+        .split(',')
+        .map((part) => {
+            const [tag, ...params] = part.trim().split(';');
+            const q = params
+                .map((param) => param.trim())
+                .find((param) => param.startsWith('q='));
+            return { tag, q: q ? parseFloat(q.slice(2)) : 1 };
+        })
+        .filter((entry) => entry.tag && entry.tag !== '*' && entry.q > 0)
+        .sort((a, b) => b.q - a.q);
+
+    for (const { tag } of ranked) {
+        const locale = normalizeTag(tag);
+        if (locale) {
+            // A bare "en" most likely means the US default
+            return locale === 'en' ? DEFAULT_LOCALE : locale;
+        }
+    }
+    return DEFAULT_LOCALE;
+};
+
+export const getDefaultUnitSystem = (locale: string): UnitSystem => {
+    const region = locale.split('-').find((part) => /^[A-Z]{2}$/.test(part));
+    return region && IMPERIAL_REGIONS.includes(region) ? 'imperial' : 'metric';
+};
@@ -0,0 +1,372 @@
+import type { Messages } from './en';
+
+export const de: Messages = {
+    'instructions.close': 'Anleitung schließen',
+    'instructions.mobileTitle': 'Mobil: Tippen, um AR zu starten',
+    'instructions.desktopTitle': 'Desktop: QR-Code scannen',
+    'instructions.mobileBody':
+        'Mit einem Finger drehen, mit zwei Fingern zoomen und dann auf „In AR ansehen“ tippen, um das Produkt in deinem Raum zu sehen.',
+    'instructions.desktopBody':
+        'Scanne den QR-Code unten mit deinem Smartphone, um diese Konfiguration in AR anzusehen. Am Desktop drehst du das Modell mit der Maus.',
+    'linkWarnings.title': 'Einige Link-Einstellungen wurden zurückgesetzt',
+    'linkWarnings.notColor': 'Keine Hex-Farbe',
+    'linkWarnings.notNumber': 'Keine Zahl',
+    'linkWarnings.clamped': 'Auf {scale} begrenzt',
+    'linkWarnings.unknownPattern': 'Unbekanntes Muster',
+    'linkWarnings.unknownMaterial': 'Unbekanntes Material',
+    'linkWarnings.unavailableMaterial': 'Für {product} nicht erhältlich',
+    'linkWarnings.unknownPlacement': 'Unbekannte Platzierung',
+    'linkWarnings.otherProduct': 'Link gehört zu {product}',
+    'linkWarnings.corrupt':
+        'Link ist beschädigt oder von einer neueren Version',
+    'linkWarnings.unsupportedVersion':
+        'Nicht unterstützte Version, nur bekannte Felder werden gelesen',
+
+    'fit.too-large': 'Passt hier eventuell nicht – zu groß in {axes}',
+    'fit.tight': 'Knapp{turned} – wenig Platz um das Objekt',
+    'fit.good': 'Passt gut{turned} – angenehm viel Platz',
+    'fit.perfect': 'Passt perfekt{turned} – reichlich Platz!',
+    'fit.turned': ' (um 90° gedreht)',
+    'fit.and': ' und ',
+    'fit.axisSpare': '{axis}: {required} von {available} ({spare} frei)',
+    'fit.axisTooLarge': '{axis}: {required} von {available} ({excess} zu groß)',
+
+    'axis.width': 'Breite',
+    'axis.height': 'Höhe',
+    'axis.depth': 'Tiefe',
+
+    'dimensions.title': 'Produktmaße (bei {scale}-facher Größe)',
+    'dimensions.units': 'Einheit:',
+    'dimensions.system': 'Maßsystem',
+    'dimensions.metric': 'Metrisch',
+    'dimensions.imperial': 'Imperial',
+    'dimensions.width': 'Breite:',
+    'dimensions.height': 'Höhe:',
+    'dimensions.depth': 'Tiefe:',
+    'dimensions.show': 'Maße anzeigen',
+    'dimensions.hide': 'Maße ausblenden',
+    'hotspot.width': 'B: {value}',
+    'hotspot.height': 'H: {value}',
+    'hotspot.depth': 'T: {value}',
+
+    'unit.m': 'Meter',
+    'unit.cm': 'Zentimeter',
+    'unit.in': 'Zoll',
+    'unit.ft-in': 'Fuß und Zoll',
+
+    'viewer.alt': 'Anpassbares 3D-Modell: {product} in Augmented Reality',
+    'viewer.description':
+        '{product}. {description} Breite {width}, Höhe {height}, Tiefe {depth}. Farbe {color}, Material {material}, Muster {pattern}.',
+    'viewer.errorBadge': 'Viewer-Fehler',
+    'viewer.errorTitle': 'Der 3D-Viewer konnte nicht geladen werden',
+    'viewer.errorBody':
+        'Prüfe deine Verbindung. Wurde die App einmal online geöffnet, funktioniert sie auch offline.',
+    'viewer.retry': 'Erneut versuchen',
+    'viewer.loading': '3D-Modell wird geladen',
+    'viewer.loadingDetail': 'Details werden geladen',
+    'viewer.modelErrorTitle': 'Das 3D-Modell konnte nicht geladen werden',
+    'viewer.modelErrorBody':
+        'Die Verbindung wurde eventuell unterbrochen oder die Datei ist nicht verfügbar.',
+    'viewer.keyboardHint':
+        'Tastatur: Modell fokussieren, dann mit den Pfeiltasten drehen, mit Bild auf/ab zoomen und mit Pos1 die Ansicht zurücksetzen.',
+    'viewer.materialOriginal': 'Original',
+
+    'ar.view': '🔮 In AR ansehen',
+    'ar.active': '👁️ Im AR-Modus',
+    'ar.confirmTitle': 'AR-Ansicht öffnen',
+    'ar.confirmBody':
+        'Gleich startet der Augmented-Reality-Modus. Achte auf gutes Licht und genügend Platz.',
+    'ar.cancel': 'Abbrechen',
+    'ar.enter': 'AR starten',
+    'ar.unavailable': 'AR nicht verfügbar',
+    'ar.dismiss': 'Schließen',
+    'ar.status.launching': 'AR wird gestartet…',
+    'ar.status.tracking': 'AR gestartet.',
+    'ar.status.trackingWebxr':
+        'AR gestartet. Bewege dein Smartphone langsam, um den Boden zu finden.',
+    'ar.status.placed': 'Das Produkt wurde in deinem Raum platziert.',
+    'ar.status.ended': 'AR beendet.',
+
+    'capture.button': 'Aufnehmen',
+    'capture.capturing': 'Wird aufgenommen …',
+    'capture.saved': 'In der Galerie gespeichert ✓',
+    'capture.failed': 'Aufnahme fehlgeschlagen ✗',
+    'capture.deleteFailed': 'Löschen fehlgeschlagen ✗',
+    'capture.notReady': 'Der 3D-Viewer lädt noch',
+    'capture.title': 'Aufnahmen',
+    'capture.format': 'Format',
+    'capture.size': 'Größe',
+    'capture.sizeOriginal': 'Original',
+    'capture.watermark': 'Produktdetails hinzufügen',
+    'capture.overlayColor': 'Farbe {color}',
+    'capture.overlaySize': '{width} × {height} × {depth} (B × H × T)',
+    'capture.empty':
+        'Mit der Aufnahme-Schaltfläche im Viewer speicherst du hier Bilder.',
+    'capture.alt': 'Aufnahme von {product}, {date}',
+    'capture.selectAll': 'Alle auswählen',
+    'capture.selectNone': 'Auswahl aufheben',
+    'capture.share': 'Teilen',
+    'capture.shareTitle': 'AR-Aufnahmen',
+    'capture.download': 'Herunterladen',
+    'capture.delete': 'Löschen',
+    'capture.preparingZip': 'ZIP wird erstellt...',
+    'capture.downloaded': '{count} Bilder heruntergeladen ✓',
+    'capture.exportFailed': 'Export fehlgeschlagen ✗',
+
+    'cart.add': 'In den Warenkorb',
+    'cart.addWithPrice': '🛒 In den Warenkorb · {price}',
+    'cart.added': 'Zum Warenkorb hinzugefügt ✓',
+    'cart.failed': 'Hinzufügen fehlgeschlagen ✗',
+    'cart.adding': 'Wird hinzugefügt…',
+    'cart.inStock': 'Auf Lager · Versand in {days} Tagen',
+    'cart.madeToOrder': 'Auf Bestellung gefertigt · Versand in {weeks} Wochen',
+    'cart.summaryOne': '1 Artikel · {total}',
+    'cart.summary': '{count} Artikel · {total}',
+
+    'space.measured': '📏 {axis} des Raums auf {value} gesetzt',
+    'space.title': 'Mein Raum',
+    'space.hint':
+        'Miss die Wand oder Nische, in die das Produkt soll, in {unit}.',
+    'space.width': 'Breite',
+    'space.height': 'Höhe',
+    'space.depth': 'Tiefe',
+    'space.clearanceFront': 'Durchgang davor',
+    'space.clearanceSides': 'Abstand zu jeder Seite',
+    'space.allowRotation': 'Produkt darf um 90° gedreht werden',
+    'space.name': 'Name des Raums',
+    'space.namePlaceholder': 'Raum benennen, z. B. Wohnzimmerwand',
+    'space.save': 'Raum speichern',
+    'space.clear': 'Leeren',
+    'space.delete': '{name} löschen',
+
+    'compare.title': '{product} vergleichen',
+    'compare.open': '⚖️ Konfigurationen vergleichen',
+    'compare.syncHint':
+        'Drehst oder zoomst du ein Modell, bewegen sich die anderen mit.',
+    'compare.back': '← Zurück zu {product}',
+    'compare.variant': 'Variante {label}',
+    'compare.add': '+ Variante hinzufügen',
+    'compare.remove': 'Entfernen',
+    'compare.removeVariant': 'Variante {label} entfernen',
+    'compare.openViewer': 'Diese Variante öffnen',
+    'compare.openOnPhone': '📱 Diese Variante in AR auf dem Handy ansehen',
+    'compare.differences': 'Unterschiede',
+    'compare.price': 'Preis',
+    'compare.width': 'Breite',
+    'compare.height': 'Höhe',
+    'compare.depth': 'Tiefe',
+
+    'saved.title': 'Gespeicherte Konfigurationen',
+    'saved.name': 'Name der Konfiguration',
+    'saved.namePlaceholder': 'Konfiguration benennen, z. B. Sofa Arbeitszimmer',
+    'saved.save': 'Speichern',
+    'saved.saving': 'Wird gespeichert …',
+    'saved.saved': '„{name}“ gespeichert ✓',
+    'saved.failed': 'Speichern fehlgeschlagen ✗',
+    'saved.deleteFailed': 'Löschen fehlgeschlagen ✗',
+    'saved.sync': 'Kopie für diesen Browser auf dem Server behalten',
+    'saved.syncFailed':
+        'Synchronisierung fehlgeschlagen, deine Konfigurationen sind weiterhin auf diesem Gerät',
+    'saved.empty':
+        'Noch nichts gespeichert. Gespeicherte Konfigurationen aller Produkte erscheinen hier.',
+    'saved.restore': 'Wiederherstellen',
+    'saved.open': 'Öffnen',
+    'saved.delete': '{name} löschen',
+
+    'live.title': 'Live-Sitzung',
+    'live.hint':
+        'Sieh dir das Produkt gemeinsam mit jemandem auf einem anderen Gerät an: Änderungen, Kamerabewegungen und Notizen erscheinen auf beiden Bildschirmen.',
+    'live.invited':
+        'Du wurdest zu einer Live-Sitzung eingeladen. Gib deinen Namen ein, um teilzunehmen.',
+    'live.name': 'Dein Name',
+    'live.start': 'Sitzung starten',
+    'live.join': 'Sitzung beitreten',
+    'live.leave': 'Sitzung verlassen',
+    'live.link': 'Link zur Sitzung',
+    'live.copy': 'Link kopieren',
+    'live.copied': 'Kopiert ✓',
+    'live.participants': 'Personen in dieser Sitzung',
+    'live.you': '{name} (du)',
+    'live.someone': 'Jemand, der gegangen ist',
+    'live.annotate': 'Tippe auf das Modell, um eine Notiz anzuheften',
+    'live.note': 'Notiz für die nächste Markierung (optional)',
+    'live.pin': 'Markierung',
+    'live.removeAnnotation': 'Markierung {number} entfernen',
+    'live.status.idle': 'Nicht verbunden',
+    'live.status.connecting': 'Verbinde …',
+    'live.status.connected': '🟢 Verbunden',
+    'live.status.reconnecting': 'Verbindung unterbrochen, verbinde erneut …',
+    'live.status.failed':
+        'Beitritt nicht möglich, die Sitzung ist eventuell voll',
+
+    'features.untitled': 'Merkmal ohne Titel',
+
+    'authoring.title': 'Merkmale bearbeiten',
+    'authoring.hint':
+        'Kästchen anhaken, dann auf das Modell klicken, um ein Merkmal zu platzieren. Das JSON unten als features von "{product}" in catalog.ts einfügen.',
+    'authoring.place': 'Beim nächsten Klick ein Merkmal platzieren',
+    'authoring.featureTitle': 'Titel von Merkmal {number}',
+    'authoring.featureDetails': 'Details zu Merkmal {number}',
+    'authoring.titlePlaceholder': 'Titel, z. B. Beine aus massiver Eiche',
+    'authoring.detailsPlaceholder':
+        'Details, die beim Öffnen des Hotspots erscheinen',
+    'authoring.remove': 'Merkmal {number} entfernen',
+    'authoring.json': 'Merkmal-JSON',
+    'authoring.copy': 'JSON kopieren',
+    'authoring.copied': 'Kopiert ✓',
+    'authoring.reset': 'Auf Katalog zurücksetzen',
+
+    'customize.title': 'Anpassen',
+    'customize.color': 'Farbe',
+    'customize.customColor': 'Eigene Farbe',
+    'customize.material': 'Material',
+    'customize.pattern': 'Muster',
+    'customize.size': 'Größe',
+    'material.default': 'Original',
+    'material.fabric': 'Stoff',
+    'material.leather': 'Leder',
+    'material.wood': 'Holz',
+    'pattern.solid': 'Uni',
+    'pattern.stripes': 'Streifen',
+    'pattern.checks': 'Karo',
+    'pattern.herringbone': 'Fischgrät',
+    'options.sofaLeatherColors':
+        'Leder gibt es nur in Charcoal, Terracotta und Navy',
+    'options.armchairLeatherColors':
+        'Leder gibt es nur in Charcoal und Mustard',
+    'options.leatherPatterns': 'Leder kann nicht gemustert werden',
+    'options.woodPatterns': 'Massivholzplatten sind ungemustert',
+    'options.woodColors': 'Schwarz gibt es nicht als Holzbeize',
+
+    'arHelp.viewerNotReady.title': 'Das 3D-Modell wird noch geladen',
+    'arHelp.viewerNotReady.message':
+        'AR kann starten, sobald das Modell vollständig geladen ist.',
+    'arHelp.viewerNotReady.step1':
+        'Warte, bis das Modell erscheint, und versuche es dann erneut',
+    'arHelp.webxr.unsupported.title':
+        'AR ist in diesem Browser nicht verfügbar',
+    'arHelp.webxr.unsupported.message':
+        'Dieser Browser unterstützt keine WebXR-Augmented-Reality.',
+    'arHelp.webxr.unsupported.step1':
+        'Öffne diese Seite in Chrome auf einem ARCore-kompatiblen Android-Smartphone',
+    'arHelp.webxr.unsupported.step2':
+        'Aktualisiere die Google Play-Dienste für AR',
+    'arHelp.webxr.launchTimeout.title': 'AR wurde nicht gestartet',
+    'arHelp.webxr.launchTimeout.message':
+        'Die AR-Sitzung hat nicht rechtzeitig begonnen.',
+    'arHelp.webxr.launchTimeout.step1':
+        'Erlaube dieser Seite in den Browsereinstellungen den Kamerazugriff',
+    'arHelp.webxr.launchTimeout.step2':
+        'Schließe andere Apps, die die Kamera verwenden',
+    'arHelp.webxr.sessionFailed.title': 'AR-Tracking verloren',
+    'arHelp.webxr.sessionFailed.message':
+        'Dein Smartphone hat keine Fläche gefunden, um das Produkt zu platzieren.',
+    'arHelp.webxr.sessionFailed.step1': 'Geh an einen hellen Ort',
+    'arHelp.webxr.sessionFailed.step2':
+        'Richte die Kamera auf einen strukturierten Boden, keinen einfarbigen oder glänzenden',
+    'arHelp.webxr.sessionFailed.step3':
+        'Bewege das Smartphone langsam hin und her',
+    'arHelp.sceneViewer.unsupported.title':
+        'AR ist auf diesem Gerät nicht verfügbar',
+    'arHelp.sceneViewer.unsupported.message':
+        'Scene Viewer benötigt die Google Play-Dienste für AR (ARCore).',
+    'arHelp.sceneViewer.unsupported.step1':
+        'Installiere oder aktualisiere die Google Play-Dienste für AR',
+    'arHelp.sceneViewer.unsupported.step2':
+        'Prüfe, ob dein Smartphone auf der Liste der ARCore-Geräte steht',
+    'arHelp.sceneViewer.launchTimeout.title':
+        'Scene Viewer wurde nicht geöffnet',
+    'arHelp.sceneViewer.launchTimeout.message':
+        'Android hat das Modell nicht an Scene Viewer übergeben.',
+    'arHelp.sceneViewer.launchTimeout.step1':
+        'Stelle sicher, dass die Google-App installiert und aktiviert ist',
+    'arHelp.sceneViewer.launchTimeout.step2':
+        'Öffne diese Seite in Chrome statt in einem In-App-Browser',
+    'arHelp.sceneViewer.sessionFailed.title':
+        'Scene Viewer konnte das Modell nicht anzeigen',
+    'arHelp.sceneViewer.sessionFailed.message':
+        'Scene Viewer hat beim Öffnen des Modells einen Fehler gemeldet.',
+    'arHelp.sceneViewer.sessionFailed.step1':
+        'Aktualisiere die Google-App und die Google Play-Dienste für AR',
+    'arHelp.sceneViewer.sessionFailed.step2':
+        'Prüfe deine Verbindung, das Modell wird erneut heruntergeladen',
+    'arHelp.quickLook.unsupported.title': 'AR Quick Look ist nicht verfügbar',
+    'arHelp.quickLook.unsupported.message':
+        'Quick Look benötigt Safari auf einem iPhone oder iPad mit iOS 12 oder neuer.',
+    'arHelp.quickLook.unsupported.step1': 'Öffne diese Seite in Safari',
+    'arHelp.quickLook.unsupported.step2':
+        'Aktualisiere iOS unter Einstellungen › Allgemein › Softwareupdate',
+    'arHelp.quickLook.launchTimeout.title': 'Quick Look wurde nicht geöffnet',
+    'arHelp.quickLook.launchTimeout.message':
+        'Safari hat den AR Quick Look Viewer nicht geöffnet.',
+    'arHelp.quickLook.launchTimeout.step1':
+        'Öffne diese Seite in Safari; In-App-Browser blockieren AR oft',
+    'arHelp.quickLook.launchTimeout.step2':
+        'Schalte den Stromsparmodus aus und versuche es erneut',
+    'arHelp.quickLook.sessionFailed.title':
+        'Quick Look konnte das Modell nicht anzeigen',
+    'arHelp.quickLook.sessionFailed.message':
+        'Das angepasste Modell konnte nicht geöffnet werden.',
+    'arHelp.quickLook.sessionFailed.step1':
+        'Prüfe deine Verbindung und versuche es erneut',
+    'arHelp.quickLook.sessionFailed.step2':
+        'Versuche die Standardfarbe, falls das Problem bleibt',
+
+    'handoff.title': 'Scannen und in AR ansehen',
+    'handoff.body':
+        'Öffne die Kamera deines Smartphones und scanne den Code. Dein Smartphone öffnet genau diese Farbe, dieses Material und diese Größe, bereit für AR.',
+    'handoff.qr':
+        'QR-Code, um diese Konfiguration auf dem Smartphone zu öffnen',
+    'handoff.status.waiting': 'Warte auf dein Smartphone…',
+    'handoff.status.opened': '📱 Auf dem Smartphone geöffnet',
+    'handoff.status.ar-started': '🔮 Wird auf dem Smartphone in AR angesehen',
+
+    'camera.toolbar': 'Kamera',
+    'camera.rotateLeft': 'Nach links drehen',
+    'camera.rotateRight': 'Nach rechts drehen',
+    'camera.tiltUp': 'Nach oben neigen',
+    'camera.tiltDown': 'Nach unten neigen',
+    'camera.zoomIn': 'Vergrößern',
+    'camera.zoomOut': 'Verkleinern',
+    'camera.reset': 'Ansicht zurücksetzen',
+
+    'consent.label': 'Analyse',
+    'consent.question':
+        'Dürfen wir anonyme Nutzungsdaten erfassen, etwa wie oft AR gestartet wird und ob es funktioniert, um den Viewer zu verbessern?',
+    'consent.deny': 'Nein danke',
+    'consent.allow': 'Erlauben',
+
+    'products.title': 'Produkte',
+
+    'planner.title': 'Raum planen',
+    'planner.hint':
+        'Platziere in einer AR-Sitzung mehrere Produkte auf Boden und Wänden, um eine Einrichtung auszuprobieren, oder miss die Lücke, in die das Produkt soll.',
+    'planner.start': 'Raum in AR planen',
+    'planner.measure': '📏 In AR messen',
+    'planner.startFailed': 'AR konnte auf diesem Gerät nicht gestartet werden.',
+    'planner.done': 'Fertig ({count})',
+    'planner.cancelPoint': 'Punkt verwerfen',
+    'planner.rotateLeft': '⟲ Drehen',
+    'planner.rotateRight': '⟳ Drehen',
+    'planner.remove': '🗑 Entfernen',
+    'planner.deselect': 'Auswahl aufheben',
+    'planner.tool.place': '🛋 Platzieren',
+    'planner.tool.measure': '📏 Messen',
+    'planner.surface.floor': 'Boden',
+    'planner.surface.wall': 'Wand',
+    'planner.snap': 'Einrasten',
+    'planner.status.secondPoint': '{distance} · tippe auf den zweiten Punkt',
+    'planner.status.firstPoint': 'Tippe auf den Punkt, ab dem gemessen wird',
+    'planner.status.findSurface':
+        'Bewege dein Smartphone langsam, um eine Fläche zu finden…',
+    'planner.status.find-floor':
+        'Bewege dein Smartphone langsam, um den Boden zu finden…',
+    'planner.status.find-wall':
+        'Bewege dein Smartphone langsam, um eine Wand zu finden…',
+    'planner.status.selected': '{name} ausgewählt · {rotation}°',
+    'planner.status.tapToPlace': 'Tippen, um {product} zu platzieren',
+    'planner.useAs.width': 'Als Breite verwenden',
+    'planner.useAs.height': 'Als Höhe verwenden',
+    'planner.useAs.depth': 'Als Tiefe verwenden',
+    'planner.removeMeasurement': 'Messung {number} entfernen',
+};
@@ -0,0 +1,366 @@
+// Source catalog: every key the viewer uses, with `{name}` placeholders.
+// Other languages must translate all of them (enforced by the Messages type).
+export const en = {
+    'instructions.close': 'Close instructions',
+    'instructions.mobileTitle': 'Mobile: Tap to Enter AR',
+    'instructions.desktopTitle': 'Desktop: Scan QR Code',
+    'instructions.mobileBody':
+        'Use one finger to rotate, pinch to zoom, then tap View in AR to see it in your space.',
+    'instructions.desktopBody':
+        'Scan the QR code below with your mobile device to view this configuration in AR. On desktop, drag with mouse to rotate the model.',
+    'linkWarnings.title': 'Some link settings were reset',
+    'linkWarnings.notColor': 'Not a hex color',
+    'linkWarnings.notNumber': 'Not a number',
+    'linkWarnings.clamped': 'Clamped to {scale}',
+    'linkWarnings.unknownPattern': 'Unknown pattern',
+    'linkWarnings.unknownMaterial': 'Unknown material',
+    'linkWarnings.unavailableMaterial': 'Not available for {product}',
+    'linkWarnings.unknownPlacement': 'Unknown placement',
+    'linkWarnings.otherProduct': 'Link is for {product}',
+    'linkWarnings.corrupt': 'Link is corrupt or from a newer version',
+    'linkWarnings.unsupportedVersion':
+        'Unsupported version, reading known fields only',
+
+    'fit.too-large': 'Object may not fit here - Too large in {axes}',
+    'fit.tight': 'Tight fit{turned} - Limited space around object',
+    'fit.good': 'Good fit{turned} - Comfortable space',
+    'fit.perfect': 'Perfect fit{turned} - Plenty of space!',
+    'fit.turned': ' (turned 90°)',
+    'fit.and': ' and ',
+    'fit.axisSpare': '{axis}: {required} of {available} ({spare} spare)',
+    'fit.axisTooLarge':
+        '{axis}: {required} of {available} ({excess} too large)',
+
+    'axis.width': 'width',
+    'axis.height': 'height',
+    'axis.depth': 'depth',
+
+    'dimensions.title': 'Product Dimensions (at {scale}x scale)',
+    'dimensions.units': 'Units:',
+    'dimensions.system': 'Measurement system',
+    'dimensions.metric': 'Metric',
+    'dimensions.imperial': 'Imperial',
+    'dimensions.width': 'Width:',
+    'dimensions.height': 'Height:',
+    'dimensions.depth': 'Depth:',
+    'dimensions.show': 'Show Dimensions',
+    'dimensions.hide': 'Hide Dimensions',
+    'hotspot.width': 'W: {value}',
+    'hotspot.height': 'H: {value}',
+    'hotspot.depth': 'D: {value}',
+
+    'unit.m': 'Meters',
+    'unit.cm': 'Centimeters',
+    'unit.in': 'Inches',
+    'unit.ft-in': 'Feet and inches',
+
+    'viewer.alt': 'Customizable 3D {product} in augmented reality',
+    'viewer.description':
+        '{product}. {description} Width {width}, height {height}, depth {depth}. Color {color}, {material} material, {pattern} pattern.',
+    'viewer.errorBadge': 'Viewer error',
+    'viewer.errorTitle': 'The 3D viewer could not be loaded',
+    'viewer.errorBody':
+        'Check your connection. Once the app has been opened online, it keeps working offline.',
+    'viewer.retry': 'Try again',
+    'viewer.loading': 'Loading 3D model',
+    'viewer.loadingDetail': 'Loading full detail',
+    'viewer.modelErrorTitle': 'The 3D model could not be downloaded',
+    'viewer.modelErrorBody':
+        'The connection may have dropped or the file is unavailable.',
+    'viewer.keyboardHint':
+        'Keyboard: focus the model, then use the arrow keys to rotate, Page Up/Down to zoom and Home to reset the view.',
+    'viewer.materialOriginal': 'original',
+
+    'ar.view': '🔮 View in AR',
+    'ar.active': '👁️ In AR Mode',
+    'ar.confirmTitle': 'Open AR Experience',
+    'ar.confirmBody':
+        "You're about to enter augmented reality mode. Make sure you're in a well-lit area with enough space.",
+    'ar.cancel': 'Cancel',
+    'ar.enter': 'Enter AR',
+    'ar.unavailable': 'AR unavailable',
+    'ar.dismiss': 'Dismiss',
+    'ar.status.launching': 'Starting AR…',
+    'ar.status.tracking': 'AR started.',
+    'ar.status.trackingWebxr':
+        'AR started. Move your phone slowly to find the floor.',
+    'ar.status.placed': 'The product has been placed in your room.',
+    'ar.status.ended': 'AR ended.',
+
+    'capture.button': 'Capture',
+    'capture.capturing': 'Capturing...',
+    'capture.saved': 'Saved to gallery ✓',
+    'capture.failed': 'Capture failed ✗',
+    'capture.deleteFailed': 'Delete failed ✗',
+    'capture.notReady': 'The 3D viewer is still loading',
+    'capture.title': 'Captures',
+    'capture.format': 'Format',
+    'capture.size': 'Size',
+    'capture.sizeOriginal': 'Original',
+    'capture.watermark': 'Add product details',
+    'capture.overlayColor': 'Color {color}',
+    'capture.overlaySize': '{width} × {height} × {depth} (W × H × D)',
+    'capture.empty':
+        'Use the Capture button on the viewer to save images here.',
+    'capture.alt': '{product} capture, {date}',
+    'capture.selectAll': 'Select all',
+    'capture.selectNone': 'Select none',
+    'capture.share': 'Share',
+    'capture.shareTitle': 'AR captures',
+    'capture.download': 'Download',
+    'capture.delete': 'Delete',
+    'capture.preparingZip': 'Preparing ZIP...',
+    'capture.downloaded': '{count} images downloaded ✓',
+    'capture.exportFailed': 'Export failed ✗',
+
+    'cart.add': 'Add to cart',
+    'cart.addWithPrice': '🛒 Add to cart · {price}',
+    'cart.added': 'Added to cart ✓',
+    'cart.failed': 'Add to cart failed ✗',
+    'cart.adding': 'Adding…',
+    'cart.inStock': 'In stock · ships in {days} days',
+    'cart.madeToOrder': 'Made to order · ships in {weeks} weeks',
+    'cart.summaryOne': '1 item · {total}',
+    'cart.summary': '{count} items · {total}',
+
+    'space.measured': '📏 Space {axis} set to {value}',
+    'space.title': 'My space',
+    'space.hint':
+        'Measure the wall or alcove where the product will go, in {unit}.',
+    'space.width': 'Width',
+    'space.height': 'Height',
+    'space.depth': 'Depth',
+    'space.clearanceFront': 'Walkway in front',
+    'space.clearanceSides': 'Gap on each side',
+    'space.allowRotation': 'Product can be turned 90°',
+    'space.name': 'Space name',
+    'space.namePlaceholder': 'Name this space, e.g. Living room wall',
+    'space.save': 'Save space',
+    'space.clear': 'Clear',
+    'space.delete': 'Delete {name}',
+
+    'compare.title': 'Compare {product}',
+    'compare.open': '⚖️ Compare configurations',
+    'compare.syncHint':
+        'Turning or zooming one model moves the others with it.',
+    'compare.back': '← Back to {product}',
+    'compare.variant': 'Option {label}',
+    'compare.add': '+ Add option',
+    'compare.remove': 'Remove',
+    'compare.removeVariant': 'Remove option {label}',
+    'compare.openViewer': 'Open this option',
+    'compare.openOnPhone': '📱 View this option in AR on your phone',
+    'compare.differences': 'Differences',
+    'compare.price': 'Price',
+    'compare.width': 'Width',
+    'compare.height': 'Height',
+    'compare.depth': 'Depth',
+
+    'saved.title': 'Saved configurations',
+    'saved.name': 'Configuration name',
+    'saved.namePlaceholder': 'Name this configuration, e.g. Den sofa',
+    'saved.save': 'Save',
+    'saved.saving': 'Saving...',
+    'saved.saved': 'Saved "{name}" ✓',
+    'saved.failed': 'Saving failed ✗',
+    'saved.deleteFailed': 'Delete failed ✗',
+    'saved.sync': 'Keep a copy on the server for this browser',
+    'saved.syncFailed':
+        'Sync failed, your configurations are still on this device',
+    'saved.empty':
+        'Nothing saved yet. Saved configurations appear here for every product.',
+    'saved.restore': 'Restore',
+    'saved.open': 'Open',
+    'saved.delete': 'Delete {name}',
+
+    'live.title': 'Live session',
+    'live.hint':
+        'View this product together with someone on another device: changes, camera moves and notes show up on both screens.',
+    'live.invited':
+        "You've been invited to a live session. Enter your name to join.",
+    'live.name': 'Your name',
+    'live.start': 'Start session',
+    'live.join': 'Join session',
+    'live.leave': 'Leave session',
+    'live.link': 'Session link',
+    'live.copy': 'Copy link',
+    'live.copied': 'Copied ✓',
+    'live.participants': 'People in this session',
+    'live.you': '{name} (you)',
+    'live.someone': 'Someone who left',
+    'live.annotate': 'Tap the model to pin a note',
+    'live.note': 'Note for the next pin (optional)',
+    'live.pin': 'Pin',
+    'live.removeAnnotation': 'Remove pin {number}',
+    'live.status.idle': 'Not connected',
+    'live.status.connecting': 'Connecting...',
+    'live.status.connected': '🟢 Connected',
+    'live.status.reconnecting': 'Connection lost, reconnecting...',
+    'live.status.failed': 'Could not join, the session may be full',
+
+    'features.untitled': 'Untitled feature',
+
+    'authoring.title': 'Feature authoring',
+    'authoring.hint':
+        'Tick the box, then click the model to place a feature. Paste the JSON below as the features of "{product}" in catalog.ts.',
+    'authoring.place': 'Place a feature on the next click',
+    'authoring.featureTitle': 'Title of feature {number}',
+    'authoring.featureDetails': 'Details of feature {number}',
+    'authoring.titlePlaceholder': 'Title, e.g. Solid oak legs',
+    'authoring.detailsPlaceholder': 'Details shown when the hotspot is opened',
+    'authoring.remove': 'Remove feature {number}',
+    'authoring.json': 'Feature JSON',
+    'authoring.copy': 'Copy JSON',
+    'authoring.copied': 'Copied ✓',
+    'authoring.reset': 'Reset to catalog',
+
+    'customize.title': 'Customize',
+    'customize.color': 'Color',
+    'customize.customColor': 'Custom color',
+    'customize.material': 'Material',
+    'customize.pattern': 'Pattern',
+    'customize.size': 'Size',
+    'material.default': 'Original',
+    'material.fabric': 'Fabric',
+    'material.leather': 'Leather',
+    'material.wood': 'Wood',
+    'pattern.solid': 'Solid',
+    'pattern.stripes': 'Stripes',
+    'pattern.checks': 'Checks',
+    'pattern.herringbone': 'Herringbone',
+    'options.sofaLeatherColors':
+        'Leather comes in Charcoal, Terracotta and Navy only',
+    'options.armchairLeatherColors':
+        'Leather comes in Charcoal and Mustard only',
+    'options.leatherPatterns': "Leather can't be patterned",
+    'options.woodPatterns': 'Solid wood tops are unpatterned',
+    'options.woodColors': "Black isn't available as a wood stain",
+
+    'arHelp.viewerNotReady.title': 'The 3D model is still loading',
+    'arHelp.viewerNotReady.message':
+        'AR can start once the model has finished loading.',
+    'arHelp.viewerNotReady.step1':
+        'Wait for the model to appear, then try again',
+    'arHelp.webxr.unsupported.title': 'AR is not available in this browser',
+    'arHelp.webxr.unsupported.message':
+        'This browser does not support WebXR augmented reality.',
+    'arHelp.webxr.unsupported.step1':
+        'Open this page in Chrome on an ARCore-compatible Android phone',
+    'arHelp.webxr.unsupported.step2': 'Update Google Play Services for AR',
+    'arHelp.webxr.launchTimeout.title': 'AR did not start',
+    'arHelp.webxr.launchTimeout.message':
+        'The AR session did not begin in time.',
+    'arHelp.webxr.launchTimeout.step1':
+        'Allow camera access for this site in your browser settings',
+    'arHelp.webxr.launchTimeout.step2':
+        'Close other apps that are using the camera',
+    'arHelp.webxr.sessionFailed.title': 'AR tracking was lost',
+    'arHelp.webxr.sessionFailed.message':
+        'Your phone could not find a surface to place the product.',
+    'arHelp.webxr.sessionFailed.step1': 'Move to a well-lit area',
+    'arHelp.webxr.sessionFailed.step2':
+        'Point the camera at a textured floor, not a plain or shiny one',
+    'arHelp.webxr.sessionFailed.step3':
+        'Move the phone slowly from side to side',
+    'arHelp.sceneViewer.unsupported.title':
+        'AR is not available on this device',
+    'arHelp.sceneViewer.unsupported.message':
+        'Scene Viewer needs Google Play Services for AR (ARCore).',
+    'arHelp.sceneViewer.unsupported.step1':
+        'Install or update Google Play Services for AR',
+    'arHelp.sceneViewer.unsupported.step2':
+        'Check that your phone is on the ARCore supported devices list',
+    'arHelp.sceneViewer.launchTimeout.title': 'Scene Viewer did not open',
+    'arHelp.sceneViewer.launchTimeout.message':
+        'Android did not hand the model to Scene Viewer.',
+    'arHelp.sceneViewer.launchTimeout.step1':
+        'Make sure the Google app is installed and enabled',
+    'arHelp.sceneViewer.launchTimeout.step2':
+        'Open this page in Chrome rather than an in-app browser',
+    'arHelp.sceneViewer.sessionFailed.title':
+        'Scene Viewer could not show the model',
+    'arHelp.sceneViewer.sessionFailed.message':
+        'Scene Viewer reported an error while opening the model.',
+    'arHelp.sceneViewer.sessionFailed.step1':
+        'Update the Google app and Google Play Services for AR',
+    'arHelp.sceneViewer.sessionFailed.step2':
+        'Check your connection, the model is downloaded again',
+    'arHelp.quickLook.unsupported.title': 'AR Quick Look is not available',
+    'arHelp.quickLook.unsupported.message':
+        'Quick Look needs Safari on an iPhone or iPad running iOS 12 or later.',
+    'arHelp.quickLook.unsupported.step1': 'Open this page in Safari',
+    'arHelp.quickLook.unsupported.step2':
+        'Update iOS in Settings › General › Software Update',
+    'arHelp.quickLook.launchTimeout.title': 'Quick Look did not open',
+    'arHelp.quickLook.launchTimeout.message':
+        'Safari did not open the AR Quick Look viewer.',
+    'arHelp.quickLook.launchTimeout.step1':
+        'Open this page in Safari; in-app browsers often block AR',
+    'arHelp.quickLook.launchTimeout.step2':
+        'Turn off Low Power Mode and try again',
+    'arHelp.quickLook.sessionFailed.title':
+        'Quick Look could not show the model',
+    'arHelp.quickLook.sessionFailed.message':
+        'The customized model could not be opened.',
+    'arHelp.quickLook.sessionFailed.step1':
+        'Check your connection and try again',
+    'arHelp.quickLook.sessionFailed.step2':
+        'Try the default color if the problem persists',
+
+    'handoff.title': 'Scan to View in AR',
+    'handoff.body':
+        'Open your phone camera and scan the code. Your phone opens this exact color, material and size, ready for AR.',
+    'handoff.qr': 'QR code to open this configuration on your phone',
+    'handoff.status.waiting': 'Waiting for your phone…',
+    'handoff.status.opened': '📱 Opened on phone',
+    'handoff.status.ar-started': '🔮 Viewing in AR on phone',
+
+    'camera.toolbar': 'Camera',
+    'camera.rotateLeft': 'Rotate left',
+    'camera.rotateRight': 'Rotate right',
+    'camera.tiltUp': 'Tilt up',
+    'camera.tiltDown': 'Tilt down',
+    'camera.zoomIn': 'Zoom in',
+    'camera.zoomOut': 'Zoom out',
+    'camera.reset': 'Reset view',
+
+    'consent.label': 'Analytics',
+    'consent.question':
+        'Can we collect anonymous usage data, like how often AR is started and whether it works, to improve the viewer?',
+    'consent.deny': 'No thanks',
+    'consent.allow': 'Allow',
+
+    'products.title': 'Products',
+
+    'planner.title': 'Plan a room',
+    'planner.hint':
+        'Place several products on your floor and walls in one AR session to try out a layout, or measure the gap where the product should go.',
+    'planner.start': 'Plan a room in AR',
+    'planner.measure': '📏 Measure in AR',
+    'planner.startFailed': 'Could not start AR on this device.',
+    'planner.done': 'Done ({count})',
+    'planner.cancelPoint': 'Cancel point',
+    'planner.rotateLeft': '⟲ Rotate',
+    'planner.rotateRight': '⟳ Rotate',
+    'planner.remove': '🗑 Remove',
+    'planner.deselect': 'Deselect',
+    'planner.tool.place': '🛋 Place',
+    'planner.tool.measure': '📏 Measure',
+    'planner.surface.floor': 'Floor',
+    'planner.surface.wall': 'Wall',
+    'planner.snap': 'Snap',
+    'planner.status.secondPoint': '{distance} · tap the second point',
+    'planner.status.firstPoint': 'Tap the first point to measure from',
+    'planner.status.findSurface': 'Move your phone slowly to find a surface…',
+    'planner.status.find-floor': 'Move your phone slowly to find the floor…',
+    'planner.status.find-wall': 'Move your phone slowly to find a wall…',
+    'planner.status.selected': '{name} selected · {rotation}°',
+    'planner.status.tapToPlace': 'Tap to place the {product}',
+    'planner.useAs.width': 'Use as width',
+    'planner.useAs.height': 'Use as height',
+    'planner.useAs.depth': 'Use as depth',
+    'planner.removeMeasurement': 'Remove measurement {number}',
+};
+
+export type MessageKey = keyof typeof en;
+export type Messages = Record<MessageKey, string>;
@@ -0,0 +1,369 @@
+import type { Messages } from './en';
+
+export const es: Messages = {
+    'instructions.close': 'Cerrar instrucciones',
+    'instructions.mobileTitle': 'Móvil: toca para entrar en RA',
+    'instructions.desktopTitle': 'Escritorio: escanea el código QR',
+    'instructions.mobileBody':
+        'Gira con un dedo, pellizca para hacer zoom y toca «Ver en RA» para verlo en tu espacio.',
+    'instructions.desktopBody':
+        'Escanea el código QR con tu móvil para ver esta configuración en RA. En el escritorio, arrastra con el ratón para girar el modelo.',
+    'linkWarnings.title': 'Se restablecieron algunos ajustes del enlace',
+    'linkWarnings.notColor': 'No es un color hexadecimal',
+    'linkWarnings.notNumber': 'No es un número',
+    'linkWarnings.clamped': 'Limitado a {scale}',
+    'linkWarnings.unknownPattern': 'Estampado desconocido',
+    'linkWarnings.unknownMaterial': 'Material desconocido',
+    'linkWarnings.unavailableMaterial': 'No disponible para {product}',
+    'linkWarnings.unknownPlacement': 'Colocación desconocida',
+    'linkWarnings.otherProduct': 'El enlace es para {product}',
+    'linkWarnings.corrupt':
+        'El enlace está dañado o es de una versión más reciente',
+    'linkWarnings.unsupportedVersion':
+        'Versión no compatible, solo se leen los campos conocidos',
+
+    'fit.too-large': 'Puede que no quepa aquí: demasiado grande en {axes}',
+    'fit.tight': 'Ajustado{turned}: poco espacio alrededor',
+    'fit.good': 'Cabe bien{turned}: espacio cómodo',
+    'fit.perfect': 'Cabe perfectamente{turned}: ¡espacio de sobra!',
+    'fit.turned': ' (girado 90°)',
+    'fit.and': ' y ',
+    'fit.axisSpare': '{axis}: {required} de {available} (sobran {spare})',
+    'fit.axisTooLarge': '{axis}: {required} de {available} (excede {excess})',
+
+    'axis.width': 'ancho',
+    'axis.height': 'alto',
+    'axis.depth': 'fondo',
+
+    'dimensions.title': 'Medidas del producto (a escala {scale}x)',
+    'dimensions.units': 'Unidades:',
+    'dimensions.system': 'Sistema de medida',
+    'dimensions.metric': 'Métrico',
+    'dimensions.imperial': 'Imperial',
+    'dimensions.width': 'Ancho:',
+    'dimensions.height': 'Alto:',
+    'dimensions.depth': 'Fondo:',
+    'dimensions.show': 'Mostrar medidas',
+    'dimensions.hide': 'Ocultar medidas',
+    'hotspot.width': 'An: {value}',
+    'hotspot.height': 'Al: {value}',
+    'hotspot.depth': 'F: {value}',
+
+    'unit.m': 'Metros',
+    'unit.cm': 'Centímetros',
+    'unit.in': 'Pulgadas',
+    'unit.ft-in': 'Pies y pulgadas',
+
+    'viewer.alt': '{product} en 3D personalizable en realidad aumentada',
+    'viewer.description':
+        '{product}. {description} Ancho {width}, alto {height}, fondo {depth}. Color {color}, material {material}, estampado {pattern}.',
+    'viewer.errorBadge': 'Error del visor',
+    'viewer.errorTitle': 'No se pudo cargar el visor 3D',
+    'viewer.errorBody':
+        'Comprueba tu conexión. Si la aplicación se abrió una vez con conexión, funciona también sin ella.',
+    'viewer.retry': 'Reintentar',
+    'viewer.loading': 'Cargando modelo 3D',
+    'viewer.loadingDetail': 'Cargando todo el detalle',
+    'viewer.modelErrorTitle': 'No se pudo descargar el modelo 3D',
+    'viewer.modelErrorBody':
+        'Puede que se haya perdido la conexión o que el archivo no esté disponible.',
+    'viewer.keyboardHint':
+        'Teclado: enfoca el modelo y usa las flechas para girar, Re Pág/Av Pág para hacer zoom e Inicio para restablecer la vista.',
+    'viewer.materialOriginal': 'original',
+
+    'ar.view': '🔮 Ver en RA',
+    'ar.active': '👁️ En modo RA',
+    'ar.confirmTitle': 'Abrir experiencia de RA',
+    'ar.confirmBody':
+        'Vas a entrar en el modo de realidad aumentada. Busca un lugar bien iluminado y con espacio suficiente.',
+    'ar.cancel': 'Cancelar',
+    'ar.enter': 'Entrar en RA',
+    'ar.unavailable': 'RA no disponible',
+    'ar.dismiss': 'Cerrar',
+    'ar.status.launching': 'Iniciando RA…',
+    'ar.status.tracking': 'RA iniciada.',
+    'ar.status.trackingWebxr':
+        'RA iniciada. Mueve el teléfono despacio para encontrar el suelo.',
+    'ar.status.placed': 'El producto se ha colocado en tu habitación.',
+    'ar.status.ended': 'RA finalizada.',
+
+    'capture.button': 'Capturar',
+    'capture.capturing': 'Capturando…',
+    'capture.saved': 'Guardado en la galería ✓',
+    'capture.failed': 'Error al capturar ✗',
+    'capture.deleteFailed': 'Error al eliminar ✗',
+    'capture.notReady': 'El visor 3D aún se está cargando',
+    'capture.title': 'Capturas',
+    'capture.format': 'Formato',
+    'capture.size': 'Tamaño',
+    'capture.sizeOriginal': 'Original',
+    'capture.watermark': 'Añadir detalles del producto',
+    'capture.overlayColor': 'Color {color}',
+    'capture.overlaySize': '{width} × {height} × {depth} (an. × al. × f.)',
+    'capture.empty':
+        'Usa el botón Capturar del visor para guardar imágenes aquí.',
+    'capture.alt': 'Captura de {product}, {date}',
+    'capture.selectAll': 'Seleccionar todo',
+    'capture.selectNone': 'No seleccionar nada',
+    'capture.share': 'Compartir',
+    'capture.shareTitle': 'Capturas de RA',
+    'capture.download': 'Descargar',
+    'capture.delete': 'Eliminar',
+    'capture.preparingZip': 'Preparando ZIP...',
+    'capture.downloaded': '{count} imágenes descargadas ✓',
+    'capture.exportFailed': 'Error al exportar ✗',
+
+    'cart.add': 'Añadir al carrito',
+    'cart.addWithPrice': '🛒 Añadir al carrito · {price}',
+    'cart.added': 'Añadido al carrito ✓',
+    'cart.failed': 'No se pudo añadir al carrito ✗',
+    'cart.adding': 'Añadiendo…',
+    'cart.inStock': 'En stock · se envía en {days} días',
+    'cart.madeToOrder': 'Fabricado por encargo · se envía en {weeks} semanas',
+    'cart.summaryOne': '1 artículo · {total}',
+    'cart.summary': '{count} artículos · {total}',
+
+    'space.measured': '📏 {axis} del espacio: {value}',
+    'space.title': 'Mi espacio',
+    'space.hint': 'Mide la pared o el hueco donde irá el producto, en {unit}.',
+    'space.width': 'Ancho',
+    'space.height': 'Alto',
+    'space.depth': 'Fondo',
+    'space.clearanceFront': 'Paso por delante',
+    'space.clearanceSides': 'Hueco a cada lado',
+    'space.allowRotation': 'El producto se puede girar 90°',
+    'space.name': 'Nombre del espacio',
+    'space.namePlaceholder':
+        'Pon nombre a este espacio, p. ej. Pared del salón',
+    'space.save': 'Guardar espacio',
+    'space.clear': 'Borrar',
+    'space.delete': 'Eliminar {name}',
+
+    'compare.title': 'Comparar {product}',
+    'compare.open': '⚖️ Comparar configuraciones',
+    'compare.syncHint':
+        'Al girar o acercar un modelo, los demás se mueven con él.',
+    'compare.back': '← Volver a {product}',
+    'compare.variant': 'Opción {label}',
+    'compare.add': '+ Añadir opción',
+    'compare.remove': 'Quitar',
+    'compare.removeVariant': 'Quitar la opción {label}',
+    'compare.openViewer': 'Abrir esta opción',
+    'compare.openOnPhone': '📱 Ver esta opción en RA en tu móvil',
+    'compare.differences': 'Diferencias',
+    'compare.price': 'Precio',
+    'compare.width': 'Ancho',
+    'compare.height': 'Alto',
+    'compare.depth': 'Profundidad',
+
+    'saved.title': 'Configuraciones guardadas',
+    'saved.name': 'Nombre de la configuración',
+    'saved.namePlaceholder': 'Ponle nombre, p. ej. Sofá del estudio',
+    'saved.save': 'Guardar',
+    'saved.saving': 'Guardando...',
+    'saved.saved': '«{name}» guardada ✓',
+    'saved.failed': 'No se pudo guardar ✗',
+    'saved.deleteFailed': 'No se pudo eliminar ✗',
+    'saved.sync': 'Guardar una copia en el servidor para este navegador',
+    'saved.syncFailed':
+        'La sincronización falló; tus configuraciones siguen en este dispositivo',
+    'saved.empty':
+        'Aún no hay nada guardado. Aquí aparecen las configuraciones guardadas de todos los productos.',
+    'saved.restore': 'Restaurar',
+    'saved.open': 'Abrir',
+    'saved.delete': 'Eliminar {name}',
+
+    'live.title': 'Sesión en directo',
+    'live.hint':
+        'Mira este producto junto con alguien en otro dispositivo: los cambios, los movimientos de cámara y las notas aparecen en ambas pantallas.',
+    'live.invited':
+        'Te han invitado a una sesión en directo. Escribe tu nombre para unirte.',
+    'live.name': 'Tu nombre',
+    'live.start': 'Iniciar sesión',
+    'live.join': 'Unirse a la sesión',
+    'live.leave': 'Salir de la sesión',
+    'live.link': 'Enlace de la sesión',
+    'live.copy': 'Copiar enlace',
+    'live.copied': 'Copiado ✓',
+    'live.participants': 'Personas en esta sesión',
+    'live.you': '{name} (tú)',
+    'live.someone': 'Alguien que se fue',
+    'live.annotate': 'Toca el modelo para fijar una nota',
+    'live.note': 'Nota para el próximo marcador (opcional)',
+    'live.pin': 'Marcador',
+    'live.removeAnnotation': 'Quitar el marcador {number}',
+    'live.status.idle': 'Sin conexión',
+    'live.status.connecting': 'Conectando...',
+    'live.status.connected': '🟢 Conectado',
+    'live.status.reconnecting': 'Conexión perdida, reconectando...',
+    'live.status.failed': 'No se pudo unir; puede que la sesión esté llena',
+
+    'features.untitled': 'Característica sin título',
+
+    'authoring.title': 'Edición de características',
+    'authoring.hint':
+        'Marca la casilla y haz clic en el modelo para colocar una característica. Pega el JSON de abajo como features de "{product}" en catalog.ts.',
+    'authoring.place': 'Colocar una característica con el próximo clic',
+    'authoring.featureTitle': 'Título de la característica {number}',
+    'authoring.featureDetails': 'Detalles de la característica {number}',
+    'authoring.titlePlaceholder': 'Título, p. ej. Patas de roble macizo',
+    'authoring.detailsPlaceholder':
+        'Detalles que se muestran al abrir el punto de interés',
+    'authoring.remove': 'Quitar característica {number}',
+    'authoring.json': 'JSON de características',
+    'authoring.copy': 'Copiar JSON',
+    'authoring.copied': 'Copiado ✓',
+    'authoring.reset': 'Restablecer catálogo',
+
+    'customize.title': 'Personalizar',
+    'customize.color': 'Color',
+    'customize.customColor': 'Color personalizado',
+    'customize.material': 'Material',
+    'customize.pattern': 'Estampado',
+    'customize.size': 'Tamaño',
+    'material.default': 'Original',
+    'material.fabric': 'Tela',
+    'material.leather': 'Cuero',
+    'material.wood': 'Madera',
+    'pattern.solid': 'Liso',
+    'pattern.stripes': 'Rayas',
+    'pattern.checks': 'Cuadros',
+    'pattern.herringbone': 'Espiga',
+    'options.sofaLeatherColors':
+        'El cuero solo está disponible en Charcoal, Terracotta y Navy',
+    'options.armchairLeatherColors':
+        'El cuero solo está disponible en Charcoal y Mustard',
+    'options.leatherPatterns': 'El cuero no admite estampados',
+    'options.woodPatterns':
+        'Las superficies de madera maciza no llevan estampado',
+    'options.woodColors': 'El negro no está disponible como tinte para madera',
+
+    'arHelp.viewerNotReady.title': 'El modelo 3D aún se está cargando',
+    'arHelp.viewerNotReady.message':
+        'La RA puede empezar cuando el modelo termine de cargarse.',
+    'arHelp.viewerNotReady.step1':
+        'Espera a que aparezca el modelo y vuelve a intentarlo',
+    'arHelp.webxr.unsupported.title':
+        'La RA no está disponible en este navegador',
+    'arHelp.webxr.unsupported.message':
+        'Este navegador no admite realidad aumentada WebXR.',
+    'arHelp.webxr.unsupported.step1':
+        'Abre esta página en Chrome en un teléfono Android compatible con ARCore',
+    'arHelp.webxr.unsupported.step2':
+        'Actualiza los Servicios de Google Play para RA',
+    'arHelp.webxr.launchTimeout.title': 'La RA no se inició',
+    'arHelp.webxr.launchTimeout.message': 'La sesión de RA no empezó a tiempo.',
+    'arHelp.webxr.launchTimeout.step1':
+        'Permite el acceso a la cámara para este sitio en los ajustes del navegador',
+    'arHelp.webxr.launchTimeout.step2':
+        'Cierra otras apps que estén usando la cámara',
+    'arHelp.webxr.sessionFailed.title': 'Se perdió el seguimiento de RA',
+    'arHelp.webxr.sessionFailed.message':
+        'Tu teléfono no encontró una superficie donde colocar el producto.',
+    'arHelp.webxr.sessionFailed.step1': 'Ve a una zona bien iluminada',
+    'arHelp.webxr.sessionFailed.step2':
+        'Apunta la cámara a un suelo con textura, no liso ni brillante',
+    'arHelp.webxr.sessionFailed.step3':
+        'Mueve el teléfono despacio de un lado a otro',
+    'arHelp.sceneViewer.unsupported.title':
+        'La RA no está disponible en este dispositivo',
+    'arHelp.sceneViewer.unsupported.message':
+        'Scene Viewer necesita los Servicios de Google Play para RA (ARCore).',
+    'arHelp.sceneViewer.unsupported.step1':
+        'Instala o actualiza los Servicios de Google Play para RA',
+    'arHelp.sceneViewer.unsupported.step2':
+        'Comprueba que tu teléfono está en la lista de dispositivos compatibles con ARCore',
+    'arHelp.sceneViewer.launchTimeout.title': 'Scene Viewer no se abrió',
+    'arHelp.sceneViewer.launchTimeout.message':
+        'Android no pasó el modelo a Scene Viewer.',
+    'arHelp.sceneViewer.launchTimeout.step1':
+        'Asegúrate de que la app de Google está instalada y activada',
+    'arHelp.sceneViewer.launchTimeout.step2':
+        'Abre esta página en Chrome y no en un navegador integrado en una app',
+    'arHelp.sceneViewer.sessionFailed.title':
+        'Scene Viewer no pudo mostrar el modelo',
+    'arHelp.sceneViewer.sessionFailed.message':
+        'Scene Viewer informó de un error al abrir el modelo.',
+    'arHelp.sceneViewer.sessionFailed.step1':
+        'Actualiza la app de Google y los Servicios de Google Play para RA',
+    'arHelp.sceneViewer.sessionFailed.step2':
+        'Comprueba tu conexión, el modelo se vuelve a descargar',
+    'arHelp.quickLook.unsupported.title': 'AR Quick Look no está disponible',
+    'arHelp.quickLook.unsupported.message':
+        'Quick Look necesita Safari en un iPhone o iPad con iOS 12 o posterior.',
+    'arHelp.quickLook.unsupported.step1': 'Abre esta página en Safari',
+    'arHelp.quickLook.unsupported.step2':
+        'Actualiza iOS en Ajustes › General › Actualización de software',
+    'arHelp.quickLook.launchTimeout.title': 'Quick Look no se abrió',
+    'arHelp.quickLook.launchTimeout.message':
+        'Safari no abrió el visor AR Quick Look.',
+    'arHelp.quickLook.launchTimeout.step1':
+        'Abre esta página en Safari; los navegadores integrados suelen bloquear la RA',
+    'arHelp.quickLook.launchTimeout.step2':
+        'Desactiva el modo de bajo consumo y vuelve a intentarlo',
+    'arHelp.quickLook.sessionFailed.title':
+        'Quick Look no pudo mostrar el modelo',
+    'arHelp.quickLook.sessionFailed.message':
+        'No se pudo abrir el modelo personalizado.',
+    'arHelp.quickLook.sessionFailed.step1':
+        'Comprueba tu conexión y vuelve a intentarlo',
+    'arHelp.quickLook.sessionFailed.step2':
+        'Prueba el color predeterminado si el problema continúa',
+
+    'handoff.title': 'Escanea para ver en RA',
+    'handoff.body':
+        'Abre la cámara del teléfono y escanea el código. Tu teléfono abre exactamente este color, material y tamaño, listo para la RA.',
+    'handoff.qr': 'Código QR para abrir esta configuración en tu teléfono',
+    'handoff.status.waiting': 'Esperando a tu teléfono…',
+    'handoff.status.opened': '📱 Abierto en el teléfono',
+    'handoff.status.ar-started': '🔮 Viendo en RA en el teléfono',
+
+    'camera.toolbar': 'Cámara',
+    'camera.rotateLeft': 'Girar a la izquierda',
+    'camera.rotateRight': 'Girar a la derecha',
+    'camera.tiltUp': 'Inclinar hacia arriba',
+    'camera.tiltDown': 'Inclinar hacia abajo',
+    'camera.zoomIn': 'Acercar',
+    'camera.zoomOut': 'Alejar',
+    'camera.reset': 'Restablecer vista',
+
+    'consent.label': 'Analítica',
+    'consent.question':
+        '¿Podemos recopilar datos de uso anónimos, como cuántas veces se inicia la RA y si funciona, para mejorar el visor?',
+    'consent.deny': 'No, gracias',
+    'consent.allow': 'Permitir',
+
+    'products.title': 'Productos',
+
+    'planner.title': 'Planifica una habitación',
+    'planner.hint':
+        'Coloca varios productos en el suelo y las paredes en una sola sesión de RA para probar una distribución, o mide el hueco donde irá el producto.',
+    'planner.start': 'Planificar una habitación en RA',
+    'planner.measure': '📏 Medir en RA',
+    'planner.startFailed': 'No se pudo iniciar la RA en este dispositivo.',
+    'planner.done': 'Listo ({count})',
+    'planner.cancelPoint': 'Descartar punto',
+    'planner.rotateLeft': '⟲ Girar',
+    'planner.rotateRight': '⟳ Girar',
+    'planner.remove': '🗑 Quitar',
+    'planner.deselect': 'Deseleccionar',
+    'planner.tool.place': '🛋 Colocar',
+    'planner.tool.measure': '📏 Medir',
+    'planner.surface.floor': 'Suelo',
+    'planner.surface.wall': 'Pared',
+    'planner.snap': 'Ajustar',
+    'planner.status.secondPoint': '{distance} · toca el segundo punto',
+    'planner.status.firstPoint': 'Toca el punto desde el que medir',
+    'planner.status.findSurface':
+        'Mueve el teléfono despacio para encontrar una superficie…',
+    'planner.status.find-floor':
+        'Mueve el teléfono despacio para encontrar el suelo…',
+    'planner.status.find-wall':
+        'Mueve el teléfono despacio para encontrar una pared…',
+    'planner.status.selected': '{name} seleccionado · {rotation}°',
+    'planner.status.tapToPlace': 'Toca para colocar {product}',
+    'planner.useAs.width': 'Usar como ancho',
+    'planner.useAs.height': 'Usar como alto',
+    'planner.useAs.depth': 'Usar como fondo',
+    'planner.removeMeasurement': 'Quitar medida {number}',
+};
@@ -0,0 +1,51 @@
+import {
+    LIVE_SESSION_PARAM,
+    type LiveEvent,
+    type LiveMessage,
+} from './protocol';
+
+const liveUrl = (sessionId: string) => `/live/${encodeURIComponent(sessionId)}`;
+
+export const openLiveStream = (
+    sessionId: string,
+    participant: { id: string; name: string },
+    productId: string,
+    onEvent: (event: LiveEvent) => void
+): EventSource => {
+    const params = new URLSearchParams({
+        participant: participant.id,
+        name: participant.name,
+        product: productId,
+    });
+    const source = new EventSource(`${liveUrl(sessionId)}?${params}`);
+    source.onmessage = (message) => {
+        try {
+            onEvent(JSON.parse(message.data));
+        } catch (error) {
+            console.error('Unreadable live event:', error);
+        }
+    };
+    return source;
+};
+
+export const sendLiveMessage = async (
+    sessionId: string,
+    participantId: string,
+    message: LiveMessage
+): Promise<void> => {
+    const response = await fetch(liveUrl(sessionId), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ participant: participantId, message }),
+    });
+    if (!response.ok) {
+        throw new Error(`Live message failed: ${response.status}`);
+    }
+};
+
+// Link that invites someone into the session on the current product page
+export const getLiveSessionUrl = (sessionId: string): string => {
+    const url = new URL(window.location.pathname, window.location.origin);
+    url.searchParams.set(LIVE_SESSION_PARAM, sessionId);
+    return url.toString();
+};
@@ -0,0 +1,200 @@
+import { useState } from 'react';
+import { useI18n } from '~/i18n/i18n-context';
+import {
+    MAX_LABEL_LENGTH,
+    type LiveAnnotation,
+    type LiveParticipant,
+} from './protocol';
+import type { LiveStatus } from './use-live-session';
+
+interface LivePanelProps {
+    status: LiveStatus;
+    sessionUrl: string | null; // set while in a session
+    invited: boolean; // opened from a session link, not yet joined
+    participantId: string | null;
+    participants: LiveParticipant[];
+    annotations: LiveAnnotation[];
+    name: string;
+    annotating: boolean;
+    note: string; // label for the next pin
+    onNameChange: (name: string) => void;
+    onStart: () => void;
+    onLeave: () => void;
+    onAnnotatingChange: (annotating: boolean) => void;
+    onNoteChange: (note: string) => void;
+    onRemoveAnnotation: (id: string) => void;
+}
+
+const PRESENCE_COLORS = ['#4f46e5', '#059669', '#d97706', '#db2777', '#0891b2'];
+
+// Same participant, same color on every screen
+const presenceColor = (id: string): string => {
+    let hash = 0;
+    for (let i = 0; i < id.length; i++) {
+        hash = (hash * 31 + id.charCodeAt(i)) >>> 0;
+    }
+    return PRESENCE_COLORS[hash % PRESENCE_COLORS.length];
+};
+
+export default function LivePanel({
+    status,
+    sessionUrl,
+    invited,
+    participantId,
+    participants,
+    annotations,
+    name,
+    annotating,
+    note,
+    onNameChange,
+    onStart,
+    onLeave,
+    onAnnotatingChange,
+    onNoteChange,
+    onRemoveAnnotation,
+}: LivePanelProps) {
+    const { t } = useI18n();
+    const [copied, setCopied] = useState(false);
+
+    const copyLink = async () => {
+        if (!sessionUrl) return;
+        try {
+            await navigator.clipboard.writeText(sessionUrl);
+            setCopied(true);
+            setTimeout(() => setCopied(false), 2000);
+        } catch (error) {
+            console.error('Copying the session link failed:', error);
+        }
+    };
+
+    const authorName = (id: string) =>
+        participants.find((participant) => participant.id === id)?.name ??
+        t('live.someone');
+
+    return (
+        <div className='info-card live-panel'>
+            <h3
+                style={{
+                    margin: '0 0 12px 0',
+                    fontSize: '16px',
+                    fontWeight: '700',
+                    color: '#1f2937',
+                }}
+            >
+                🤝 {t('live.title')}
+            </h3>
+
+            {!sessionUrl ? (
+                <>
+                    <p className='live-panel-hint'>
+                        {invited ? t('live.invited') : t('live.hint')}
+                    </p>
+                    <div className='saved-panel-actions'>
+                        <input
+                            type='text'
+                            aria-label={t('live.name')}
+                            placeholder={t('live.name')}
+                            maxLength={40}
+                            value={name}
+                            onChange={(e) => onNameChange(e.target.value)}
+                        />
+                        <button
+                            className='button-secondary'
+                            onClick={onStart}
+                            disabled={!name.trim()}
+                        >
+                            {invited ? t('live.join') : t('live.start')}
+                        </button>
+                    </div>
+                </>
+            ) : (
+                <>
+                    <p className='live-panel-status' role='status'>
+                        {t(`live.status.${status}`)}
+                    </p>
+                    <ul
+                        className='live-presence'
+                        aria-label={t('live.participants')}
+                    >
+                        {participants.map((participant) => (
+                            <li key={participant.id}>
+                                <span
+                                    className='live-presence-dot'
+                                    style={{
+                                        background: presenceColor(
+                                            participant.id
+                                        ),
+                                    }}
+                                    aria-hidden='true'
+                                />
+                                {participant.id === participantId
+                                    ? t('live.you', { name: participant.name })
+                                    : participant.name}
+                            </li>
+                        ))}
+                    </ul>
+                    <div className='saved-panel-actions'>
+                        <input
+                            type='text'
+                            readOnly
+                            aria-label={t('live.link')}
+                            value={sessionUrl}
+                            onFocus={(e) => e.target.select()}
+                        />
+                        <button className='button-secondary' onClick={copyLink}>
+                            {copied ? t('live.copied') : t('live.copy')}
+                        </button>
+                    </div>
+                    <label className='space-panel-checkbox'>
+                        <input
+                            type='checkbox'
+                            checked={annotating}
+                            onChange={(e) =>
+                                onAnnotatingChange(e.target.checked)
+                            }
+                        />
+                        {t('live.annotate')}
+                    </label>
+                    {annotating && (
+                        <input
+                            className='live-note'
+                            type='text'
+                            aria-label={t('live.note')}
+                            placeholder={t('live.note')}
+                            maxLength={MAX_LABEL_LENGTH}
+                            value={note}
+                            onChange={(e) => onNoteChange(e.target.value)}
+                        />
+                    )}
+                    {annotations.length > 0 && (
+                        <ul className='live-annotations'>
+                            {annotations.map((annotation, index) => (
+                                <li key={annotation.id}>
+                                    <span>
+                                        {index + 1}.{' '}
+                                        {annotation.label || t('live.pin')} ·{' '}
+                                        {authorName(annotation.authorId)}
+                                    </span>
+                                    <button
+                                        className='saved-panel-delete'
+                                        aria-label={t('live.removeAnnotation', {
+                                            number: index + 1,
+                                        })}
+                                        onClick={() =>
+                                            onRemoveAnnotation(annotation.id)
+                                        }
+                                    >
+                                        ×
+                                    </button>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                    <button className='button-secondary' onClick={onLeave}>
+                        {t('live.leave')}
+                    </button>
+                </>
+            )}
+        </div>
+    );
+}
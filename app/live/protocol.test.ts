@@ -0,0 +1,164 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_CUSTOMIZATION } from '~/products/customization';
+import type { CameraView } from '~/welcome/camera-controls';
+import {
+    applyLiveMessage,
+    EMPTY_LIVE_STATE,
+    MAX_ANNOTATIONS,
+    MAX_LABEL_LENGTH,
+    parseLiveMessage,
+    type LiveAnnotation,
+} from './protocol';
+
+const SENDER = 'participant-1';
+
+const VIEW: CameraView = {
+    theta: 0.5,
+    phi: 1.2,
+    radius: 3,
+    target: { x: 0, y: 0.4, z: 0 },
+    fieldOfView: 30,
+};
+
+const ANNOTATION = {
+    id: 'annotation-1',
+    position: '0.1m 0.5m -0.2m',
+    normal: '0m 1m 0m',
+    label: 'Seat cushion',
+};
+
+describe('parseLiveMessage', () => {
+    it('accepts a customization object for the route to validate', () => {
+        expect(
+            parseLiveMessage(
+                { type: 'customization', customization: DEFAULT_CUSTOMIZATION },
+                SENDER
+            )
+        ).toEqual({
+            type: 'customization',
+            customization: DEFAULT_CUSTOMIZATION,
+        });
+        expect(
+            parseLiveMessage(
+                { type: 'customization', customization: 'red' },
+                SENDER
+            )
+        ).toBe(null);
+    });
+
+    it('keeps only the camera fields', () => {
+        expect(
+            parseLiveMessage(
+                {
+                    type: 'camera',
+                    view: { ...VIEW, extra: true, target: { ...VIEW.target } },
+                },
+                SENDER
+            )
+        ).toEqual({ type: 'camera', view: VIEW });
+    });
+
+    it('rejects a camera view with missing or non-finite numbers', () => {
+        for (const view of [
+            { ...VIEW, radius: Infinity },
+            { ...VIEW, theta: '0.5' },
+            { ...VIEW, target: { x: 0, y: 0 } },
+            null,
+        ]) {
+            expect(parseLiveMessage({ type: 'camera', view }, SENDER)).toBe(
+                null
+            );
+        }
+    });
+
+    it('attributes annotations to the sender and trims the label', () => {
+        expect(
+            parseLiveMessage(
+                {
+                    type: 'annotation-add',
+                    annotation: {
+                        ...ANNOTATION,
+                        label: `  ${'x'.repeat(MAX_LABEL_LENGTH + 10)}  `,
+                        authorId: 'someone-else',
+                    },
+                },
+                SENDER
+            )
+        ).toEqual({
+            type: 'annotation-add',
+            annotation: {
+                ...ANNOTATION,
+                label: 'x'.repeat(MAX_LABEL_LENGTH),
+                authorId: SENDER,
+            },
+        });
+    });
+
+    it('rejects annotations with bad ids or hotspot vectors', () => {
+        for (const annotation of [
+            { ...ANNOTATION, id: 'short' },
+            { ...ANNOTATION, id: 'not/an/id/at/all' },
+            { ...ANNOTATION, position: '0.1 0.5 -0.2' },
+            { ...ANNOTATION, normal: '0m 1m' },
+            { ...ANNOTATION, label: 3 },
+        ]) {
+            expect(
+                parseLiveMessage({ type: 'annotation-add', annotation }, SENDER)
+            ).toBe(null);
+        }
+    });
+
+    it('accepts removals by id', () => {
+        expect(
+            parseLiveMessage({ type: 'annotation-remove', id: 'a' }, SENDER)
+        ).toEqual({ type: 'annotation-remove', id: 'a' });
+        expect(
+            parseLiveMessage({ type: 'annotation-remove', id: 1 }, SENDER)
+        ).toBe(null);
+    });
+
+    it('ignores unknown types and non-objects', () => {
+        expect(parseLiveMessage({ type: 'chat', text: 'hi' }, SENDER)).toBe(
+            null
+        );
+        expect(parseLiveMessage('camera', SENDER)).toBe(null);
+        expect(parseLiveMessage(null, SENDER)).toBe(null);
+    });
+});
+
+describe('applyLiveMessage', () => {
+    const annotation = (id: string): LiveAnnotation => ({
+        ...ANNOTATION,
+        id,
+        authorId: SENDER,
+    });
+
+    it('replaces an annotation with the same id at the end', () => {
+        const state = [annotation('first-pin'), annotation('second-pin')]
+            .map((pin) => ({
+                type: 'annotation-add' as const,
+                annotation: pin,
+            }))
+            .reduce(applyLiveMessage, EMPTY_LIVE_STATE);
+        const moved = applyLiveMessage(state, {
+            type: 'annotation-add',
+            annotation: { ...annotation('first-pin'), label: 'Moved' },
+        });
+        expect(moved.annotations.map(({ id, label }) => [id, label])).toEqual([
+            ['second-pin', ANNOTATION.label],
+            ['first-pin', 'Moved'],
+        ]);
+    });
+
+    it('keeps only the newest annotations', () => {
+        let state = EMPTY_LIVE_STATE;
+        for (let index = 0; index <= MAX_ANNOTATIONS; index++) {
+            state = applyLiveMessage(state, {
+                type: 'annotation-add',
+                annotation: annotation(`pin-${String(index).padStart(4, '0')}`),
+            });
+        }
+        expect(state.annotations).toHaveLength(MAX_ANNOTATIONS);
+        expect(state.annotations[0].id).toBe('pin-0001');
+    });
+});
@@ -0,0 +1,160 @@
+import type { Customization } from '~/products/customization';
+import type { CameraView } from '~/welcome/camera-controls';
+
+// Live sessions let several viewers of one product follow each other, e.g.
+// sales staff guiding a customer. Participants send LiveMessages to the
+// `/live/:sessionId` route and receive LiveEvents over server-sent events;
+// both sides fold messages into a LiveState with applyLiveMessage.
+
+export const MAX_PARTICIPANTS = 8;
+export const MAX_ANNOTATIONS = 20;
+export const MAX_LABEL_LENGTH = 60;
+
+export const LIVE_SESSION_PARAM = 'live';
+
+// Session, participant and annotation ids
+export const LIVE_ID_PATTERN = /^[A-Za-z0-9-]{8,64}$/;
+
+export interface LiveParticipant {
+    id: string;
+    name: string;
+    joinedAt: number;
+}
+
+// A pin someone dropped on the model to point something out
+export interface LiveAnnotation {
+    id: string;
+    position: string; // model-viewer hotspot format, e.g. "0.1m 0.5m 0.2m"
+    normal: string;
+    label: string;
+    authorId: string;
+}
+
+export interface LiveState {
+    customization: Customization | null; // null until someone changes it
+    camera: CameraView | null;
+    annotations: LiveAnnotation[];
+}
+
+export type LiveMessage =
+    | { type: 'customization'; customization: Customization }
+    | { type: 'camera'; view: CameraView }
+    | { type: 'annotation-add'; annotation: LiveAnnotation }
+    | { type: 'annotation-remove'; id: string };
+
+export type LiveEvent =
+    | {
+          type: 'snapshot';
+          state: LiveState;
+          participants: LiveParticipant[];
+      }
+    | { type: 'presence'; participants: LiveParticipant[] }
+    | { type: 'update'; from: string; message: LiveMessage };
+
+export const EMPTY_LIVE_STATE: LiveState = {
+    customization: null,
+    camera: null,
+    annotations: [],
+};
+
+export const applyLiveMessage = (
+    state: LiveState,
+    message: LiveMessage
+): LiveState => {
+    switch (message.type) {
+        case 'customization':
+            return { ...state, customization: message.customization };
+        case 'camera':
+            return { ...state, camera: message.view };
+        case 'annotation-add':
+            return {
+                ...state,
+                annotations: [
+                    ...state.annotations.filter(
+                        (annotation) => annotation.id !== message.annotation.id
+                    ),
+                    message.annotation,
+                ].slice(-MAX_ANNOTATIONS),
+            };
+        case 'annotation-remove':
+            return {
+                ...state,
+                annotations: state.annotations.filter(
+                    (annotation) => annotation.id !== message.id
+                ),
+            };
+    }
+};
+
+const HOTSPOT_VECTOR = /^-?\d+(\.\d+)?(e-?\d+)?m( -?\d+(\.\d+)?(e-?\d+)?m){2}$/;
+
+const isFiniteNumber = (value: unknown): value is number =>
+    typeof value === 'number' && Number.isFinite(value);
+
+const parseCameraView = (raw: any): CameraView | null => {
+    if (
+        !raw ||
+        ![raw.theta, raw.phi, raw.radius, raw.fieldOfView].every(
+            isFiniteNumber
+        ) ||
+        ![raw.target?.x, raw.target?.y, raw.target?.z].every(isFiniteNumber)
+    ) {
+        return null;
+    }
+    return {
+        theta: raw.theta,
+        phi: raw.phi,
+        radius: raw.radius,
+        target: { x: raw.target.x, y: raw.target.y, z: raw.target.z },
+        fieldOfView: raw.fieldOfView,
+    };
+};
+
+const parseAnnotation = (raw: any, authorId: string): LiveAnnotation | null => {
+    if (
+        typeof raw?.id !== 'string' ||
+        !LIVE_ID_PATTERN.test(raw.id) ||
+        typeof raw.position !== 'string' ||
+        !HOTSPOT_VECTOR.test(raw.position) ||
+        typeof raw.normal !== 'string' ||
+        !HOTSPOT_VECTOR.test(raw.normal) ||
+        typeof raw.label !== 'string'
+    ) {
+        return null;
+    }
+    return {
+        id: raw.id,
+        position: raw.position,
+        normal: raw.normal,
+        label: raw.label.trim().slice(0, MAX_LABEL_LENGTH),
+        authorId,
+    };
+};
+
+// Shape check only; the route validates customizations against the catalog.
+// Annotations are always attributed to the sender.
+export const parseLiveMessage = (
+    raw: any,
+    senderId: string
+): LiveMessage | null => {
+    switch (raw?.type) {
+        case 'customization':
+            return raw.customization && typeof raw.customization === 'object'
+                ? { type: 'customization', customization: raw.customization }
+                : null;
+        case 'camera': {
+            const view = parseCameraView(raw.view);
+            return view ? { type: 'camera', view } : null;
+        }
+        case 'annotation-add': {
+            const annotation = parseAnnotation(raw.annotation, senderId);
+            return annotation ? { type: 'annotation-add', annotation } : null;
+        }
+        case 'annotation-remove':
+            return typeof raw.id === 'string'
+                ? { type: 'annotation-remove', id: raw.id }
+                : null;
+        default:
+            return null;
+    }
+};
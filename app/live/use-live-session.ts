@@ -0,0 +1,176 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { CameraView } from '~/welcome/camera-controls';
+import { createId } from '~/welcome/indexed-db';
+import { openLiveStream, sendLiveMessage } from './live-client';
+import {
+    applyLiveMessage,
+    EMPTY_LIVE_STATE,
+    type LiveAnnotation,
+    type LiveMessage,
+    type LiveParticipant,
+    type LiveState,
+} from './protocol';
+
+export type LiveStatus =
+    | 'idle'
+    | 'connecting'
+    | 'connected'
+    | 'reconnecting'
+    | 'failed';
+
+// Camera moves arrive every frame while dragging; a few per second are
+// enough for the others to follow smoothly
+const CAMERA_INTERVAL_MS = 150;
+
+interface LiveSessionOptions {
+    sessionId: string | null; // null stays disconnected
+    productId: string;
+    name: string;
+    onSnapshot: (state: LiveState) => void;
+    onUpdate: (message: LiveMessage) => void;
+}
+
+export interface LiveSession {
+    status: LiveStatus;
+    participantId: string | null;
+    participants: LiveParticipant[];
+    annotations: LiveAnnotation[];
+    send: (message: LiveMessage) => void;
+    sendCamera: (view: CameraView) => void;
+}
+
+// Joins a live session and keeps presence and annotations here; the viewer
+// handles customization and camera updates through the callbacks
+export const useLiveSession = ({
+    sessionId,
+    productId,
+    name,
+    onSnapshot,
+    onUpdate,
+}: LiveSessionOptions): LiveSession => {
+    const [status, setStatus] = useState<LiveStatus>('idle');
+    const [participantId, setParticipantId] = useState<string | null>(null);
+    const [participants, setParticipants] = useState<LiveParticipant[]>([]);
+    const [annotations, setAnnotations] = useState<LiveAnnotation[]>([]);
+
+    // The stream is opened once per session, so it calls the latest handlers
+    const handlersRef = useRef({ onSnapshot, onUpdate });
+    handlersRef.current = { onSnapshot, onUpdate };
+
+    const connectionRef = useRef<{
+        sessionId: string;
+        participantId: string;
+    } | null>(null);
+    const cameraRef = useRef<{
+        lastSentAt: number;
+        pending: CameraView | null;
+        timer: ReturnType<typeof setTimeout> | null;
+    }>({ lastSentAt: 0, pending: null, timer: null });
+
+    useEffect(() => {
+        if (!sessionId) {
+            setStatus('idle');
+            setParticipants([]);
+            setAnnotations([]);
+            return;
+        }
+
+        // One id per join, so a second tab is a second participant
+        const id = createId();
+        connectionRef.current = { sessionId, participantId: id };
+        setParticipantId(id);
+        setStatus('connecting');
+
+        const source = openLiveStream(
+            sessionId,
+            { id, name },
+            productId,
+            (event) => {
+                if (event.type === 'snapshot') {
+                    setStatus('connected');
+                    setParticipants(event.participants);
+                    setAnnotations(event.state.annotations);
+                    handlersRef.current.onSnapshot(event.state);
+                } else if (event.type === 'presence') {
+                    setParticipants(event.participants);
+                } else {
+                    setAnnotations(
+                        (current) =>
+                            applyLiveMessage(
+                                { ...EMPTY_LIVE_STATE, annotations: current },
+                                event.message
+                            ).annotations
+                    );
+                    handlersRef.current.onUpdate(event.message);
+                }
+            }
+        );
+        // EventSource retries dropped connections by itself, but gives up
+        // on error responses such as a full session
+        source.onerror = () =>
+            setStatus(
+                source.readyState === EventSource.CLOSED
+                    ? 'failed'
+                    : 'reconnecting'
+            );
+
+        const camera = cameraRef.current;
+        return () => {
+            source.close();
+            connectionRef.current = null;
+            if (camera.timer) clearTimeout(camera.timer);
+            camera.timer = null;
+            camera.pending = null;
+        };
+    }, [sessionId, productId, name]);
+
+    const send = useCallback((message: LiveMessage) => {
+        const connection = connectionRef.current;
+        if (!connection) return;
+        // Own annotations show up right away, the server doesn't echo them
+        setAnnotations(
+            (current) =>
+                applyLiveMessage(
+                    { ...EMPTY_LIVE_STATE, annotations: current },
+                    message
+                ).annotations
+        );
+        sendLiveMessage(
+            connection.sessionId,
+            connection.participantId,
+            message
+        ).catch((error) => console.error('Live update failed:', error));
+    }, []);
+
+    // Throttled, always ending on the latest view
+    const sendCamera = useCallback(
+        (view: CameraView) => {
+            const camera = cameraRef.current;
+            camera.pending = view;
+            if (camera.timer) return;
+            const flush = () => {
+                camera.timer = null;
+                if (!camera.pending) return;
+                send({ type: 'camera', view: camera.pending });
+                camera.pending = null;
+                camera.lastSentAt = Date.now();
+            };
+            const wait = camera.lastSentAt + CAMERA_INTERVAL_MS - Date.now();
+            if (wait <= 0) {
+                flush();
+            } else {
+                camera.timer = setTimeout(flush, wait);
+            }
+        },
+        [send]
+    );
+
+    return {
+        status,
+        participantId,
+        participants,
+        annotations,
+        send,
+        sendCamera,
+    };
+};
@@ -0,0 +1,68 @@
+import type { Product, ProductDimensions } from './catalog';
+
+// Written by `npm run assets` (scripts/assets), read by the server and handed
+// to the viewer so each device downloads the lightest model that suits it.
+
+export const ASSET_MANIFEST_VERSION = 1;
+
+export type ModelCompression = 'none' | 'draco' | 'meshopt';
+
+export interface ModelAsset {
+    url: string;
+    compression: ModelCompression;
+    lod: number; // 0 is full detail, higher is coarser
+    triangles: number;
+    bytes: number;
+}
+
+export interface ProductAssets {
+    productId: string;
+    valid: boolean; // false when the source failed validation
+    usdzUrl: string | null;
+    dimensions: ProductDimensions | null; // measured from the GLB
+    models: ModelAsset[];
+}
+
+export interface AssetManifest {
+    version: number;
+    generatedAt: string;
+    products: Record<string, Omit<ProductAssets, 'productId'>>;
+}
+
+const smallestAt = (models: ModelAsset[], lod: number): ModelAsset =>
+    models
+        .filter((model) => model.lod === lod)
+        .sort((a, b) => a.bytes - b.bytes)[0];
+
+// Phones get the coarsest level, everything else full detail, and the
+// smallest file at that level. Without a manifest entry the catalog's source
+// model is used as before.
+export const pickModelUrl = (
+    product: Product,
+    assets: ProductAssets | null,
+    isMobile: boolean
+): string => {
+    const models = assets?.valid ? assets.models : [];
+    if (models.length === 0) return product.modelUrl;
+    const lods = models.map((model) => model.lod);
+    return smallestAt(models, isMobile ? Math.max(...lods) : Math.min(...lods))
+        .url;
+};
+
+// The coarsest level, loaded first and swapped for pickModelUrl's choice.
+// Null when there is nothing lighter to show in the meantime.
+export const pickPreviewUrl = (
+    product: Product,
+    assets: ProductAssets | null,
+    isMobile: boolean
+): string | null => {
+    const models = assets?.valid ? assets.models : [];
+    if (models.length === 0) return null;
+    const preview = smallestAt(
+        models,
+        Math.max(...models.map((model) => model.lod))
+    );
+    return preview.url === pickModelUrl(product, assets, isMobile)
+        ? null
+        : preview.url;
+};
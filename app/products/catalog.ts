@@ -0,0 +1,137 @@
+export interface ProductDimensions {
+    width: number; // meters
+    height: number; // meters
+    depth: number; // meters
+}
+
+export interface ProductColor {
+    name: string;
+    hex: string;
+}
+
+export type ProductMaterial = 'default' | 'fabric' | 'leather' | 'wood';
+
+// A selling point pinned to the model. Position and normal are model-space
+// hotspot attributes, placed with the viewer's authoring mode
+// (FEATURE_AUTHORING=1) rather than by hand.
+export interface ProductFeature {
+    id: string;
+    title: string;
+    details: string;
+    position: string; // e.g. "0m 0.45m 0.1m"
+    normal: string;
+}
+
+export interface Product {
+    id: string;
+    name: string;
+    description: string;
+    modelUrl: string;
+    usdzUrl: string;
+    price: number; // base price in PRICE_CURRENCY
+    dimensions: ProductDimensions;
+    colors: ProductColor[];
+    materials: ProductMaterial[];
+    features: ProductFeature[];
+}
+
+export const DEFAULT_PRODUCT_ID = 'sofa';
+
+export const PRODUCTS: Product[] = [
+    {
+        id: 'sofa',
+        name: 'Three-Seat Sofa',
+        description:
+            'A deep three-seat sofa with removable cushions and solid oak legs.',
+        modelUrl: '/public/sofa_v4.glb',
+        usdzUrl: '/public/sofa_v4.usdz',
+        price: 1299,
+        dimensions: { width: 2.1, height: 0.85, depth: 0.95 },
+        colors: [
+            { name: 'White', hex: '#FFFFFF' },
+            { name: 'Charcoal', hex: '#374151' },
+            { name: 'Sage', hex: '#84A98C' },
+            { name: 'Terracotta', hex: '#C2703D' },
+            { name: 'Navy', hex: '#1E3A5F' },
+        ],
+        materials: ['default', 'fabric', 'leather'],
+        features: [
+            {
+                id: 'removable-cushions',
+                title: 'Removable cushions',
+                details:
+                    'Seat and back cushions unzip and lift off, so covers can be washed or replaced.',
+                position: '0m 0.46m 0.08m',
+                normal: '0m 1m 0m',
+            },
+            {
+                id: 'solid-oak-legs',
+                title: 'Solid oak legs',
+                details:
+                    'Turned from solid oak and oiled, not veneered; they screw off for moving.',
+                position: '0.96m 0.05m 0.4m',
+                normal: '0m 0m 1m',
+            },
+        ],
+    },
+    {
+        id: 'armchair',
+        name: 'Lounge Armchair',
+        description: 'A compact armchair that pairs with the three-seat sofa.',
+        modelUrl: '/public/armchair_v1.glb',
+        usdzUrl: '/public/armchair_v1.usdz',
+        price: 549,
+        dimensions: { width: 0.9, height: 0.85, depth: 0.9 },
+        colors: [
+            { name: 'White', hex: '#FFFFFF' },
+            { name: 'Charcoal', hex: '#374151' },
+            { name: 'Mustard', hex: '#D4A017' },
+        ],
+        materials: ['default', 'fabric', 'leather'],
+        features: [
+            {
+                id: 'high-back',
+                title: 'Supportive high back',
+                details:
+                    'The back is tall enough to rest your head, matching the sofa cushions.',
+                position: '0m 0.8m -0.35m',
+                normal: '0m 0m 1m',
+            },
+        ],
+    },
+    {
+        id: 'coffee-table',
+        name: 'Oak Coffee Table',
+        description: 'A low rectangular coffee table in solid oak.',
+        modelUrl: '/public/coffee_table_v1.glb',
+        usdzUrl: '/public/coffee_table_v1.usdz',
+        price: 329,
+        dimensions: { width: 1.2, height: 0.4, depth: 0.6 },
+        colors: [
+            { name: 'Natural Oak', hex: '#C8A165' },
+            { name: 'Walnut', hex: '#5C4033' },
+            { name: 'Black', hex: '#111827' },
+        ],
+        materials: ['default', 'wood'],
+        features: [
+            {
+                id: 'solid-oak-top',
+                title: 'Solid oak top',
+                details:
+                    'A 3 cm top in solid oak that can be sanded back and re-oiled over the years.',
+                position: '0m 0.4m 0m',
+                normal: '0m 1m 0m',
+            },
+        ],
+    },
+];
+
+export const listProducts = (): Product[] => PRODUCTS;
+
+export const getProduct = (id: string | undefined): Product | undefined => {
+    return PRODUCTS.find((product) => product.id === id);
+};
+
+// Generated by the poster route from the catalog dimensions
+export const getPosterUrl = (productId: string): string =>
+    `/products/${encodeURIComponent(productId)}/poster.svg`;
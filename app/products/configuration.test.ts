@@ -0,0 +1,272 @@
+import { describe, expect, it } from 'vitest';
+import { getProduct, type Product } from './catalog';
+import {
+    CONFIGURATION_VERSION,
+    createConfiguration,
+    decodeCompactConfiguration,
+    decodeConfiguration,
+    encodeCompactConfiguration,
+    encodeConfiguration,
+    SCALE_RANGE,
+    type ProductConfiguration,
+} from './configuration';
+import { DEFAULT_CUSTOMIZATION } from './customization';
+
+const sofa = getProduct('sofa') as Product;
+const table = getProduct('coffee-table') as Product;
+
+const CONFIGURED: ProductConfiguration = createConfiguration(
+    'sofa',
+    {
+        color: '#1E3A5F',
+        scale: 1.25,
+        pattern: 'herringbone',
+        material: 'leather',
+    },
+    'wall'
+);
+
+// Changes one character of the token without touching the dots
+const tamper = (token: string, index: number): string => {
+    const replacement = token[index] === 'A' ? 'B' : 'A';
+    return token.slice(0, index) + replacement + token.slice(index + 1);
+};
+
+describe('compact configuration', () => {
+    it('round-trips every field', () => {
+        const token = encodeCompactConfiguration(CONFIGURED);
+        expect(token).toMatch(/^1\.sofa\.1E3A5F\.125\.hlw\.[0-9a-z]{7}$/);
+        expect(decodeCompactConfiguration(token)).toEqual({
+            configuration: CONFIGURED,
+            warnings: [],
+        });
+    });
+
+    it('round-trips the defaults', () => {
+        const configuration = createConfiguration('coffee-table', {
+            ...DEFAULT_CUSTOMIZATION,
+        });
+        const token = encodeCompactConfiguration(configuration);
+        expect(decodeCompactConfiguration(token)?.configuration).toEqual(
+            configuration
+        );
+    });
+
+    it('rejects a token whose payload was changed', () => {
+        const token = encodeCompactConfiguration(CONFIGURED);
+        const colorStart = token.indexOf('1E3A5F');
+        expect(decodeCompactConfiguration(tamper(token, colorStart))).toBe(
+            null
+        );
+    });
+
+    it('rejects a token whose checksum was changed', () => {
+        const token = encodeCompactConfiguration(CONFIGURED);
+        expect(
+            decodeCompactConfiguration(tamper(token, token.length - 1))
+        ).toBe(null);
+    });
+
+    it('rejects truncated tokens, other versions and unknown products', () => {
+        const token = encodeCompactConfiguration(CONFIGURED);
+        expect(decodeCompactConfiguration(token.slice(0, -8))).toBe(null);
+        expect(
+            decodeCompactConfiguration(
+                encodeCompactConfiguration({
+                    ...CONFIGURED,
+                    version: CONFIGURATION_VERSION + 1,
+                })
+            )
+        ).toBe(null);
+        expect(
+            decodeCompactConfiguration(
+                encodeCompactConfiguration({
+                    ...CONFIGURED,
+                    productId: 'bookshelf',
+                })
+            )
+        ).toBe(null);
+    });
+
+    it('clamps the scale and reports it', () => {
+        const token = encodeCompactConfiguration({
+            ...CONFIGURED,
+            customization: { ...CONFIGURED.customization, scale: 3 },
+        });
+        const decoded = decodeCompactConfiguration(token);
+        expect(decoded?.configuration.customization.scale).toBe(
+            SCALE_RANGE.max
+        );
+        expect(decoded?.warnings).toEqual([
+            {
+                field: 'scale',
+                value: '3',
+                message: 'linkWarnings.clamped',
+                values: { scale: 2 },
+            },
+        ]);
+    });
+
+    it('falls back when the material is not offered for the product', () => {
+        const token = encodeCompactConfiguration(
+            createConfiguration('coffee-table', {
+                ...DEFAULT_CUSTOMIZATION,
+                material: 'leather',
+            })
+        );
+        const decoded = decodeCompactConfiguration(token);
+        expect(decoded?.configuration.customization.material).toBe(
+            DEFAULT_CUSTOMIZATION.material
+        );
+        expect(decoded?.warnings).toEqual([
+            {
+                field: 'material',
+                value: 'leather',
+                message: 'linkWarnings.unavailableMaterial',
+                values: { product: table.name },
+            },
+        ]);
+    });
+});
+
+describe('decodeConfiguration', () => {
+    it('reads a compact token', () => {
+        const params = new URLSearchParams({
+            c: encodeCompactConfiguration(CONFIGURED),
+        });
+        expect(decodeConfiguration(params, sofa)).toEqual({
+            configuration: CONFIGURED,
+            warnings: [],
+        });
+    });
+
+    it('round-trips the long form', () => {
+        expect(
+            decodeConfiguration(encodeConfiguration(CONFIGURED), sofa)
+        ).toEqual({ configuration: CONFIGURED, warnings: [] });
+    });
+
+    it('falls back to the defaults for a tampered token', () => {
+        const token = tamper(encodeCompactConfiguration(CONFIGURED), 2);
+        expect(
+            decodeConfiguration(new URLSearchParams({ c: token }), sofa)
+        ).toEqual({
+            configuration: createConfiguration('sofa', DEFAULT_CUSTOMIZATION),
+            warnings: [
+                {
+                    field: 'c',
+                    value: token,
+                    message: 'linkWarnings.corrupt',
+                },
+            ],
+        });
+    });
+
+    it('falls back to the defaults for another product', () => {
+        const token = encodeCompactConfiguration(CONFIGURED);
+        const decoded = decodeConfiguration(
+            new URLSearchParams({ c: token }),
+            table
+        );
+        expect(decoded.configuration).toEqual(
+            createConfiguration('coffee-table', DEFAULT_CUSTOMIZATION)
+        );
+        expect(decoded.warnings).toEqual([
+            {
+                field: 'c',
+                value: token,
+                message: 'linkWarnings.otherProduct',
+                values: { product: 'sofa' },
+            },
+        ]);
+    });
+
+    it('clamps the scale on both ends', () => {
+        const low = decodeConfiguration(
+            new URLSearchParams({ scale: '0.1' }),
+            sofa
+        );
+        const high = decodeConfiguration(
+            new URLSearchParams({ scale: '10' }),
+            sofa
+        );
+        expect(low.configuration.customization.scale).toBe(SCALE_RANGE.min);
+        expect(high.configuration.customization.scale).toBe(SCALE_RANGE.max);
+        expect(low.warnings).toEqual([
+            {
+                field: 'scale',
+                value: '0.1',
+                message: 'linkWarnings.clamped',
+                values: { scale: 0.5 },
+            },
+        ]);
+    });
+
+    it('rounds the scale to hundredths', () => {
+        const decoded = decodeConfiguration(
+            new URLSearchParams({ scale: '1.23456' }),
+            sofa
+        );
+        expect(decoded.configuration.customization.scale).toBe(1.23);
+        expect(decoded.warnings).toEqual([]);
+    });
+
+    it('replaces every invalid field with its default and warns', () => {
+        const decoded = decodeConfiguration(
+            new URLSearchParams({
+                v: '9',
+                color: 'teal',
+                scale: 'big',
+                pattern: 'polka',
+                material: 'velvet',
+                placement: 'ceiling',
+            }),
+            sofa
+        );
+        expect(decoded.configuration).toEqual(
+            createConfiguration('sofa', DEFAULT_CUSTOMIZATION)
+        );
+        expect(decoded.warnings).toEqual([
+            {
+                field: 'v',
+                value: '9',
+                message: 'linkWarnings.unsupportedVersion',
+            },
+            {
+                field: 'color',
+                value: 'teal',
+                message: 'linkWarnings.notColor',
+            },
+            {
+                field: 'scale',
+                value: 'big',
+                message: 'linkWarnings.notNumber',
+            },
+            {
+                field: 'pattern',
+                value: 'polka',
+                message: 'linkWarnings.unknownPattern',
+            },
+            {
+                field: 'material',
+                value: 'velvet',
+                message: 'linkWarnings.unavailableMaterial',
+                values: { product: sofa.name },
+            },
+            {
+                field: 'placement',
+                value: 'ceiling',
+                message: 'linkWarnings.unknownPlacement',
+            },
+        ]);
+    });
+
+    it('normalizes short and lowercase colors', () => {
+        const decoded = decodeConfiguration(
+            new URLSearchParams({ color: 'f0a' }),
+            sofa
+        );
+        expect(decoded.configuration.customization.color).toBe('#FF00AA');
+        expect(decoded.warnings).toEqual([]);
+    });
+});
@@ -0,0 +1,353 @@
+import type { MessageValues } from '~/i18n/locale';
+import type { MessageKey } from '~/i18n/messages/en';
+import { getProduct, type Product, type ProductMaterial } from './catalog';
+import {
+    customizationToSearchParams,
+    DEFAULT_CUSTOMIZATION,
+    type Customization,
+} from './customization';
+import {
+    isProductPattern,
+    MATERIAL_PRESETS,
+    type ProductPattern,
+} from './materials';
+
+// Share links carry a version so the encoding can evolve without breaking
+// links that are already printed on QR codes. Links without a version are
+// treated as the original unversioned query string, which has the same fields.
+export const CONFIGURATION_VERSION = 1;
+
+export const SCALE_RANGE = { min: 0.5, max: 2 };
+
+// Scales are kept to hundredths, the precision compact links carry, so each
+// size maps to a single cached variant
+const SCALE_PRECISION = 100;
+
+const roundScale = (scale: number): number =>
+    Math.round(scale * SCALE_PRECISION) / SCALE_PRECISION;
+
+export type PlacementMode = 'floor' | 'wall';
+
+export interface ProductConfiguration {
+    version: number;
+    productId: string;
+    customization: Customization;
+    placement: PlacementMode;
+}
+
+// The message is translated where the warning is shown
+export interface ConfigurationWarning {
+    field: string;
+    value: string;
+    message: MessageKey;
+    values?: MessageValues;
+}
+
+export interface DecodedConfiguration {
+    configuration: ProductConfiguration;
+    warnings: ConfigurationWarning[];
+}
+
+export interface RawCustomization {
+    color?: string | null;
+    scale?: string | null;
+    pattern?: string | null;
+    material?: string | null;
+}
+
+const COLOR_PATTERN = /^#?([0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+const PATTERN_CODES: Record<ProductPattern, string> = {
+    solid: 's',
+    stripes: 't',
+    checks: 'c',
+    herringbone: 'h',
+};
+
+const MATERIAL_CODES: Record<ProductMaterial, string> = {
+    default: 'd',
+    fabric: 'f',
+    leather: 'l',
+    wood: 'w',
+};
+
+const PLACEMENT_CODES: Record<PlacementMode, string> = {
+    floor: 'f',
+    wall: 'w',
+};
+
+const decodeCode = <T extends string>(
+    codes: Record<T, string>,
+    code: string
+): T | undefined => {
+    return (Object.keys(codes) as T[]).find((key) => codes[key] === code);
+};
+
+const normalizeColor = (value: string): string | null => {
+    const match = COLOR_PATTERN.exec(value.trim());
+    if (!match) return null;
+    const hex =
+        match[1].length === 3
+            ? match[1]
+                  .split('')
+                  .map((c) => c + c)
+                  .join('')
+            : match[1];
+    return `#${hex.toUpperCase()}`;
+};
+
+// Checks every field, replacing invalid values with defaults and clamping the
+// scale, and reports what was changed
+export const validateCustomization = (
+    raw: RawCustomization,
+    product?: Product
+): { customization: Customization; warnings: ConfigurationWarning[] } => {
+    const warnings: ConfigurationWarning[] = [];
+    const customization: Customization = { ...DEFAULT_CUSTOMIZATION };
+
+    if (raw.color) {
+        const color = normalizeColor(raw.color);
+        if (color) {
+            customization.color = color;
+        } else {
+            warnings.push({
+                field: 'color',
+                value: raw.color,
+                message: 'linkWarnings.notColor',
+            });
+        }
+    }
+
+    if (raw.scale) {
+        const scale = parseFloat(raw.scale);
+        if (!Number.isFinite(scale)) {
+            warnings.push({
+                field: 'scale',
+                value: raw.scale,
+                message: 'linkWarnings.notNumber',
+            });
+        } else if (scale < SCALE_RANGE.min || scale > SCALE_RANGE.max) {
+            customization.scale = Math.min(
+                SCALE_RANGE.max,
+                Math.max(SCALE_RANGE.min, scale)
+            );
+            warnings.push({
+                field: 'scale',
+                value: raw.scale,
+                message: 'linkWarnings.clamped',
+                values: { scale: customization.scale },
+            });
+        } else {
+            customization.scale = roundScale(scale);
+        }
+    }
+
+    if (raw.pattern) {
+        if (isProductPattern(raw.pattern)) {
+            customization.pattern = raw.pattern;
+        } else {
+            warnings.push({
+                field: 'pattern',
+                value: raw.pattern,
+                message: 'linkWarnings.unknownPattern',
+            });
+        }
+    }
+
+    if (raw.material) {
+        const allowed = product
+            ? (product.materials as string[])
+            : Object.keys(MATERIAL_PRESETS);
+        if (allowed.includes(raw.material)) {
+            customization.material = raw.material;
+        } else {
+            warnings.push({
+                field: 'material',
+                value: raw.material,
+                ...(product
+                    ? {
+                          message: 'linkWarnings.unavailableMaterial',
+                          values: { product: product.name },
+                      }
+                    : { message: 'linkWarnings.unknownMaterial' }),
+            });
+        }
+    }
+
+    return { customization, warnings };
+};
+
+const validatePlacement = (
+    value: string | null,
+    warnings: ConfigurationWarning[]
+): PlacementMode => {
+    if (!value || value === 'floor' || value === 'wall') {
+        return (value as PlacementMode | null) ?? 'floor';
+    }
+    warnings.push({
+        field: 'placement',
+        value,
+        message: 'linkWarnings.unknownPlacement',
+    });
+    return 'floor';
+};
+
+export const createConfiguration = (
+    productId: string,
+    customization: Customization,
+    placement: PlacementMode = 'floor'
+): ProductConfiguration => ({
+    version: CONFIGURATION_VERSION,
+    productId,
+    customization,
+    placement,
+});
+
+// Readable long form, e.g. ?v=1&color=%23FFFFFF&scale=1&pattern=solid
+export const encodeConfiguration = (
+    configuration: ProductConfiguration
+): URLSearchParams => {
+    const params = customizationToSearchParams(configuration.customization);
+    params.set('v', String(configuration.version));
+    if (configuration.placement !== 'floor') {
+        params.set('placement', configuration.placement);
+    }
+    return params;
+};
+
+// FNV-1a, so typos and truncated QR scans are caught. This is an integrity
+// check, not a secret signature: anyone can produce a valid token.
+const checksum = (payload: string): string => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < payload.length; i++) {
+        hash ^= payload.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(36).padStart(7, '0');
+};
+
+// Compact form for QR codes, e.g. 1.sofa.FFFFFF.100.sdf.0abc123
+export const encodeCompactConfiguration = (
+    configuration: ProductConfiguration
+): string => {
+    const { customization } = configuration;
+    const codes = [
+        PATTERN_CODES[(customization.pattern ?? 'solid') as ProductPattern] ??
+            PATTERN_CODES.solid,
+        MATERIAL_CODES[
+            (customization.material ?? 'default') as ProductMaterial
+        ] ?? MATERIAL_CODES.default,
+        PLACEMENT_CODES[configuration.placement],
+    ].join('');
+    const payload = [
+        configuration.version,
+        configuration.productId,
+        customization.color.replace('#', '').toUpperCase(),
+        Math.round(customization.scale * SCALE_PRECISION),
+        codes,
+    ].join('.');
+    return `${payload}.${checksum(payload)}`;
+};
+
+// Returns null when the token is unreadable or fails its checksum
+export const decodeCompactConfiguration = (
+    token: string
+): DecodedConfiguration | null => {
+    const parts = token.split('.');
+    if (parts.length !== 6) return null;
+
+    const [version, productId, color, scale, codes, check] = parts;
+    if (checksum(parts.slice(0, 5).join('.')) !== check) return null;
+    if (Number(version) !== CONFIGURATION_VERSION) return null;
+
+    const product = getProduct(productId);
+    if (!product) return null;
+
+    const warnings: ConfigurationWarning[] = [];
+    const validated = validateCustomization(
+        {
+            color,
+            scale: String(Number(scale) / SCALE_PRECISION),
+            pattern: decodeCode(PATTERN_CODES, codes[0]) ?? codes[0],
+            material: decodeCode(MATERIAL_CODES, codes[1]) ?? codes[1],
+        },
+        product
+    );
+    warnings.push(...validated.warnings);
+    const placement = validatePlacement(
+        decodeCode(PLACEMENT_CODES, codes[2] ?? '') ?? codes[2] ?? null,
+        warnings
+    );
+
+    return {
+        configuration: createConfiguration(
+            product.id,
+            validated.customization,
+            placement
+        ),
+        warnings,
+    };
+};
+
+// Reads either the compact `c` token or the long form from a query string
+export const decodeConfiguration = (
+    params: URLSearchParams,
+    product: Product
+): DecodedConfiguration => {
+    const token = params.get('c');
+    if (token) {
+        const decoded = decodeCompactConfiguration(token);
+        if (decoded && decoded.configuration.productId === product.id) {
+            return decoded;
+        }
+        return {
+            configuration: createConfiguration(product.id, {
+                ...DEFAULT_CUSTOMIZATION,
+            }),
+            warnings: [
+                {
+                    field: 'c',
+                    value: token,
+                    ...(decoded
+                        ? {
+                              message: 'linkWarnings.otherProduct',
+                              values: {
+                                  product: decoded.configuration.productId,
+                              },
+                          }
+                        : { message: 'linkWarnings.corrupt' }),
+                },
+            ],
+        };
+    }
+
+    const warnings: ConfigurationWarning[] = [];
+    const version = params.get('v');
+    if (version && Number(version) !== CONFIGURATION_VERSION) {
+        warnings.push({
+            field: 'v',
+            value: version,
+            message: 'linkWarnings.unsupportedVersion',
+        });
+    }
+
+    const validated = validateCustomization(
+        {
+            color: params.get('color'),
+            scale: params.get('scale'),
+            pattern: params.get('pattern'),
+            material: params.get('material'),
+        },
+        product
+    );
+    warnings.push(...validated.warnings);
+
+    return {
+        configuration: createConfiguration(
+            product.id,
+            validated.customization,
+            validatePlacement(params.get('placement'), warnings)
+        ),
+        warnings,
+    };
+};
@@ -0,0 +1,42 @@
+export interface Customization {
+    color: string;
+    scale: number;
+    pattern?: string;
+    material?: string;
+}
+
+export const DEFAULT_CUSTOMIZATION: Customization = {
+    color: '#FFFFFF',
+    scale: 1.0,
+    pattern: 'solid',
+    material: 'default',
+};
+
+// Builds the query string understood by both the viewer and the variant route
+export const customizationToSearchParams = (
+    customization: Customization
+): URLSearchParams => {
+    const params = new URLSearchParams();
+    params.set('color', customization.color);
+    params.set('scale', String(customization.scale));
+    if (customization.pattern) params.set('pattern', customization.pattern);
+    if (customization.material) params.set('material', customization.material);
+    return params;
+};
+
+// URL of a server-generated asset with the customization baked in
+export const getVariantUrl = (
+    productId: string,
+    format: 'glb' | 'usdz',
+    customization: Customization
+): string => {
+    const query = customizationToSearchParams(customization).toString();
+    return `/products/${encodeURIComponent(productId)}/variants/model.${format}?${query}`;
+};
+
+// Quick Look can't be customized at runtime, so anything that differs from
+// the source USDZ needs a server-generated variant
+export const isCustomized = (customization: Customization): boolean =>
+    customization.color.toUpperCase() !== DEFAULT_CUSTOMIZATION.color ||
+    customization.scale !== DEFAULT_CUSTOMIZATION.scale ||
+    customization.material !== DEFAULT_CUSTOMIZATION.material;
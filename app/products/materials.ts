@@ -0,0 +1,36 @@
+import type { ProductMaterial } from './catalog';
+
+export interface MaterialPreset {
+    roughness: number;
+    metalness: number;
+}
+
+// 'default' keeps whatever the model was authored with
+export const MATERIAL_PRESETS: Record<ProductMaterial, MaterialPreset | null> =
+    {
+        default: null,
+        fabric: { roughness: 0.95, metalness: 0 },
+        leather: { roughness: 0.45, metalness: 0 },
+        wood: { roughness: 0.7, metalness: 0 },
+    };
+
+export const getMaterialPreset = (
+    material: string | undefined
+): MaterialPreset | null => {
+    return material && material in MATERIAL_PRESETS
+        ? MATERIAL_PRESETS[material as ProductMaterial]
+        : null;
+};
+
+export type ProductPattern = 'solid' | 'stripes' | 'checks' | 'herringbone';
+
+export const PATTERNS: ProductPattern[] = [
+    'solid',
+    'stripes',
+    'checks',
+    'herringbone',
+];
+
+export const isProductPattern = (
+    pattern: string | undefined
+): pattern is ProductPattern => PATTERNS.includes(pattern as ProductPattern);
@@ -0,0 +1,172 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_CUSTOMIZATION, type Customization } from './customization';
+import {
+    getOptionPriceDelta,
+    getOptionViolations,
+    getPriceDelta,
+    getStockInfo,
+    getUnavailableReason,
+    isRestricted,
+    type ProductOptionSchema,
+} from './options';
+
+const SCHEMA: ProductOptionSchema = {
+    productId: 'sofa',
+    priceDeltas: {
+        color: { '#5c4033': 60 },
+        material: { fabric: 150, leather: 600 },
+        pattern: { stripes: 80 },
+    },
+    rules: [
+        {
+            if: { field: 'material', value: 'leather' },
+            allow: { field: 'color', values: ['#374151', '#c2703d'] },
+            reason: 'options.sofaLeatherColors',
+        },
+        {
+            if: { field: 'material', value: 'leather' },
+            allow: { field: 'pattern', values: ['solid'] },
+            reason: 'options.leatherPatterns',
+        },
+    ],
+    stock: [
+        { match: { material: 'leather' }, inStock: false, leadTimeDays: 42 },
+        {
+            match: { color: '#374151', pattern: 'solid' },
+            inStock: true,
+            leadTimeDays: 3,
+        },
+    ],
+    defaultStock: { inStock: false, leadTimeDays: 21 },
+};
+
+const customize = (changes: Partial<Customization>): Customization => ({
+    ...DEFAULT_CUSTOMIZATION,
+    ...changes,
+});
+
+describe('getOptionViolations', () => {
+    it('accepts anything without a schema', () => {
+        expect(
+            getOptionViolations(
+                null,
+                customize({ material: 'leather', pattern: 'stripes' })
+            )
+        ).toEqual([]);
+    });
+
+    it('accepts a customization no rule applies to', () => {
+        expect(
+            getOptionViolations(
+                SCHEMA,
+                customize({ material: 'fabric', pattern: 'stripes' })
+            )
+        ).toEqual([]);
+    });
+
+    it('lists the reason of every broken rule in order', () => {
+        expect(
+            getOptionViolations(
+                SCHEMA,
+                customize({
+                    color: '#FFFFFF',
+                    material: 'leather',
+                    pattern: 'stripes',
+                })
+            )
+        ).toEqual(['options.sofaLeatherColors', 'options.leatherPatterns']);
+    });
+
+    it('compares colors regardless of case', () => {
+        expect(
+            getOptionViolations(
+                SCHEMA,
+                customize({
+                    color: '#C2703D',
+                    material: 'leather',
+                    pattern: 'solid',
+                })
+            )
+        ).toEqual([]);
+    });
+});
+
+describe('getUnavailableReason', () => {
+    it('explains why a value would break a rule', () => {
+        const leather = customize({ color: '#374151', material: 'leather' });
+        expect(
+            getUnavailableReason(SCHEMA, leather, 'pattern', 'stripes')
+        ).toBe('options.leatherPatterns');
+        expect(getUnavailableReason(SCHEMA, leather, 'pattern', 'solid')).toBe(
+            null
+        );
+    });
+});
+
+describe('isRestricted', () => {
+    it('is true only while a rule limits the field', () => {
+        expect(
+            isRestricted(SCHEMA, customize({ material: 'leather' }), 'color')
+        ).toBe(true);
+        expect(
+            isRestricted(SCHEMA, customize({ material: 'fabric' }), 'color')
+        ).toBe(false);
+        expect(
+            isRestricted(SCHEMA, customize({ material: 'leather' }), 'material')
+        ).toBe(false);
+        expect(isRestricted(null, DEFAULT_CUSTOMIZATION, 'color')).toBe(false);
+    });
+});
+
+describe('price deltas', () => {
+    it('looks up one option, matching colors regardless of case', () => {
+        expect(getOptionPriceDelta(SCHEMA, 'material', 'leather')).toBe(600);
+        expect(getOptionPriceDelta(SCHEMA, 'color', '#5C4033')).toBe(60);
+        expect(getOptionPriceDelta(SCHEMA, 'pattern', 'checks')).toBe(0);
+        expect(getOptionPriceDelta(SCHEMA, 'pattern', undefined)).toBe(0);
+        expect(getOptionPriceDelta(null, 'material', 'leather')).toBe(0);
+    });
+
+    it('adds up the surcharges of every option', () => {
+        expect(
+            getPriceDelta(
+                SCHEMA,
+                customize({
+                    color: '#5C4033',
+                    material: 'fabric',
+                    pattern: 'stripes',
+                })
+            )
+        ).toBe(290);
+        expect(getPriceDelta(SCHEMA, DEFAULT_CUSTOMIZATION)).toBe(0);
+    });
+});
+
+describe('getStockInfo', () => {
+    it('uses the first matching variant', () => {
+        expect(
+            getStockInfo(
+                SCHEMA,
+                customize({
+                    color: '#374151',
+                    material: 'leather',
+                    pattern: 'solid',
+                })
+            )
+        ).toEqual({ inStock: false, leadTimeDays: 42 });
+        expect(
+            getStockInfo(
+                SCHEMA,
+                customize({ color: '#374151', pattern: 'solid' })
+            )
+        ).toEqual({ inStock: true, leadTimeDays: 3 });
+    });
+
+    it('falls back to the default stock', () => {
+        expect(getStockInfo(SCHEMA, customize({ color: '#FFFFFF' }))).toEqual({
+            inStock: false,
+            leadTimeDays: 21,
+        });
+        expect(getStockInfo(null, DEFAULT_CUSTOMIZATION)).toBe(null);
+    });
+});
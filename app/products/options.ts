@@ -0,0 +1,122 @@
+import type { MessageKey } from '~/i18n/messages/en';
+import type { Customization } from './customization';
+
+// Which option combinations a product is sold in, what they cost on top of
+// the base price and how quickly they ship. Schemas come from the server
+// (see `.server/product-options.ts`); the checks here run on both sides.
+
+export type OptionField = 'color' | 'material' | 'pattern';
+
+// "If `if.field` is `if.value`, `allow.field` must be one of `allow.values`"
+export interface OptionRule {
+    if: { field: OptionField; value: string };
+    allow: { field: OptionField; values: string[] };
+    reason: MessageKey; // translated where it's shown
+}
+
+export interface StockInfo {
+    inStock: boolean;
+    leadTimeDays: number;
+}
+
+export interface VariantStock extends StockInfo {
+    match: Partial<Record<OptionField, string>>;
+}
+
+export interface ProductOptionSchema {
+    productId: string;
+    priceDeltas: Partial<Record<OptionField, Record<string, number>>>;
+    rules: OptionRule[];
+    stock: VariantStock[]; // first match wins
+    defaultStock: StockInfo;
+}
+
+const OPTION_FIELDS: OptionField[] = ['color', 'material', 'pattern'];
+
+// Colors are compared as upper-case hex, everything else verbatim
+const normalize = (field: OptionField, value: string | undefined): string =>
+    field === 'color' ? (value ?? '').toUpperCase() : (value ?? '');
+
+const getValue = (customization: Customization, field: OptionField) =>
+    normalize(field, customization[field]);
+
+const breaks = (rule: OptionRule, customization: Customization): boolean =>
+    getValue(customization, rule.if.field) ===
+        normalize(rule.if.field, rule.if.value) &&
+    !rule.allow.values
+        .map((value) => normalize(rule.allow.field, value))
+        .includes(getValue(customization, rule.allow.field));
+
+// Reasons the customization breaks the schema, empty when it is valid
+export const getOptionViolations = (
+    schema: ProductOptionSchema | null,
+    customization: Customization
+): MessageKey[] =>
+    schema
+        ? schema.rules
+              .filter((rule) => breaks(rule, customization))
+              .map((rule) => rule.reason)
+        : [];
+
+// Why picking `value` for `field` would be invalid, or null if it's fine
+export const getUnavailableReason = (
+    schema: ProductOptionSchema | null,
+    customization: Customization,
+    field: OptionField,
+    value: string
+): MessageKey | null =>
+    getOptionViolations(schema, { ...customization, [field]: value })[0] ??
+    null;
+
+// True when some rule limits the field to a fixed list, which rules out the
+// free color picker while that rule applies
+export const isRestricted = (
+    schema: ProductOptionSchema | null,
+    customization: Customization,
+    field: OptionField
+): boolean =>
+    !!schema?.rules.some(
+        (rule) =>
+            rule.allow.field === field &&
+            getValue(customization, rule.if.field) ===
+                normalize(rule.if.field, rule.if.value)
+    );
+
+export const getOptionPriceDelta = (
+    schema: ProductOptionSchema | null,
+    field: OptionField,
+    value: string | undefined
+): number => {
+    const deltas = schema?.priceDeltas[field];
+    if (!deltas || value === undefined) return 0;
+    const key = Object.keys(deltas).find(
+        (candidate) => normalize(field, candidate) === normalize(field, value)
+    );
+    return key ? deltas[key] : 0;
+};
+
+export const getPriceDelta = (
+    schema: ProductOptionSchema | null,
+    customization: Customization
+): number =>
+    OPTION_FIELDS.reduce(
+        (total, field) =>
+            total + getOptionPriceDelta(schema, field, customization[field]),
+        0
+    );
+
+export const getStockInfo = (
+    schema: ProductOptionSchema | null,
+    customization: Customization
+): StockInfo | null => {
+    if (!schema) return null;
+    const variant = schema.stock.find((entry) =>
+        (Object.keys(entry.match) as OptionField[]).every(
+            (field) =>
+                normalize(field, entry.match[field]) ===
+                getValue(customization, field)
+        )
+    );
+    const { inStock, leadTimeDays } = variant ?? schema.defaultStock;
+    return { inStock, leadTimeDays };
+};
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { getProduct, type Product } from './catalog';
+import { DEFAULT_CUSTOMIZATION } from './customization';
+import type { ProductOptionSchema } from './options';
+import { formatPrice, getConfiguredPrice } from './pricing';
+
+const sofa = getProduct('sofa') as Product;
+
+const SCHEMA: ProductOptionSchema = {
+    productId: 'sofa',
+    priceDeltas: {
+        material: { leather: 600 },
+        pattern: { stripes: 80 },
+    },
+    rules: [],
+    stock: [],
+    defaultStock: { inStock: true, leadTimeDays: 3 },
+};
+
+describe('getConfiguredPrice', () => {
+    it('adds the option surcharges to the base price', () => {
+        expect(
+            getConfiguredPrice(
+                sofa,
+                {
+                    ...DEFAULT_CUSTOMIZATION,
+                    material: 'leather',
+                    pattern: 'stripes',
+                },
+                SCHEMA
+            )
+        ).toBe(sofa.price + 680);
+    });
+
+    it('is the base price without surcharges or a schema', () => {
+        expect(getConfiguredPrice(sofa, DEFAULT_CUSTOMIZATION, SCHEMA)).toBe(
+            sofa.price
+        );
+        expect(
+            getConfiguredPrice(
+                sofa,
+                { ...DEFAULT_CUSTOMIZATION, material: 'leather' },
+                null
+            )
+        ).toBe(sofa.price);
+    });
+});
+
+describe('formatPrice', () => {
+    it('formats in the store currency for the locale', () => {
+        expect(formatPrice(1979)).toBe('$1,979.00');
+        expect(formatPrice(1979, 'de-DE')).toBe('1.979,00 $');
+        expect(formatPrice(12.5, 'en-US', 'EUR')).toBe('€12.50');
+    });
+});
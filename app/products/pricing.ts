@@ -0,0 +1,21 @@
+import type { Product } from './catalog';
+import type { Customization } from './customization';
+import { getPriceDelta, type ProductOptionSchema } from './options';
+
+export const PRICE_CURRENCY = 'USD';
+
+// Price of one configured product: the base price plus each option's surcharge
+export const getConfiguredPrice = (
+    product: Product,
+    customization: Customization,
+    options: ProductOptionSchema | null
+): number => product.price + getPriceDelta(options, customization);
+
+export const formatPrice = (
+    amount: number,
+    locale = 'en-US',
+    currency: string = PRICE_CURRENCY
+): string =>
+    new Intl.NumberFormat(locale, { style: 'currency', currency }).format(
+        amount
+    );
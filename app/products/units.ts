@@ -0,0 +1,75 @@
+export type UnitSystem = 'metric' | 'imperial';
+
+export type LengthUnit = 'm' | 'cm' | 'in' | 'ft-in';
+
+// Units that can be typed as a single number
+export type NumericLengthUnit = Exclude<LengthUnit, 'ft-in'>;
+
+export const LENGTH_UNITS: { value: LengthUnit; system: UnitSystem }[] = [
+    { value: 'm', system: 'metric' },
+    { value: 'cm', system: 'metric' },
+    { value: 'in', system: 'imperial' },
+    { value: 'ft-in', system: 'imperial' },
+];
+
+export const DEFAULT_UNITS: Record<UnitSystem, LengthUnit> = {
+    metric: 'm',
+    imperial: 'ft-in',
+};
+
+const METERS_PER_UNIT: Record<NumericLengthUnit, number> = {
+    m: 1,
+    cm: 0.01,
+    in: 0.0254,
+};
+
+const DECIMALS: Record<NumericLengthUnit, number> = {
+    m: 2,
+    cm: 0,
+    in: 1,
+};
+
+// Names understood by Intl.NumberFormat's unit style
+const INTL_UNITS: Record<NumericLengthUnit, string> = {
+    m: 'meter',
+    cm: 'centimeter',
+    in: 'inch',
+};
+
+export const getUnitSystem = (unit: LengthUnit): UnitSystem =>
+    LENGTH_UNITS.find((entry) => entry.value === unit)?.system ?? 'metric';
+
+// Feet and inches are entered as plain inches
+export const getInputUnit = (unit: LengthUnit): NumericLengthUnit =>
+    unit === 'ft-in' ? 'in' : unit;
+
+export const fromMeters = (meters: number, unit: NumericLengthUnit): number => {
+    return meters / METERS_PER_UNIT[unit];
+};
+
+export const toMeters = (value: number, unit: NumericLengthUnit): number => {
+    return value * METERS_PER_UNIT[unit];
+};
+
+export const formatLength = (
+    meters: number,
+    unit: LengthUnit,
+    locale = 'en-US'
+): string => {
+    if (unit === 'ft-in') {
+        // Rounded to the nearest inch, e.g. 6′ 11″
+        const totalInches = Math.round(Math.abs(meters) / METERS_PER_UNIT.in);
+        const number = new Intl.NumberFormat(locale);
+        const feet = Math.floor(totalInches / 12);
+        const inches = totalInches % 12;
+        const sign = meters < 0 ? '−' : '';
+        return `${sign}${number.format(feet)}′ ${number.format(inches)}″`;
+    }
+    return new Intl.NumberFormat(locale, {
+        style: 'unit',
+        unit: INTL_UNITS[unit],
+        unitDisplay: 'short',
+        minimumFractionDigits: DECIMALS[unit],
+        maximumFractionDigits: DECIMALS[unit],
+    }).format(fromMeters(meters, unit));
+};
@@ -0,0 +1,27 @@
+const SERVICE_WORKER_URL = '/sw.js';
+
+// Only registered in production builds so the dev server's hot reloading
+// never races a cached bundle
+export const registerServiceWorker = async (): Promise<void> => {
+    if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+    try {
+        await navigator.serviceWorker.register(SERVICE_WORKER_URL, {
+            type: 'classic',
+        });
+    } catch (error) {
+        console.error('Service worker registration failed:', error);
+    }
+};
+
+// Asks the service worker to keep this product's models for offline AR. On
+// the first visit the worker is still installing, so this waits for it to
+// activate instead of dropping the message.
+export const cacheProductAssets = async (
+    productId: string,
+    urls: string[]
+): Promise<void> => {
+    // `ready` never settles without a registration, as in development
+    if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+    const { active } = await navigator.serviceWorker.ready;
+    active?.postMessage({ type: 'cache-product', productId, urls });
+};
@@ -1,3 +1,4 @@
+import { useEffect } from "react";
 import {
   isRouteErrorResponse,
   Links,
@@ -5,30 +6,52 @@ import {
   Outlet,
   Scripts,
   ScrollRestoration,
+  useMatches,
+  useRouteLoaderData,
 } from "react-router";
 
 import type { Route } from "./+types/root";
+import ConsentBanner from "./analytics/consent-banner";
+import {
+  CLIENT_HINT_HEADERS,
+  detectServerCapabilities,
+} from "./device/capabilities";
+import { CapabilitiesProvider } from "./device/capabilities-context";
+import { I18nProvider } from "./i18n/i18n-context";
+import { DEFAULT_LOCALE, detectLocale } from "./i18n/locale";
+import { registerServiceWorker } from "./pwa/service-worker";
+import "@fontsource-variable/inter";
 import "./app.css";
 
+export function loader({ request }: Route.LoaderArgs) {
+  const url = new URL(request.url);
+  return {
+    capabilities: detectServerCapabilities(request.headers),
+    locale: detectLocale(
+      request.headers.get("Accept-Language"),
+      url.searchParams.get("lang"),
+    ),
+  };
+}
+
+export const headers: Route.HeadersFunction = () => ({
+  "Accept-CH": CLIENT_HINT_HEADERS.join(", "),
+  Vary: ["User-Agent", "Accept-Language", ...CLIENT_HINT_HEADERS].join(", "),
+});
+
 export const links: Route.LinksFunction = () => [
-  { rel: "preconnect", href: "https://fonts.googleapis.com" },
-  {
-    rel: "preconnect",
-    href: "https://fonts.gstatic.com",
-    crossOrigin: "anonymous",
-  },
-  {
-    rel: "stylesheet",
-    href: "https://fonts.googleapis.com/css2?family=Inter:ital,opsz,wght@0,14..32,100..900;1,14..32,100..900&display=swap",
-  },
+  { rel: "manifest", href: "/manifest.webmanifest" },
 ];
 
 export function Layout({ children }: { children: React.ReactNode }) {
+  // Missing when the root loader itself failed
+  const data = useRouteLoaderData<typeof loader>("root");
   return (
-    <html lang="en">
+    <html lang={data?.locale ?? DEFAULT_LOCALE}>
       <head>
         <meta charSet="utf-8" />
         <meta name="viewport" content="width=device-width, initial-scale=1" />
+        <meta name="theme-color" content="#050509" />
         <Meta />
         <Links />
       </head>
@@ -41,8 +64,24 @@ export function Layout({ children }: { children: React.ReactNode }) {
   );
 }
 
-export default function App() {
-  return <Outlet />;
+export default function App({ loaderData }: Route.ComponentProps) {
+  useEffect(() => {
+    registerServiceWorker();
+  }, []);
+  // Routes such as the partner embed opt out with `handle = { chrome: false }`
+  const showChrome = useMatches().every(
+    (match) =>
+      (match.handle as { chrome?: boolean } | undefined)?.chrome !== false,
+  );
+
+  return (
+    <CapabilitiesProvider initial={loaderData.capabilities}>
+      <I18nProvider locale={loaderData.locale}>
+        <Outlet />
+        {showChrome && <ConsentBanner />}
+      </I18nProvider>
+    </CapabilitiesProvider>
+  );
 }
 
 export function ErrorBoundary({ error }: Route.ErrorBoundaryProps) {
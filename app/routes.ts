@@ -1,3 +1,18 @@
-import { type RouteConfig, index } from "@react-router/dev/routes";
+import { type RouteConfig, index, route } from "@react-router/dev/routes";
 
-export default [index("routes/home.tsx")] satisfies RouteConfig;
+export default [
+  index("routes/home.tsx"),
+  route("products", "routes/products.tsx"),
+  route("products/:productId", "routes/product.tsx"),
+  route("products/:productId/compare", "routes/product-compare.tsx"),
+  route("products/:productId/variants/:asset", "routes/product-variant.ts"),
+  route("products/:productId/poster.svg", "routes/product-poster.ts"),
+  route("s/:token", "routes/share.ts"),
+  route("handoff/:sessionId", "routes/handoff.ts"),
+  route("live/:sessionId", "routes/live.ts"),
+  route("analytics", "routes/analytics.ts"),
+  route("cart", "routes/cart.ts"),
+  route("saved", "routes/saved.ts"),
+  route("embed/:productId", "routes/embed.tsx"),
+  route("decoders/:file", "routes/decoder.ts"),
+] satisfies RouteConfig;
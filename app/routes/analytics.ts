@@ -0,0 +1,36 @@
+import { data } from "react-router";
+import {
+  appendAnalyticsEvents,
+  isAnalyticsCollectorEnabled,
+} from "~/.server/analytics";
+import { isAnalyticsEvent } from "~/analytics/events";
+import type { Route } from "./+types/analytics";
+
+const MAX_BODY_BYTES = 64 * 1024;
+const MAX_EVENTS = 100;
+
+export async function action({ request }: Route.ActionArgs) {
+  if (!isAnalyticsCollectorEnabled()) {
+    throw data(null, { status: 404, statusText: "Not Found" });
+  }
+
+  // Beacons may arrive as text/plain, so parse the raw body either way
+  const text = await request.text();
+  if (text.length > MAX_BODY_BYTES) {
+    throw data({ error: "Payload too large" }, { status: 413 });
+  }
+  let body: unknown;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    throw data({ error: "Invalid JSON" }, { status: 400 });
+  }
+
+  const events = (body as { events?: unknown })?.events;
+  if (!Array.isArray(events) || events.length > MAX_EVENTS) {
+    throw data({ error: "Expected an events array" }, { status: 400 });
+  }
+  const valid = events.filter(isAnalyticsEvent);
+  await appendAnalyticsEvents(valid, request.headers.get("User-Agent"));
+  return new Response(null, { status: 204 });
+}
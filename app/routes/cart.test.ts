@@ -0,0 +1,166 @@
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { setCartAdapter } from "~/.server/cart";
+import { createMockCartAdapter } from "~/.server/mock-cart-adapter";
+import type { Cart } from "~/commerce/cart";
+import { getProduct, type Product } from "~/products/catalog";
+import { DEFAULT_CUSTOMIZATION } from "~/products/customization";
+import type { Route } from "./+types/cart";
+import { action } from "./cart";
+
+// Option rules and surcharges come from data/product-options.json
+const sofa = getProduct("sofa") as Product;
+
+let storeDir: string;
+let storePath: string;
+
+beforeEach(async () => {
+  storeDir = await mkdtemp(path.join(tmpdir(), "cart-test-"));
+  storePath = path.join(storeDir, "carts.json");
+  setCartAdapter(createMockCartAdapter(storePath));
+});
+
+afterEach(async () => {
+  await rm(storeDir, { recursive: true, force: true });
+});
+
+// What `data()` returns, for the thrown errors as well as the cart
+interface DataResult {
+  data: unknown;
+  init: ResponseInit | null;
+}
+
+const post = async (body: unknown, cookie?: string | null) => {
+  const request = new Request("http://localhost/cart", {
+    method: "POST",
+    headers: cookie ? { Cookie: cookie } : {},
+    body: JSON.stringify(body),
+  });
+  const args: Route.ActionArgs = {
+    request,
+    params: {},
+    context: {},
+    unstable_pattern: "/cart",
+  };
+  const result: DataResult = await action(args).catch((error) => error);
+  return {
+    status: result.init?.status ?? 200,
+    data: result.data,
+    cookie:
+      new Headers(result.init?.headers).get("Set-Cookie")?.split(";")[0] ??
+      null,
+  };
+};
+
+const addSofa = (changes: Record<string, unknown> = {}) =>
+  post({
+    intent: "add",
+    productId: "sofa",
+    customization: DEFAULT_CUSTOMIZATION,
+    ...changes,
+  });
+
+const storedCarts = async (): Promise<Record<string, unknown>> =>
+  JSON.parse(await readFile(storePath, "utf8").catch(() => "{}"));
+
+describe("cart action", () => {
+  it("adds a line priced from the catalog", async () => {
+    const { status, data, cookie } = await addSofa({
+      customization: {
+        ...DEFAULT_CUSTOMIZATION,
+        color: "#374151",
+        material: "leather",
+      },
+      quantity: 2,
+      unitPrice: 1,
+    });
+    const cart = data as Cart;
+    expect(status).toBe(200);
+    expect(cookie).toMatch(/^cart=/);
+    expect(cart.lines).toHaveLength(1);
+    expect(cart.lines[0]).toMatchObject({
+      productId: "sofa",
+      quantity: 2,
+      unitPrice: sofa.price + 600,
+    });
+    expect(cart.itemCount).toBe(2);
+  });
+
+  it("adds to the cart named by the cookie", async () => {
+    const first = await addSofa();
+    const second = await post(
+      { intent: "add", productId: "coffee-table" },
+      first.cookie,
+    );
+    expect((second.data as Cart).id).toBe((first.data as Cart).id);
+    expect((second.data as Cart).lines).toHaveLength(2);
+  });
+
+  it("rejects unknown intents and products", async () => {
+    expect(await post({ intent: "checkout" })).toMatchObject({
+      status: 400,
+      data: { error: "Unknown intent" },
+    });
+    expect(await post("not json")).toMatchObject({ status: 400 });
+    expect(await addSofa({ productId: "bookshelf" })).toMatchObject({
+      status: 400,
+      data: { error: "Unknown product" },
+    });
+  });
+
+  it("rejects an invalid customization with its warnings", async () => {
+    expect(
+      await addSofa({
+        customization: { ...DEFAULT_CUSTOMIZATION, color: "teal" },
+      }),
+    ).toMatchObject({
+      status: 400,
+      data: {
+        error: "Invalid customization",
+        warnings: [{ field: "color", value: "teal" }],
+      },
+    });
+  });
+
+  it("rejects a combination the option rules forbid", async () => {
+    expect(
+      await addSofa({
+        customization: {
+          ...DEFAULT_CUSTOMIZATION,
+          color: "#FFFFFF",
+          material: "leather",
+          pattern: "stripes",
+        },
+      }),
+    ).toMatchObject({
+      status: 400,
+      data: {
+        error: "Unavailable combination",
+        violations: ["options.sofaLeatherColors", "options.leatherPatterns"],
+      },
+    });
+  });
+
+  it("rejects quantities outside 1 to 10", async () => {
+    for (const quantity of [0, 11, 1.5, "two"]) {
+      expect(await addSofa({ quantity })).toMatchObject({
+        status: 400,
+        data: { error: "Invalid quantity" },
+      });
+    }
+  });
+
+  it("stores nothing for a rejected request", async () => {
+    await addSofa({ quantity: 0 });
+    await addSofa({ productId: "bookshelf" });
+    expect(await storedCarts()).toEqual({});
+  });
+
+  it("answers 404 when removing without a cart", async () => {
+    expect(await post({ intent: "remove", lineId: "line" })).toMatchObject({
+      status: 404,
+    });
+  });
+});
@@ -0,0 +1,105 @@
+import { createCookie, data } from "react-router";
+import { getCartAdapter } from "~/.server/cart";
+import { getProductOptions } from "~/.server/product-options";
+import { CartNotFoundError, summarizeCart, type Cart } from "~/commerce/cart";
+import { getProduct } from "~/products/catalog";
+import { validateCustomization } from "~/products/configuration";
+import { getOptionViolations } from "~/products/options";
+import { getConfiguredPrice, PRICE_CURRENCY } from "~/products/pricing";
+import type { Route } from "./+types/cart";
+
+const cartCookie = createCookie("cart", {
+  httpOnly: true,
+  sameSite: "lax",
+  path: "/",
+  maxAge: 60 * 60 * 24 * 30,
+});
+
+const MAX_QUANTITY = 10;
+
+const findCart = async (request: Request): Promise<Cart | null> => {
+  const cartId = await cartCookie.parse(request.headers.get("Cookie"));
+  return typeof cartId === "string" ? getCartAdapter().getCart(cartId) : null;
+};
+
+const withCookie = async (cart: Cart) =>
+  data(cart, {
+    headers: { "Set-Cookie": await cartCookie.serialize(cart.id) },
+  });
+
+// Reading never creates a cart, visitors get one with their first item
+export async function loader({ request }: Route.LoaderArgs) {
+  const cart = await findCart(request);
+  return cart ? withCookie(cart) : summarizeCart("", [], PRICE_CURRENCY);
+}
+
+export async function action({ request }: Route.ActionArgs) {
+  const body = await request.json().catch(() => null);
+  const adapter = getCartAdapter();
+
+  try {
+    // Removing never creates a cart, there is nothing to remove from
+    if (body?.intent === "remove" && typeof body.lineId === "string") {
+      const cart = await findCart(request);
+      if (!cart) {
+        throw data({ error: "Cart not found" }, { status: 404 });
+      }
+      return withCookie(await adapter.removeLine(cart.id, body.lineId));
+    }
+    if (body?.intent !== "add") {
+      throw data({ error: "Unknown intent" }, { status: 400 });
+    }
+
+    const product = getProduct(body.productId);
+    if (!product) {
+      throw data({ error: "Unknown product" }, { status: 400 });
+    }
+    const raw = body.customization ?? {};
+    const { customization, warnings } = validateCustomization(
+      {
+        color: raw.color != null ? String(raw.color) : null,
+        scale: raw.scale != null ? String(raw.scale) : null,
+        pattern: raw.pattern != null ? String(raw.pattern) : null,
+        material: raw.material != null ? String(raw.material) : null,
+      },
+      product,
+    );
+    if (warnings.length > 0) {
+      throw data({ error: "Invalid customization", warnings }, { status: 400 });
+    }
+    const options = await getProductOptions(product.id);
+    const violations = getOptionViolations(options, customization);
+    if (violations.length > 0) {
+      throw data(
+        { error: "Unavailable combination", violations },
+        { status: 400 },
+      );
+    }
+    const quantity = Number(body.quantity ?? 1);
+    if (
+      !Number.isInteger(quantity) ||
+      quantity < 1 ||
+      quantity > MAX_QUANTITY
+    ) {
+      throw data({ error: "Invalid quantity" }, { status: 400 });
+    }
+
+    // Only a valid line gets a cart, so malformed requests store nothing
+    const cart = (await findCart(request)) ?? (await adapter.createCart());
+    // Prices always come from the catalog, never from the client
+    const updated = await adapter.addLine(cart.id, {
+      productId: product.id,
+      productName: product.name,
+      customization,
+      unitPrice: getConfiguredPrice(product, customization, options),
+      currency: PRICE_CURRENCY,
+      quantity,
+    });
+    return withCookie(updated);
+  } catch (error) {
+    if (error instanceof CartNotFoundError) {
+      throw data({ error: error.message }, { status: 404 });
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,17 @@
+import { readDecoder } from "~/.server/decoders";
+import type { Route } from "./+types/decoder";
+
+// Self-hosted model decoders, so compressed models never pull code from a
+// third-party CDN
+export async function loader({ params }: Route.LoaderArgs) {
+  const decoder = await readDecoder(params.file);
+  if (!decoder) {
+    throw new Response("Not found", { status: 404 });
+  }
+  return new Response(new Uint8Array(decoder.data), {
+    headers: {
+      "Content-Type": decoder.contentType,
+      "Cache-Control": "public, max-age=86400",
+    },
+  });
+}
@@ -0,0 +1,60 @@
+import { data } from "react-router";
+import { getProductAssets } from "~/.server/asset-manifest";
+import { getEmbedAllowedOrigins, getFrameAncestors } from "~/.server/embed";
+import { getProductOptions } from "~/.server/product-options";
+import EmbedViewer from "~/embed/embed-viewer";
+import { getProduct } from "~/products/catalog";
+import type { Route } from "./+types/embed";
+
+// Chrome-less viewer for partner iframes, usually injected by /embed.js
+export async function loader({ params }: Route.LoaderArgs) {
+  const product = getProduct(params.productId);
+  if (!product) {
+    throw data(null, { status: 404, statusText: "Product not found" });
+  }
+  const allowedOrigins = getEmbedAllowedOrigins();
+  return data(
+    {
+      product,
+      options: await getProductOptions(product.id),
+      assets: await getProductAssets(product.id),
+      allowedOrigins,
+    },
+    {
+      headers: {
+        "Content-Security-Policy": getFrameAncestors(allowedOrigins),
+      },
+    },
+  );
+}
+
+export const headers: Route.HeadersFunction = ({
+  parentHeaders,
+  loaderHeaders,
+}) => {
+  const headers = new Headers(parentHeaders);
+  const policy = loaderHeaders.get("Content-Security-Policy");
+  if (policy) {
+    headers.set("Content-Security-Policy", policy);
+  }
+  return headers;
+};
+
+// Tells the root layout to leave out the consent banner
+export const handle = { chrome: false };
+
+export function meta({ data }: Route.MetaArgs) {
+  return [{ title: data ? `${data.product.name} in AR` : "Product not found" }];
+}
+
+export default function Embed({ loaderData }: Route.ComponentProps) {
+  return (
+    <EmbedViewer
+      key={loaderData.product.id}
+      product={loaderData.product}
+      options={loaderData.options}
+      assets={loaderData.assets}
+      allowedOrigins={loaderData.allowedOrigins}
+    />
+  );
+}
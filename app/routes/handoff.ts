@@ -0,0 +1,26 @@
+import { data } from "react-router";
+import { getHandoff, isHandoffStatus, reportHandoff } from "~/.server/handoff";
+import type { Route } from "./+types/handoff";
+
+const SESSION_ID_PATTERN = /^[A-Za-z0-9-]{8,64}$/;
+
+const assertSessionId = (sessionId: string) => {
+  if (!SESSION_ID_PATTERN.test(sessionId)) {
+    throw data({ error: "Invalid session id" }, { status: 400 });
+  }
+};
+
+export function loader({ params }: Route.LoaderArgs) {
+  assertSessionId(params.sessionId);
+  return getHandoff(params.sessionId);
+}
+
+export async function action({ params, request }: Route.ActionArgs) {
+  assertSessionId(params.sessionId);
+  const body = await request.json().catch(() => null);
+  if (!body || !isHandoffStatus(body.status)) {
+    throw data({ error: "Invalid status" }, { status: 400 });
+  }
+  const productId = typeof body.productId === "string" ? body.productId : null;
+  return reportHandoff(params.sessionId, body.status, productId);
+}
@@ -1,6 +1,23 @@
+import { getProductAssets } from "~/.server/asset-manifest";
+import { isFeatureAuthoringEnabled } from "~/.server/feature-authoring";
+import { getProductOptions } from "~/.server/product-options";
+import { DEFAULT_PRODUCT_ID, getProduct } from "~/products/catalog";
 import ProductARViewer from "~/welcome/welcome";
 import type { Route } from "./+types/home";
 
+export async function loader() {
+  const product = getProduct(DEFAULT_PRODUCT_ID);
+  if (!product) {
+    throw new Error(`Default product "${DEFAULT_PRODUCT_ID}" is missing`);
+  }
+  return {
+    product,
+    options: await getProductOptions(product.id),
+    assets: await getProductAssets(product.id),
+    authoring: isFeatureAuthoringEnabled(),
+  };
+}
+
 export function meta({}: Route.MetaArgs) {
   return [
     { title: "New React Router App" },
@@ -8,6 +25,13 @@ export function meta({}: Route.MetaArgs) {
   ];
 }
 
-export default function Home() {
-  return <ProductARViewer />;
+export default function Home({ loaderData }: Route.ComponentProps) {
+  return (
+    <ProductARViewer
+      product={loaderData.product}
+      options={loaderData.options}
+      assets={loaderData.assets}
+      authoring={loaderData.authoring}
+    />
+  );
 }
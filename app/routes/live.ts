@@ -0,0 +1,133 @@
+import { data } from "react-router";
+import { getLiveBroker, LiveSessionError } from "~/.server/live-broker";
+import {
+  LIVE_ID_PATTERN,
+  parseLiveMessage,
+  type LiveEvent,
+} from "~/live/protocol";
+import { getProduct } from "~/products/catalog";
+import { validateCustomization } from "~/products/configuration";
+import type { Route } from "./+types/live";
+
+const MAX_NAME_LENGTH = 40;
+const HEARTBEAT_MS = 25_000;
+
+const assertId = (id: string | null, what: string): string => {
+  if (!id || !LIVE_ID_PATTERN.test(id)) {
+    throw data({ error: `Invalid ${what}` }, { status: 400 });
+  }
+  return id;
+};
+
+function rethrowSessionError(error: unknown): never {
+  if (error instanceof LiveSessionError) {
+    throw data({ error: error.message }, { status: error.status });
+  }
+  throw error;
+}
+
+// Server-sent events: a snapshot on connect, then presence and updates.
+// EventSource reconnects by itself and the snapshot catches it up.
+export function loader({ params, request }: Route.LoaderArgs) {
+  const sessionId = assertId(params.sessionId, "session id");
+  const url = new URL(request.url);
+  const participantId = assertId(
+    url.searchParams.get("participant"),
+    "participant",
+  );
+  const product = getProduct(url.searchParams.get("product") ?? undefined);
+  if (!product) {
+    throw data({ error: "Unknown product" }, { status: 400 });
+  }
+  const name =
+    url.searchParams.get("name")?.trim().slice(0, MAX_NAME_LENGTH) || "Guest";
+
+  const encoder = new TextEncoder();
+  let controller!: ReadableStreamDefaultController<Uint8Array>;
+  let closed = false;
+  const write = (chunk: string) => {
+    if (!closed) controller.enqueue(encoder.encode(chunk));
+  };
+  const stream = new ReadableStream<Uint8Array>({
+    start: (streamController) => {
+      controller = streamController;
+    },
+    cancel: () => close(),
+  });
+
+  let leave: () => void;
+  try {
+    leave = getLiveBroker().join(
+      sessionId,
+      product.id,
+      { id: participantId, name, joinedAt: Date.now() },
+      (event: LiveEvent) => write(`data: ${JSON.stringify(event)}\n\n`),
+    );
+  } catch (error) {
+    rethrowSessionError(error);
+  }
+
+  // Comments keep proxies from closing an idle stream
+  const heartbeat = setInterval(() => write(": keep-alive\n\n"), HEARTBEAT_MS);
+  const close = () => {
+    if (closed) return;
+    closed = true;
+    clearInterval(heartbeat);
+    leave();
+    try {
+      controller.close();
+    } catch {
+      // Already closed by the client
+    }
+  };
+  request.signal.addEventListener("abort", close);
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      // no-transform keeps the compression middleware from buffering events
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
+
+export async function action({ params, request }: Route.ActionArgs) {
+  const sessionId = assertId(params.sessionId, "session id");
+  const body = await request.json().catch(() => null);
+  const participantId = assertId(
+    typeof body?.participant === "string" ? body.participant : null,
+    "participant",
+  );
+  const message = parseLiveMessage(body?.message, participantId);
+  if (!message) {
+    throw data({ error: "Invalid message" }, { status: 400 });
+  }
+
+  const broker = getLiveBroker();
+  // Sessions that don't exist are left to publish, which rejects them
+  const product = getProduct(broker.getProductId(sessionId) ?? undefined);
+  if (message.type === "customization" && product) {
+    const raw = message.customization;
+    const { customization, warnings } = validateCustomization(
+      {
+        color: String(raw.color ?? ""),
+        scale: String(raw.scale ?? ""),
+        pattern: String(raw.pattern ?? ""),
+        material: String(raw.material ?? ""),
+      },
+      product,
+    );
+    if (warnings.length > 0) {
+      throw data({ error: "Invalid customization", warnings }, { status: 400 });
+    }
+    message.customization = customization;
+  }
+
+  try {
+    broker.publish(sessionId, participantId, message);
+  } catch (error) {
+    rethrowSessionError(error);
+  }
+  return { ok: true };
+}
@@ -0,0 +1,43 @@
+import { data } from "react-router";
+import { getProductAssets } from "~/.server/asset-manifest";
+import { getProductOptions } from "~/.server/product-options";
+import CompareView from "~/compare/compare-view";
+import { decodeCompareVariants } from "~/compare/compare-variants";
+import { getProduct } from "~/products/catalog";
+import type { Route } from "./+types/product-compare";
+
+export async function loader({ params, request }: Route.LoaderArgs) {
+  const product = getProduct(params.productId);
+  if (!product) {
+    throw data(null, { status: 404, statusText: "Product not found" });
+  }
+  const url = new URL(request.url);
+  return {
+    product,
+    options: await getProductOptions(product.id),
+    assets: await getProductAssets(product.id),
+    variants: decodeCompareVariants(url.searchParams, product),
+  };
+}
+
+export function meta({ data }: Route.MetaArgs) {
+  if (!data) {
+    return [{ title: "Product not found" }];
+  }
+  return [
+    { title: `Compare ${data.product.name}` },
+    { name: "description", content: data.product.description },
+  ];
+}
+
+export default function ProductCompare({ loaderData }: Route.ComponentProps) {
+  return (
+    <CompareView
+      key={loaderData.product.id}
+      product={loaderData.product}
+      options={loaderData.options}
+      assets={loaderData.assets}
+      initialVariants={loaderData.variants}
+    />
+  );
+}
@@ -0,0 +1,16 @@
+import { renderPosterSvg } from "~/.server/poster";
+import { getProduct } from "~/products/catalog";
+import type { Route } from "./+types/product-poster";
+
+export function loader({ params }: Route.LoaderArgs) {
+  const product = getProduct(params.productId);
+  if (!product) {
+    throw new Response("Not found", { status: 404 });
+  }
+  return new Response(renderPosterSvg(product), {
+    headers: {
+      "Content-Type": "image/svg+xml",
+      "Cache-Control": "public, max-age=86400",
+    },
+  });
+}
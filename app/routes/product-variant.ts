@@ -0,0 +1,59 @@
+import {
+  AssetNotFoundError,
+  getVariant,
+  VARIANT_CONTENT_TYPES,
+  type VariantFormat,
+} from "~/.server/variants";
+import { getProduct } from "~/products/catalog";
+import { DEFAULT_LOCALE, formatMessage, getMessages } from "~/i18n/locale";
+import { validateCustomization } from "~/products/configuration";
+import type { Route } from "./+types/product-variant";
+
+const ASSET_PATTERN = /^model\.(glb|usdz)$/;
+
+export async function loader({ params, request }: Route.LoaderArgs) {
+  const product = getProduct(params.productId);
+  const asset = ASSET_PATTERN.exec(params.asset);
+  if (!product || !asset) {
+    throw new Response("Not found", { status: 404 });
+  }
+
+  // Generated files are cached per variant, so reject rather than fall back
+  const searchParams = new URL(request.url).searchParams;
+  const { customization, warnings } = validateCustomization(
+    {
+      color: searchParams.get("color"),
+      scale: searchParams.get("scale"),
+      pattern: searchParams.get("pattern"),
+      material: searchParams.get("material"),
+    },
+    product,
+  );
+  if (warnings.length > 0) {
+    const messages = getMessages(DEFAULT_LOCALE);
+    const details = warnings
+      .map(
+        (warning) =>
+          `${warning.field}: ${formatMessage(messages, warning.message, warning.values)}`,
+      )
+      .join("; ");
+    throw new Response(`Invalid customization (${details})`, { status: 400 });
+  }
+
+  const format = asset[1] as VariantFormat;
+  try {
+    const variant = await getVariant(product, format, customization);
+    return new Response(new Uint8Array(variant.data), {
+      headers: {
+        "Content-Type": VARIANT_CONTENT_TYPES[format],
+        "Cache-Control": "public, max-age=86400",
+        ETag: `"${variant.key}"`,
+      },
+    });
+  } catch (error) {
+    if (error instanceof AssetNotFoundError) {
+      throw new Response(error.message, { status: 404 });
+    }
+    throw error;
+  }
+}
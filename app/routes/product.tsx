@@ -0,0 +1,42 @@
+import { data } from "react-router";
+import { getProductAssets } from "~/.server/asset-manifest";
+import { isFeatureAuthoringEnabled } from "~/.server/feature-authoring";
+import { getProductOptions } from "~/.server/product-options";
+import { getProduct } from "~/products/catalog";
+import ProductARViewer from "~/welcome/welcome";
+import type { Route } from "./+types/product";
+
+export async function loader({ params }: Route.LoaderArgs) {
+  const product = getProduct(params.productId);
+  if (!product) {
+    throw data(null, { status: 404, statusText: "Product not found" });
+  }
+  return {
+    product,
+    options: await getProductOptions(product.id),
+    assets: await getProductAssets(product.id),
+    authoring: isFeatureAuthoringEnabled(),
+  };
+}
+
+export function meta({ data }: Route.MetaArgs) {
+  if (!data) {
+    return [{ title: "Product not found" }];
+  }
+  return [
+    { title: `${data.product.name} in AR` },
+    { name: "description", content: data.product.description },
+  ];
+}
+
+export default function Product({ loaderData }: Route.ComponentProps) {
+  return (
+    <ProductARViewer
+      key={loaderData.product.id}
+      product={loaderData.product}
+      options={loaderData.options}
+      assets={loaderData.assets}
+      authoring={loaderData.authoring}
+    />
+  );
+}
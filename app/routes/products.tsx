@@ -0,0 +1,48 @@
+import { Link } from "react-router";
+import { useI18n } from "~/i18n/i18n-context";
+import { getDefaultUnitSystem } from "~/i18n/locale";
+import { listProducts } from "~/products/catalog";
+import { DEFAULT_UNITS, formatLength } from "~/products/units";
+import type { Route } from "./+types/products";
+
+export function loader() {
+  return { products: listProducts() };
+}
+
+export function meta({}: Route.MetaArgs) {
+  return [
+    { title: "Products" },
+    { name: "description", content: "Browse products and view them in AR." },
+  ];
+}
+
+export default function Products({ loaderData }: Route.ComponentProps) {
+  const { locale, t } = useI18n();
+  const unit = DEFAULT_UNITS[getDefaultUnitSystem(locale)];
+  return (
+    <div className="container">
+      <div className="info-card">
+        <h1 className="text-2xl font-bold text-gray-800">
+          {t("products.title")}
+        </h1>
+        <div className="feature-grid">
+          {loaderData.products.map((product) => (
+            <Link
+              key={product.id}
+              to={`/products/${product.id}`}
+              className="feature-item text-gray-800"
+            >
+              <h2 className="text-lg font-bold">{product.name}</h2>
+              <p className="text-sm text-gray-500">{product.description}</p>
+              <p className="mt-2 text-xs text-gray-400">
+                {formatLength(product.dimensions.width, unit, locale)} ×{" "}
+                {formatLength(product.dimensions.height, unit, locale)} ×{" "}
+                {formatLength(product.dimensions.depth, unit, locale)}
+              </p>
+            </Link>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
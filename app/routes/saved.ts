@@ -0,0 +1,78 @@
+import { randomUUID } from "node:crypto";
+import { createCookie, data } from "react-router";
+import {
+  deleteSavedConfiguration,
+  isSavedConfigurationId,
+  listSavedConfigurations,
+  sanitizeSyncedConfiguration,
+  syncSavedConfigurations,
+} from "~/.server/saved-configurations";
+import {
+  MAX_SAVED_CONFIGURATIONS,
+  type SavedSyncResult,
+  type SyncedConfiguration,
+} from "~/saved/saved-configurations";
+import type { Route } from "./+types/saved";
+
+// Anonymous: the id only ties a browser to its saved configurations
+const savedUserCookie = createCookie("saved-user", {
+  httpOnly: true,
+  sameSite: "lax",
+  path: "/",
+  maxAge: 60 * 60 * 24 * 365,
+});
+
+const findUserId = async (request: Request): Promise<string | null> => {
+  const userId = await savedUserCookie.parse(request.headers.get("Cookie"));
+  return typeof userId === "string" ? userId : null;
+};
+
+const withCookie = async <T>(userId: string, body: T) =>
+  data(body, {
+    headers: { "Set-Cookie": await savedUserCookie.serialize(userId) },
+  });
+
+// Reading never creates a user, visitors get one with their first sync
+export async function loader({ request }: Route.LoaderArgs) {
+  const userId = await findUserId(request);
+  return userId
+    ? withCookie(userId, await listSavedConfigurations(userId))
+    : [];
+}
+
+export async function action({ request }: Route.ActionArgs) {
+  const body = await request.json().catch(() => null);
+  const userId = (await findUserId(request)) ?? randomUUID();
+
+  if (body?.intent === "delete") {
+    if (!isSavedConfigurationId(body.id)) {
+      throw data({ error: "Invalid id" }, { status: 400 });
+    }
+    return withCookie(userId, await deleteSavedConfiguration(userId, body.id));
+  }
+  if (body?.intent !== "sync" || !Array.isArray(body.configurations)) {
+    throw data({ error: "Unknown intent" }, { status: 400 });
+  }
+  if (body.configurations.length > MAX_SAVED_CONFIGURATIONS) {
+    throw data({ error: "Too many configurations" }, { status: 400 });
+  }
+
+  // Entries that don't validate are left out rather than failing the sync,
+  // so one stale entry can't block the rest. Their ids go back to the
+  // device, which keeps them locally instead of adopting the merged list.
+  const uploaded: SyncedConfiguration[] = [];
+  const rejected: string[] = [];
+  for (const raw of body.configurations) {
+    const entry = sanitizeSyncedConfiguration(raw);
+    if (entry) {
+      uploaded.push(entry);
+    } else if (typeof raw?.id === "string") {
+      rejected.push(raw.id);
+    }
+  }
+  const result: SavedSyncResult = {
+    configurations: await syncSavedConfigurations(userId, uploaded),
+    rejected,
+  };
+  return withCookie(userId, result);
+}
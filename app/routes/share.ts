@@ -0,0 +1,16 @@
+import { redirect } from "react-router";
+import { decodeCompactConfiguration } from "~/products/configuration";
+import type { Route } from "./+types/share";
+
+// Short links (/s/<token>) keep QR codes small; the product page decodes the
+// same token from its `c` parameter.
+export function loader({ params, request }: Route.LoaderArgs) {
+  const decoded = decodeCompactConfiguration(params.token);
+  if (!decoded) {
+    throw new Response("Invalid share link", { status: 404 });
+  }
+  // Forward extra parameters such as the QR handoff session
+  const search = new URL(request.url).searchParams;
+  search.set("c", params.token);
+  return redirect(`/products/${decoded.configuration.productId}?${search}`);
+}
@@ -0,0 +1,52 @@
+import type { ProductConfiguration } from '~/products/configuration';
+
+// A named configuration the visitor chose to keep, e.g. "Sofa for the den".
+// Kept on the device and, when sync is on, mirrored to the `/saved` route
+// under an anonymous id so it survives cleared storage.
+
+export const MAX_NAME_LENGTH = 80;
+export const MAX_SAVED_CONFIGURATIONS = 50;
+
+interface SavedConfigurationFields {
+    id: string;
+    name: string;
+    productName: string;
+    configuration: ProductConfiguration;
+    createdAt: number;
+    updatedAt: number;
+}
+
+// On the device the thumbnail stays a Blob, which IndexedDB stores natively
+export interface SavedConfiguration extends SavedConfigurationFields {
+    thumbnail: Blob | null;
+}
+
+// Over the wire and on the server it is a data URL
+export interface SyncedConfiguration extends SavedConfigurationFields {
+    thumbnail: string | null;
+}
+
+// Answer to a sync: the merged list, and the ids of uploaded entries the
+// server couldn't validate and left out of it
+export interface SavedSyncResult {
+    configurations: SyncedConfiguration[];
+    rejected: string[];
+}
+
+// Newest edit wins per id, results are newest first and capped
+export const mergeSavedConfigurations = <
+    T extends { id: string; updatedAt: number },
+>(
+    ...lists: T[][]
+): T[] => {
+    const byId = new Map<string, T>();
+    for (const entry of lists.flat()) {
+        const existing = byId.get(entry.id);
+        if (!existing || entry.updatedAt > existing.updatedAt) {
+            byId.set(entry.id, entry);
+        }
+    }
+    return [...byId.values()]
+        .sort((a, b) => b.updatedAt - a.updatedAt)
+        .slice(0, MAX_SAVED_CONFIGURATIONS);
+};
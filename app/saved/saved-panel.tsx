@@ -0,0 +1,236 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Link } from 'react-router';
+import { useI18n } from '~/i18n/i18n-context';
+import type { Product } from '~/products/catalog';
+import {
+    encodeCompactConfiguration,
+    type ProductConfiguration,
+} from '~/products/configuration';
+import {
+    MAX_NAME_LENGTH,
+    type SavedConfiguration,
+} from './saved-configurations';
+import {
+    deleteSavedConfiguration,
+    listSavedConfigurations,
+    replaceSavedConfigurations,
+    saveConfiguration,
+} from './saved-store';
+import {
+    deleteSyncedConfiguration,
+    isSyncEnabled,
+    setSyncEnabled,
+    syncSavedConfigurations,
+} from './saved-sync';
+
+interface SavedPanelProps {
+    product: Product;
+    configuration: ProductConfiguration;
+    captureThumbnail: () => Promise<Blob | null>;
+    onRestore: (configuration: ProductConfiguration) => void;
+}
+
+// Named configurations across all products, doubling as a wishlist.
+// Entries for other products link to their page instead of restoring here.
+export default function SavedPanel({
+    product,
+    configuration,
+    captureThumbnail,
+    onRestore,
+}: SavedPanelProps) {
+    const { t } = useI18n();
+    const [saved, setSaved] = useState<SavedConfiguration[]>([]);
+    const [thumbnails, setThumbnails] = useState<Record<string, string>>({});
+    const [name, setName] = useState('');
+    const [saving, setSaving] = useState(false);
+    const [sync, setSync] = useState(false);
+    const [status, setStatus] = useState('');
+
+    const runSync = useCallback(async () => {
+        try {
+            const merged = await syncSavedConfigurations(
+                await listSavedConfigurations()
+            );
+            await replaceSavedConfigurations(merged);
+            setSaved(merged);
+        } catch (error) {
+            console.error('Syncing saved configurations failed:', error);
+            setStatus(t('saved.syncFailed'));
+        }
+    }, [t]);
+
+    useEffect(() => {
+        listSavedConfigurations()
+            .then(setSaved)
+            .catch((error) =>
+                console.error('Loading saved configurations failed:', error)
+            );
+        const enabled = isSyncEnabled();
+        setSync(enabled);
+        if (enabled) runSync();
+    }, []);
+
+    useEffect(() => {
+        const urls: Record<string, string> = {};
+        saved.forEach((entry) => {
+            if (entry.thumbnail) {
+                urls[entry.id] = URL.createObjectURL(entry.thumbnail);
+            }
+        });
+        setThumbnails(urls);
+        return () => Object.values(urls).forEach(URL.revokeObjectURL);
+    }, [saved]);
+
+    const handleSave = async () => {
+        const trimmed = name.trim();
+        if (!trimmed) return;
+        setSaving(true);
+        setStatus('');
+        try {
+            // A missing thumbnail isn't worth losing the configuration over
+            const thumbnail = await captureThumbnail().catch((error) => {
+                console.error('Thumbnail capture failed:', error);
+                return null;
+            });
+            const entry = await saveConfiguration({
+                name: trimmed.slice(0, MAX_NAME_LENGTH),
+                productName: product.name,
+                configuration,
+                thumbnail,
+            });
+            setSaved((current) => [entry, ...current]);
+            setName('');
+            setStatus(t('saved.saved', { name: entry.name }));
+            if (sync) await runSync();
+        } catch (error) {
+            console.error('Saving configuration failed:', error);
+            setStatus(t('saved.failed'));
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleDelete = async (entry: SavedConfiguration) => {
+        try {
+            await deleteSavedConfiguration(entry.id);
+            setSaved((current) =>
+                current.filter((candidate) => candidate.id !== entry.id)
+            );
+            if (sync) await deleteSyncedConfiguration(entry.id);
+        } catch (error) {
+            console.error('Deleting configuration failed:', error);
+            setStatus(t('saved.deleteFailed'));
+        }
+    };
+
+    const handleSyncChange = (enabled: boolean) => {
+        setSyncEnabled(enabled);
+        setSync(enabled);
+        setStatus('');
+        if (enabled) runSync();
+    };
+
+    return (
+        <div className='info-card saved-panel'>
+            <h3
+                style={{
+                    margin: '0 0 12px 0',
+                    fontSize: '16px',
+                    fontWeight: '700',
+                    color: '#1f2937',
+                }}
+            >
+                ♡ {t('saved.title')}
+            </h3>
+            <div className='saved-panel-actions'>
+                <input
+                    type='text'
+                    aria-label={t('saved.name')}
+                    placeholder={t('saved.namePlaceholder')}
+                    maxLength={MAX_NAME_LENGTH}
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    onKeyDown={(e) => {
+                        if (e.key === 'Enter') handleSave();
+                    }}
+                />
+                <button
+                    className='button-secondary'
+                    onClick={handleSave}
+                    disabled={saving || !name.trim()}
+                >
+                    {saving ? t('saved.saving') : t('saved.save')}
+                </button>
+            </div>
+            <label className='space-panel-checkbox'>
+                <input
+                    type='checkbox'
+                    checked={sync}
+                    onChange={(e) => handleSyncChange(e.target.checked)}
+                />
+                {t('saved.sync')}
+            </label>
+            <p className='saved-panel-status' role='status'>
+                {status}
+            </p>
+
+            {saved.length === 0 ? (
+                <p className='saved-panel-empty'>{t('saved.empty')}</p>
+            ) : (
+                <ul className='saved-panel-list'>
+                    {saved.map((entry) => {
+                        const isThisProduct =
+                            entry.configuration.productId === product.id;
+                        return (
+                            <li key={entry.id}>
+                                {thumbnails[entry.id] ? (
+                                    <img
+                                        src={thumbnails[entry.id]}
+                                        alt=''
+                                        width={64}
+                                        height={64}
+                                    />
+                                ) : (
+                                    <span
+                                        className='saved-panel-placeholder'
+                                        aria-hidden='true'
+                                    />
+                                )}
+                                <div className='saved-panel-details'>
+                                    <strong>{entry.name}</strong>
+                                    <span>{entry.productName}</span>
+                                </div>
+                                {isThisProduct ? (
+                                    <button
+                                        className='button-secondary'
+                                        onClick={() =>
+                                            onRestore(entry.configuration)
+                                        }
+                                    >
+                                        {t('saved.restore')}
+                                    </button>
+                                ) : (
+                                    <Link
+                                        className='button-secondary'
+                                        to={`/products/${encodeURIComponent(entry.configuration.productId)}?c=${encodeCompactConfiguration(entry.configuration)}`}
+                                    >
+                                        {t('saved.open')}
+                                    </Link>
+                                )}
+                                <button
+                                    className='saved-panel-delete'
+                                    aria-label={t('saved.delete', {
+                                        name: entry.name,
+                                    })}
+                                    onClick={() => handleDelete(entry)}
+                                >
+                                    ×
+                                </button>
+                            </li>
+                        );
+                    })}
+                </ul>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,53 @@
+import {
+    CONFIGURATIONS_STORE,
+    createId,
+    runTransaction,
+} from '~/welcome/indexed-db';
+import type { SavedConfiguration } from './saved-configurations';
+
+// Newest first
+export const listSavedConfigurations = async (): Promise<
+    SavedConfiguration[]
+> => {
+    const saved = await runTransaction<SavedConfiguration[]>(
+        CONFIGURATIONS_STORE,
+        'readonly',
+        (store) => store.getAll()
+    );
+    return (saved ?? []).sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const saveConfiguration = async (
+    entry: Pick<
+        SavedConfiguration,
+        'name' | 'productName' | 'configuration' | 'thumbnail'
+    >
+): Promise<SavedConfiguration> => {
+    const now = Date.now();
+    const saved: SavedConfiguration = {
+        ...entry,
+        id: createId(),
+        createdAt: now,
+        updatedAt: now,
+    };
+    await runTransaction(CONFIGURATIONS_STORE, 'readwrite', (store) =>
+        store.put(saved)
+    );
+    return saved;
+};
+
+// Replaces the local copies, used after a sync
+export const replaceSavedConfigurations = async (
+    entries: SavedConfiguration[]
+): Promise<void> => {
+    await runTransaction(CONFIGURATIONS_STORE, 'readwrite', (store) => {
+        store.clear();
+        entries.forEach((entry) => store.put(entry));
+    });
+};
+
+export const deleteSavedConfiguration = async (id: string): Promise<void> => {
+    await runTransaction(CONFIGURATIONS_STORE, 'readwrite', (store) =>
+        store.delete(id)
+    );
+};
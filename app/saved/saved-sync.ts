@@ -0,0 +1,80 @@
+import {
+    mergeSavedConfigurations,
+    type SavedConfiguration,
+    type SavedSyncResult,
+    type SyncedConfiguration,
+} from './saved-configurations';
+
+const SAVED_URL = '/saved';
+const SYNC_STORAGE_KEY = 'ar-viewer:sync-saved';
+
+export const isSyncEnabled = (): boolean => {
+    try {
+        return window.localStorage.getItem(SYNC_STORAGE_KEY) === '1';
+    } catch {
+        return false;
+    }
+};
+
+export const setSyncEnabled = (enabled: boolean): void => {
+    window.localStorage.setItem(SYNC_STORAGE_KEY, enabled ? '1' : '0');
+};
+
+const blobToDataUrl = (blob: Blob): Promise<string> =>
+    new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(blob);
+    });
+
+const toSynced = async (
+    entry: SavedConfiguration
+): Promise<SyncedConfiguration> => ({
+    ...entry,
+    thumbnail: entry.thumbnail ? await blobToDataUrl(entry.thumbnail) : null,
+});
+
+const fromSynced = async (
+    entry: SyncedConfiguration
+): Promise<SavedConfiguration> => ({
+    ...entry,
+    thumbnail: entry.thumbnail
+        ? await (await fetch(entry.thumbnail)).blob()
+        : null,
+});
+
+const postSaved = async <T>(body: unknown): Promise<T> => {
+    const response = await fetch(SAVED_URL, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+    });
+    if (!response.ok) {
+        throw new Error(
+            `Saved configurations request failed: ${response.status}`
+        );
+    }
+    return response.json();
+};
+
+// Sends everything on the device and gets back the merged list, so one
+// round trip both uploads and downloads. Entries the server rejected are
+// kept on the device rather than lost with the merged list.
+export const syncSavedConfigurations = async (
+    local: SavedConfiguration[]
+): Promise<SavedConfiguration[]> => {
+    const { configurations, rejected } = await postSaved<SavedSyncResult>({
+        intent: 'sync',
+        configurations: await Promise.all(local.map(toSynced)),
+    });
+    const rejectedIds = new Set(rejected);
+    return mergeSavedConfigurations(
+        await Promise.all(configurations.map(fromSynced)),
+        local.filter((entry) => rejectedIds.has(entry.id))
+    );
+};
+
+export const deleteSyncedConfiguration = async (id: string): Promise<void> => {
+    await postSaved({ intent: 'delete', id });
+};
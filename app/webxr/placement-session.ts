@@ -0,0 +1,506 @@
+import * as THREE from 'three';
+import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
+import type { Product } from '~/products/catalog';
+import type { Customization } from '~/products/customization';
+import { TapeMeasure, type TapeMeasurement } from './tape-measure';
+
+// Custom WebXR `immersive-ar` session built on three.js. Unlike model-viewer's
+// built-in AR it can place several catalog products in one session, on floors
+// or walls, which is what room planning needs.
+
+export type PlacementSurface = 'floor' | 'wall';
+
+// Tapping either places the active product or drops tape-measure points
+export type PlacementTool = 'place' | 'measure';
+
+export interface PlacedObject {
+    id: string;
+    productId: string;
+    name: string;
+    surface: PlacementSurface;
+    rotation: number; // degrees around the surface normal
+}
+
+export interface PlacementSnapshot {
+    objects: PlacedObject[];
+    selectedId: string | null;
+    // Surface currently under the reticle, null while searching
+    target: PlacementSurface | 'other' | null;
+    tool: PlacementTool;
+    measurements: TapeMeasurement[];
+    // Running distance while the second tape-measure point is pending
+    liveDistance: number | null;
+}
+
+export interface PlacementSessionCallbacks {
+    onChange: (snapshot: PlacementSnapshot) => void;
+    onMeasure?: (measurement: TapeMeasurement) => void;
+    onEnd: () => void;
+}
+
+const GRID_SNAP_METERS = 0.05;
+const ROTATION_SNAP_DEGREES = 15;
+// Normal.y thresholds telling floors (pointing up) from walls (horizontal)
+const FLOOR_MIN_NORMAL_Y = 0.7;
+const WALL_MAX_NORMAL_Y = 0.3;
+// Live distance changes smaller than this don't re-render the overlay
+const LIVE_DISTANCE_STEP = 0.005;
+
+interface PlacedEntry {
+    info: PlacedObject;
+    object: THREE.Object3D;
+}
+
+const snapTo = (value: number, step: number): number =>
+    Math.round(value / step) * step;
+
+// Snaps a point to the grid along two axes lying in its surface, so it moves
+// along the floor or wall instead of off it: world x and z on floors, along
+// the wall and up it on walls
+const snapInPlane = (
+    point: THREE.Vector3,
+    normal: THREE.Vector3,
+    step: number
+): void => {
+    const reference =
+        Math.abs(normal.y) >= FLOOR_MIN_NORMAL_Y
+            ? new THREE.Vector3(1, 0, 0)
+            : new THREE.Vector3(0, 1, 0);
+    const first = new THREE.Vector3()
+        .crossVectors(normal, reference)
+        .normalize();
+    const second = new THREE.Vector3().crossVectors(normal, first).normalize();
+    for (const axis of [first, second]) {
+        const offset = point.dot(axis);
+        point.addScaledVector(axis, snapTo(offset, step) - offset);
+    }
+};
+
+const createReticle = (): THREE.Mesh => {
+    const geometry = new THREE.RingGeometry(0.08, 0.1, 32).rotateX(
+        -Math.PI / 2
+    );
+    const reticle = new THREE.Mesh(
+        geometry,
+        new THREE.MeshBasicMaterial({ color: 0xffffff })
+    );
+    reticle.matrixAutoUpdate = false;
+    reticle.visible = false;
+    return reticle;
+};
+
+export class PlacementSession {
+    private renderer: THREE.WebGLRenderer | null = null;
+    private session: XRSession | null = null;
+    private hitTestSource: XRHitTestSource | null = null;
+    private readonly scene = new THREE.Scene();
+    private readonly camera = new THREE.PerspectiveCamera();
+    private readonly reticle = createReticle();
+    private readonly loader = new GLTFLoader();
+    private readonly templates = new Map<string, Promise<THREE.Object3D>>();
+    private readonly placed = new Map<string, PlacedEntry>();
+    private readonly raycaster = new THREE.Raycaster();
+    private readonly tape = new TapeMeasure();
+
+    private activeProduct: Product | null = null;
+    private activeCustomization: Customization | null = null;
+    private surface: PlacementSurface = 'floor';
+    private snapping = true;
+    private tool: PlacementTool = 'place';
+    private selectedId: string | null = null;
+    private target: PlacementSurface | 'other' | null = null;
+    private liveDistance: number | null = null;
+    private targetNormal = new THREE.Vector3(0, 1, 0);
+
+    constructor(private readonly callbacks: PlacementSessionCallbacks) {
+        this.scene.add(new THREE.HemisphereLight(0xffffff, 0xbbbbff, 2));
+        const light = new THREE.DirectionalLight(0xffffff, 1.5);
+        light.position.set(1, 4, 2);
+        this.scene.add(light);
+        this.scene.add(this.reticle);
+        this.scene.add(this.tape.group);
+    }
+
+    static async isSupported(): Promise<boolean> {
+        const xr = (navigator as Navigator & { xr?: XRSystem }).xr;
+        if (!xr) return false;
+        try {
+            return await xr.isSessionSupported('immersive-ar');
+        } catch {
+            return false;
+        }
+    }
+
+    // Must be called from a user gesture
+    async start(overlay: HTMLElement): Promise<void> {
+        const xr = (navigator as Navigator & { xr?: XRSystem }).xr;
+        if (!xr) {
+            throw new Error('WebXR is not available');
+        }
+
+        const session = await xr.requestSession('immersive-ar', {
+            requiredFeatures: ['hit-test'],
+            optionalFeatures: ['dom-overlay'],
+            domOverlay: { root: overlay },
+        });
+        this.session = session;
+
+        const renderer = new THREE.WebGLRenderer({
+            alpha: true,
+            antialias: true,
+        });
+        renderer.setPixelRatio(window.devicePixelRatio);
+        renderer.setSize(window.innerWidth, window.innerHeight);
+        renderer.xr.enabled = true;
+        renderer.xr.setReferenceSpaceType('local');
+        renderer.domElement.style.display = 'none';
+        document.body.appendChild(renderer.domElement);
+        this.renderer = renderer;
+
+        await renderer.xr.setSession(session);
+
+        const viewerSpace = await session.requestReferenceSpace('viewer');
+        this.hitTestSource =
+            (await session.requestHitTestSource?.({ space: viewerSpace })) ??
+            null;
+
+        session.addEventListener('select', this.handleSelect);
+        session.addEventListener('end', this.handleEnd);
+        renderer.setAnimationLoop(this.render);
+        this.emit();
+    }
+
+    end(): void {
+        this.session?.end().catch(() => this.handleEnd());
+    }
+
+    setActiveProduct(product: Product, customization: Customization): void {
+        this.activeProduct = product;
+        this.activeCustomization = customization;
+        // Start downloading before the user taps
+        this.getTemplate(product, customization).catch((error) =>
+            console.error(`Loading ${product.name} failed:`, error)
+        );
+    }
+
+    setSurface(surface: PlacementSurface): void {
+        this.surface = surface;
+    }
+
+    setSnapping(enabled: boolean): void {
+        this.snapping = enabled;
+    }
+
+    setTool(tool: PlacementTool): void {
+        if (tool === this.tool) return;
+        this.tool = tool;
+        this.tape.cancel();
+        this.liveDistance = null;
+        this.selectedId = null;
+        this.emit();
+    }
+
+    cancelMeasurement(): void {
+        this.tape.cancel();
+        this.liveDistance = null;
+        this.emit();
+    }
+
+    removeMeasurement(id: string): void {
+        this.tape.remove(id);
+        this.emit();
+    }
+
+    select(id: string | null): void {
+        this.selectedId = id && this.placed.has(id) ? id : null;
+        this.emit();
+    }
+
+    rotateSelected(degrees: number): void {
+        const entry = this.selectedId && this.placed.get(this.selectedId);
+        if (!entry) return;
+        const rotation = entry.info.rotation + degrees;
+        this.setRotation(entry, rotation);
+    }
+
+    // Ends a twist gesture on the nearest snap angle
+    snapSelectedRotation(): void {
+        const entry = this.selectedId && this.placed.get(this.selectedId);
+        if (!entry || !this.snapping) return;
+        this.setRotation(
+            entry,
+            snapTo(entry.info.rotation, ROTATION_SNAP_DEGREES)
+        );
+    }
+
+    removeSelected(): void {
+        const entry = this.selectedId && this.placed.get(this.selectedId);
+        if (!entry) return;
+        this.scene.remove(entry.object);
+        this.placed.delete(entry.info.id);
+        this.selectedId = null;
+        this.emit();
+    }
+
+    private emit(): void {
+        this.callbacks.onChange({
+            objects: [...this.placed.values()].map((entry) => entry.info),
+            selectedId: this.selectedId,
+            target: this.target,
+            tool: this.tool,
+            measurements: this.tape.measurements,
+            liveDistance: this.liveDistance,
+        });
+    }
+
+    private setRotation(entry: PlacedEntry, rotation: number): void {
+        const normalized = ((rotation % 360) + 360) % 360;
+        entry.info = { ...entry.info, rotation: normalized };
+        // The model is the first child, turned inside its oriented pivot
+        // around the surface normal (pivot Y on floors, pivot Z on walls)
+        const axis = entry.info.surface === 'wall' ? 'z' : 'y';
+        entry.object.children[0].rotation[axis] =
+            THREE.MathUtils.degToRad(normalized);
+        this.emit();
+    }
+
+    private getTemplate(
+        product: Product,
+        customization: Customization
+    ): Promise<THREE.Object3D> {
+        const key = `${product.id}|${customization.color}|${customization.scale}`;
+        let template = this.templates.get(key);
+        if (!template) {
+            template = this.loader.loadAsync(product.modelUrl).then((gltf) => {
+                const model = gltf.scene;
+                model.scale.setScalar(customization.scale);
+                model.traverse((child) => {
+                    const mesh = child as THREE.Mesh;
+                    if (!mesh.isMesh) return;
+                    const tint = (material: THREE.Material) => {
+                        const tinted = material.clone();
+                        if ('color' in tinted) {
+                            (tinted as THREE.MeshStandardMaterial).color.set(
+                                customization.color
+                            );
+                        }
+                        return tinted;
+                    };
+                    mesh.material = Array.isArray(mesh.material)
+                        ? mesh.material.map(tint)
+                        : tint(mesh.material);
+                });
+
+                // Move the pivot to the bottom centre of the bounding box
+                const box = new THREE.Box3().setFromObject(model);
+                const center = box.getCenter(new THREE.Vector3());
+                model.position.set(-center.x, -box.min.y, -center.z);
+                const pivot = new THREE.Group();
+                pivot.add(model);
+                pivot.userData.depth = box.max.z - box.min.z;
+                return pivot;
+            });
+            this.templates.set(key, template);
+            // A failed load is retried on the next placement
+            const loading = template;
+            loading.catch(() => {
+                if (this.templates.get(key) === loading) {
+                    this.templates.delete(key);
+                }
+            });
+        }
+        return template;
+    }
+
+    private readonly handleSelect = (event: XRInputSourceEvent): void => {
+        const referenceSpace = this.renderer?.xr.getReferenceSpace();
+        if (!referenceSpace) return;
+
+        if (this.tool === 'measure') {
+            if (!this.reticle.visible) return;
+            const measurement = this.tape.addPoint(
+                new THREE.Vector3().setFromMatrixPosition(this.reticle.matrix)
+            );
+            this.liveDistance = measurement ? null : 0;
+            if (measurement) {
+                this.callbacks.onMeasure?.(measurement);
+            }
+            this.emit();
+            return;
+        }
+
+        // Tapping a placed object selects it instead of placing another
+        const rayPose = event.frame.getPose(
+            event.inputSource.targetRaySpace,
+            referenceSpace
+        );
+        if (rayPose) {
+            const matrix = new THREE.Matrix4().fromArray(
+                rayPose.transform.matrix
+            );
+            const origin = new THREE.Vector3().setFromMatrixPosition(matrix);
+            const direction = new THREE.Vector3(0, 0, -1)
+                .transformDirection(matrix)
+                .normalize();
+            this.raycaster.set(origin, direction);
+            const hit = this.raycaster.intersectObjects(
+                [...this.placed.values()].map((entry) => entry.object),
+                true
+            )[0];
+            if (hit) {
+                const entry = [...this.placed.values()].find((candidate) =>
+                    candidate.object.getObjectById(hit.object.id)
+                );
+                this.select(entry?.info.id ?? null);
+                return;
+            }
+        }
+
+        if (this.reticle.visible && this.activeProduct) {
+            this.placeActiveProduct().catch((error) =>
+                console.error('Placing product failed:', error)
+            );
+        }
+    };
+
+    private async placeActiveProduct(): Promise<void> {
+        const product = this.activeProduct!;
+        const customization = this.activeCustomization!;
+        const surface = this.surface;
+        const position = new THREE.Vector3().setFromMatrixPosition(
+            this.reticle.matrix
+        );
+        const normal = this.targetNormal.clone();
+
+        const template = await this.getTemplate(product, customization);
+        const model = template.clone(true);
+        const depth: number = template.userData.depth ?? 0;
+        const pivot = new THREE.Group();
+        pivot.add(model);
+
+        if (this.snapping) {
+            snapInPlane(position, normal, GRID_SNAP_METERS);
+        }
+
+        let rotation = 0;
+        if (surface === 'wall') {
+            // Back against the wall, facing out along its normal
+            pivot.position.copy(position).addScaledVector(normal, depth / 2);
+            pivot.quaternion.setFromUnitVectors(
+                new THREE.Vector3(0, 0, 1),
+                new THREE.Vector3(normal.x, 0, normal.z).normalize()
+            );
+        } else {
+            // Upright, turned to face the viewer
+            pivot.position.copy(position);
+            const cameraPosition = new THREE.Vector3().setFromMatrixPosition(
+                this.renderer!.xr.getCamera().matrixWorld
+            );
+            rotation = THREE.MathUtils.radToDeg(
+                Math.atan2(
+                    cameraPosition.x - position.x,
+                    cameraPosition.z - position.z
+                )
+            );
+            if (this.snapping) {
+                rotation = snapTo(rotation, ROTATION_SNAP_DEGREES);
+            }
+        }
+
+        const id = `${product.id}-${Date.now().toString(36)}`;
+        const entry: PlacedEntry = {
+            info: {
+                id,
+                productId: product.id,
+                name: product.name,
+                surface,
+                rotation,
+            },
+            object: pivot,
+        };
+        this.scene.add(pivot);
+        this.placed.set(id, entry);
+        this.selectedId = id;
+        this.setRotation(entry, rotation);
+    }
+
+    private readonly render = (_time: number, frame?: XRFrame): void => {
+        const renderer = this.renderer;
+        if (!renderer) return;
+
+        if (frame && this.hitTestSource) {
+            const referenceSpace = renderer.xr.getReferenceSpace();
+            const results = frame.getHitTestResults(this.hitTestSource);
+            let found: PlacementSurface | 'other' | null = null;
+
+            for (const result of results) {
+                const pose = referenceSpace && result.getPose(referenceSpace);
+                if (!pose) continue;
+                const matrix = new THREE.Matrix4().fromArray(
+                    pose.transform.matrix
+                );
+                // Hit poses point their Y axis along the surface normal
+                const normal = new THREE.Vector3()
+                    .setFromMatrixColumn(matrix, 1)
+                    .normalize();
+                const surface: PlacementSurface | 'other' =
+                    normal.y >= FLOOR_MIN_NORMAL_Y
+                        ? 'floor'
+                        : Math.abs(normal.y) <= WALL_MAX_NORMAL_Y
+                          ? 'wall'
+                          : 'other';
+                // Measuring works on any surface, placing only on the chosen one
+                if (this.tool === 'place' && surface !== this.surface) continue;
+
+                this.reticle.matrix.copy(matrix);
+                this.targetNormal.copy(normal);
+                found = surface;
+                break;
+            }
+
+            this.reticle.visible = found !== null;
+            let changed = found !== this.target;
+            this.target = found;
+
+            if (this.tape.pending) {
+                const distance = this.tape.update(
+                    found
+                        ? new THREE.Vector3().setFromMatrixPosition(
+                              this.reticle.matrix
+                          )
+                        : null
+                );
+                if (
+                    distance !== null &&
+                    Math.abs(distance - (this.liveDistance ?? 0)) >=
+                        LIVE_DISTANCE_STEP
+                ) {
+                    this.liveDistance = distance;
+                    changed = true;
+                }
+            }
+
+            if (changed) {
+                this.emit();
+            }
+        }
+
+        renderer.render(this.scene, this.camera);
+    };
+
+    private readonly handleEnd = (): void => {
+        this.session?.removeEventListener('select', this.handleSelect);
+        this.session?.removeEventListener('end', this.handleEnd);
+        this.hitTestSource?.cancel();
+        this.hitTestSource = null;
+        this.session = null;
+
+        if (this.renderer) {
+            this.renderer.setAnimationLoop(null);
+            this.renderer.dispose();
+            this.renderer.domElement.remove();
+            this.renderer = null;
+        }
+        this.callbacks.onEnd();
+    };
+}
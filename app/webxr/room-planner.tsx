@@ -0,0 +1,419 @@
+import { useEffect, useRef, useState } from 'react';
+import { listProducts, type Product } from '~/products/catalog';
+import {
+    DEFAULT_CUSTOMIZATION,
+    type Customization,
+} from '~/products/customization';
+import { formatLength, type LengthUnit } from '~/products/units';
+import { useI18n } from '~/i18n/i18n-context';
+import type { MessageKey } from '~/i18n/messages/en';
+import type { FitAxis } from '~/welcome/fit-check';
+import {
+    PlacementSession,
+    type PlacementSnapshot,
+    type PlacementSurface,
+    type PlacementTool,
+} from './placement-session';
+import type { TapeMeasurement } from './tape-measure';
+
+const ROTATE_STEP_DEGREES = 15;
+
+const EMPTY_SNAPSHOT: PlacementSnapshot = {
+    objects: [],
+    selectedId: null,
+    target: null,
+    tool: 'place',
+    measurements: [],
+    liveDistance: null,
+};
+
+const FIT_AXES: { axis: FitAxis; label: MessageKey }[] = [
+    { axis: 'width', label: 'planner.useAs.width' },
+    { axis: 'height', label: 'planner.useAs.height' },
+    { axis: 'depth', label: 'planner.useAs.depth' },
+];
+
+const touchAngle = (touches: React.TouchList): number =>
+    (Math.atan2(
+        touches[1].clientY - touches[0].clientY,
+        touches[1].clientX - touches[0].clientX
+    ) *
+        180) /
+    Math.PI;
+
+interface RoomPlannerProps {
+    product: Product;
+    customization: Customization;
+    unit: LengthUnit;
+    onUseMeasurement: (axis: FitAxis, meters: number) => void;
+}
+
+interface MeasurementListProps {
+    measurements: TapeMeasurement[];
+    unit: LengthUnit;
+    onUse: (axis: FitAxis, meters: number) => void;
+    onRemove: (id: string) => void;
+}
+
+// Each measured gap can be sent straight to the fit check as one axis
+const MeasurementList = ({
+    measurements,
+    unit,
+    onUse,
+    onRemove,
+}: MeasurementListProps) => {
+    const { locale, t } = useI18n();
+    return (
+        <ul className='tape-measurements'>
+            {measurements.map((measurement, index) => (
+                <li key={measurement.id}>
+                    <span className='tape-measurement-value'>
+                        📏 #{index + 1}:{' '}
+                        {formatLength(measurement.distance, unit, locale)}
+                    </span>
+                    {FIT_AXES.map(({ axis, label }) => (
+                        <button
+                            key={axis}
+                            className='option-chip'
+                            onClick={() => onUse(axis, measurement.distance)}
+                        >
+                            {t(label)}
+                        </button>
+                    ))}
+                    <button
+                        className='option-chip'
+                        aria-label={t('planner.removeMeasurement', {
+                            number: index + 1,
+                        })}
+                        onClick={() => onRemove(measurement.id)}
+                    >
+                        ✕
+                    </button>
+                </li>
+            ))}
+        </ul>
+    );
+};
+
+export default function RoomPlanner({
+    product,
+    customization,
+    unit,
+    onUseMeasurement,
+}: RoomPlannerProps) {
+    const { locale, t } = useI18n();
+    const overlayRef = useRef<HTMLDivElement>(null);
+    const sessionRef = useRef<PlacementSession | null>(null);
+    const twistRef = useRef<number | null>(null);
+    const [supported, setSupported] = useState(false);
+    const [active, setActive] = useState(false);
+    const [error, setError] = useState<MessageKey | null>(null);
+    const [snapshot, setSnapshot] = useState<PlacementSnapshot>(EMPTY_SNAPSHOT);
+    const [activeProductId, setActiveProductId] = useState(product.id);
+    const [surface, setSurface] = useState<PlacementSurface>('floor');
+    const [snapping, setSnapping] = useState(true);
+    // Kept after the session ends so gaps can still feed the fit check
+    const [measurements, setMeasurements] = useState<TapeMeasurement[]>([]);
+
+    const products = listProducts();
+
+    useEffect(() => {
+        PlacementSession.isSupported().then(setSupported);
+        return () => sessionRef.current?.end();
+    }, []);
+
+    // The current product keeps its customization, others use the defaults
+    useEffect(() => {
+        const selected =
+            products.find((item) => item.id === activeProductId) ?? product;
+        sessionRef.current?.setActiveProduct(
+            selected,
+            selected.id === product.id ? customization : DEFAULT_CUSTOMIZATION
+        );
+    }, [active, activeProductId, product, customization]);
+
+    useEffect(() => {
+        sessionRef.current?.setSurface(surface);
+    }, [active, surface]);
+
+    useEffect(() => {
+        sessionRef.current?.setSnapping(snapping);
+    }, [active, snapping]);
+
+    const startSession = async (tool: PlacementTool) => {
+        if (!overlayRef.current) return;
+        setError(null);
+        setMeasurements([]);
+        const session = new PlacementSession({
+            onChange: (next) => {
+                setSnapshot(next);
+                setMeasurements(next.measurements);
+            },
+            onEnd: () => {
+                sessionRef.current = null;
+                setActive(false);
+                setSnapshot(EMPTY_SNAPSHOT);
+            },
+        });
+        sessionRef.current = session;
+        try {
+            await session.start(overlayRef.current);
+            session.setTool(tool);
+            setActive(true);
+        } catch (error) {
+            console.error('Room planner failed to start:', error);
+            sessionRef.current = null;
+            setError('planner.startFailed');
+        }
+    };
+
+    // Taps on the overlay controls must not also place an object
+    useEffect(() => {
+        const overlay = overlayRef.current;
+        if (!overlay) return;
+        const preventSelect = (event: Event) => {
+            if ((event.target as Element).closest('button, select')) {
+                event.preventDefault();
+            }
+        };
+        overlay.addEventListener('beforexrselect', preventSelect);
+        return () =>
+            overlay.removeEventListener('beforexrselect', preventSelect);
+    }, []);
+
+    // Two-finger twist rotates the selected object
+    const handleTouchMove = (event: React.TouchEvent) => {
+        if (event.touches.length !== 2) return;
+        const angle = touchAngle(event.touches);
+        if (twistRef.current !== null) {
+            sessionRef.current?.rotateSelected(twistRef.current - angle);
+        }
+        twistRef.current = angle;
+    };
+
+    const handleTouchEnd = () => {
+        if (twistRef.current === null) return;
+        twistRef.current = null;
+        sessionRef.current?.snapSelectedRotation();
+    };
+
+    const selected = snapshot.objects.find(
+        (object) => object.id === snapshot.selectedId
+    );
+
+    const removeMeasurement = (id: string) => {
+        if (sessionRef.current) {
+            sessionRef.current.removeMeasurement(id);
+        } else {
+            setMeasurements(measurements.filter((entry) => entry.id !== id));
+        }
+    };
+
+    const measuring = snapshot.tool === 'measure';
+
+    const statusText = measuring
+        ? snapshot.liveDistance !== null
+            ? t('planner.status.secondPoint', {
+                  distance: formatLength(snapshot.liveDistance, unit, locale),
+              })
+            : snapshot.target
+              ? t('planner.status.firstPoint')
+              : t('planner.status.findSurface')
+        : !snapshot.target
+          ? t(`planner.status.find-${surface}`)
+          : selected
+            ? t('planner.status.selected', {
+                  name: selected.name,
+                  rotation: Math.round(selected.rotation),
+              })
+            : t('planner.status.tapToPlace', {
+                  product:
+                      products.find((item) => item.id === activeProductId)
+                          ?.name ?? product.name,
+              });
+
+    return (
+        <>
+            {supported && (
+                <div className='info-card room-planner'>
+                    <h3
+                        style={{
+                            margin: '0 0 12px 0',
+                            fontSize: '16px',
+                            fontWeight: '700',
+                            color: '#1f2937',
+                        }}
+                    >
+                        🏠 {t('planner.title')}
+                    </h3>
+                    <p className='room-planner-hint'>{t('planner.hint')}</p>
+                    <div className='room-planner-row'>
+                        <button
+                            className='button-primary'
+                            onClick={() => startSession('place')}
+                            disabled={active}
+                        >
+                            {t('planner.start')}
+                        </button>
+                        <button
+                            className='button-secondary'
+                            onClick={() => startSession('measure')}
+                            disabled={active}
+                        >
+                            {t('planner.measure')}
+                        </button>
+                    </div>
+                    {error && (
+                        <p className='status-badge error room-planner-error'>
+                            {t(error)}
+                        </p>
+                    )}
+                    {!active && measurements.length > 0 && (
+                        <MeasurementList
+                            measurements={measurements}
+                            unit={unit}
+                            onUse={onUseMeasurement}
+                            onRemove={removeMeasurement}
+                        />
+                    )}
+                </div>
+            )}
+
+            <div
+                ref={overlayRef}
+                className='room-planner-overlay'
+                hidden={!active}
+                onTouchMove={handleTouchMove}
+                onTouchEnd={handleTouchEnd}
+                onTouchCancel={handleTouchEnd}
+            >
+                <div className='room-planner-top'>
+                    <span className='room-planner-status' role='status'>
+                        {statusText}
+                    </span>
+                    <button
+                        className='button-secondary'
+                        onClick={() => sessionRef.current?.end()}
+                    >
+                        {t('planner.done', {
+                            count: snapshot.objects.length,
+                        })}
+                    </button>
+                </div>
+
+                <div className='room-planner-controls'>
+                    {measuring && measurements.length > 0 && (
+                        <MeasurementList
+                            measurements={measurements}
+                            unit={unit}
+                            onUse={onUseMeasurement}
+                            onRemove={removeMeasurement}
+                        />
+                    )}
+                    {measuring ? (
+                        <div className='room-planner-row'>
+                            <button
+                                className='option-chip'
+                                disabled={snapshot.liveDistance === null}
+                                onClick={() =>
+                                    sessionRef.current?.cancelMeasurement()
+                                }
+                            >
+                                {t('planner.cancelPoint')}
+                            </button>
+                        </div>
+                    ) : selected ? (
+                        <div className='room-planner-row'>
+                            <button
+                                className='option-chip'
+                                onClick={() =>
+                                    sessionRef.current?.rotateSelected(
+                                        -ROTATE_STEP_DEGREES
+                                    )
+                                }
+                            >
+                                {t('planner.rotateLeft')}
+                            </button>
+                            <button
+                                className='option-chip'
+                                onClick={() =>
+                                    sessionRef.current?.rotateSelected(
+                                        ROTATE_STEP_DEGREES
+                                    )
+                                }
+                            >
+                                {t('planner.rotateRight')}
+                            </button>
+                            <button
+                                className='option-chip'
+                                onClick={() =>
+                                    sessionRef.current?.removeSelected()
+                                }
+                            >
+                                {t('planner.remove')}
+                            </button>
+                            <button
+                                className='option-chip'
+                                onClick={() => sessionRef.current?.select(null)}
+                            >
+                                {t('planner.deselect')}
+                            </button>
+                        </div>
+                    ) : (
+                        <div className='room-planner-row'>
+                            {products.map((item) => (
+                                <button
+                                    key={item.id}
+                                    className='option-chip'
+                                    aria-pressed={item.id === activeProductId}
+                                    onClick={() => setActiveProductId(item.id)}
+                                >
+                                    {item.name}
+                                </button>
+                            ))}
+                        </div>
+                    )}
+
+                    <div className='room-planner-row'>
+                        {(['place', 'measure'] as PlacementTool[]).map(
+                            (option) => (
+                                <button
+                                    key={option}
+                                    className='option-chip'
+                                    aria-pressed={snapshot.tool === option}
+                                    onClick={() =>
+                                        sessionRef.current?.setTool(option)
+                                    }
+                                >
+                                    {t(`planner.tool.${option}`)}
+                                </button>
+                            )
+                        )}
+                    </div>
+
+                    <div className='room-planner-row' hidden={measuring}>
+                        {(['floor', 'wall'] as PlacementSurface[]).map(
+                            (option) => (
+                                <button
+                                    key={option}
+                                    className='option-chip'
+                                    aria-pressed={surface === option}
+                                    onClick={() => setSurface(option)}
+                                >
+                                    {t(`planner.surface.${option}`)}
+                                </button>
+                            )
+                        )}
+                        <button
+                            className='option-chip'
+                            aria-pressed={snapping}
+                            onClick={() => setSnapping(!snapping)}
+                        >
+                            {t('planner.snap')}
+                        </button>
+                    </div>
+                </div>
+            </div>
+        </>
+    );
+}
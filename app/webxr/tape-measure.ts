@@ -0,0 +1,109 @@
+import * as THREE from 'three';
+
+export interface TapeMeasurement {
+    id: string;
+    distance: number; // meters
+}
+
+const MARKER_COLOR = 0xfacc15;
+const MARKER_RADIUS = 0.012;
+
+const createMarker = (position: THREE.Vector3): THREE.Mesh => {
+    const marker = new THREE.Mesh(
+        new THREE.SphereGeometry(MARKER_RADIUS, 16, 12),
+        new THREE.MeshBasicMaterial({ color: MARKER_COLOR })
+    );
+    marker.position.copy(position);
+    return marker;
+};
+
+const createLine = (start: THREE.Vector3, end: THREE.Vector3): THREE.Line =>
+    new THREE.Line(
+        new THREE.BufferGeometry().setFromPoints([start, end]),
+        new THREE.LineBasicMaterial({ color: MARKER_COLOR })
+    );
+
+// Two-tap distance measuring between hit-test points. The first tap drops an
+// anchor and a live line follows the reticle until the second tap fixes it.
+export class TapeMeasure {
+    readonly group = new THREE.Group();
+    private start: THREE.Vector3 | null = null;
+    private startMarker: THREE.Mesh | null = null;
+    private preview: THREE.Line | null = null;
+    private readonly measured = new Map<
+        string,
+        { measurement: TapeMeasurement; objects: THREE.Object3D[] }
+    >();
+
+    get pending(): boolean {
+        return this.start !== null;
+    }
+
+    get measurements(): TapeMeasurement[] {
+        return [...this.measured.values()].map((entry) => entry.measurement);
+    }
+
+    // Returns the finished measurement on the second tap
+    addPoint(point: THREE.Vector3): TapeMeasurement | null {
+        if (!this.start) {
+            this.start = point.clone();
+            this.startMarker = createMarker(point);
+            this.group.add(this.startMarker);
+            this.preview = createLine(point, point);
+            this.group.add(this.preview);
+            return null;
+        }
+
+        const start = this.start;
+        const startMarker = this.startMarker!;
+        this.clearPending(false);
+
+        const objects = [
+            startMarker,
+            createMarker(point),
+            createLine(start, point),
+        ];
+        this.group.add(...objects.slice(1));
+
+        const measurement: TapeMeasurement = {
+            id: `tape-${Date.now().toString(36)}`,
+            distance: start.distanceTo(point),
+        };
+        this.measured.set(measurement.id, { measurement, objects });
+        return measurement;
+    }
+
+    // Stretches the live line to the reticle, returns the running distance
+    update(reticle: THREE.Vector3 | null): number | null {
+        if (!this.start || !this.preview) return null;
+        this.preview.visible = reticle !== null;
+        if (!reticle) return null;
+        this.preview.geometry.setFromPoints([this.start, reticle]);
+        return this.start.distanceTo(reticle);
+    }
+
+    // Drops the half-finished measurement, if any
+    cancel(): void {
+        this.clearPending(true);
+    }
+
+    remove(id: string): void {
+        const entry = this.measured.get(id);
+        if (!entry) return;
+        this.group.remove(...entry.objects);
+        this.measured.delete(id);
+    }
+
+    private clearPending(removeMarker: boolean): void {
+        if (this.preview) {
+            this.group.remove(this.preview);
+            this.preview.geometry.dispose();
+            this.preview = null;
+        }
+        if (removeMarker && this.startMarker) {
+            this.group.remove(this.startMarker);
+        }
+        this.start = null;
+        this.startMarker = null;
+    }
+}
@@ -0,0 +1,76 @@
+import type { Cart } from '~/commerce/cart';
+import { useI18n } from '~/i18n/i18n-context';
+import type { MessageKey } from '~/i18n/messages/en';
+import type { StockInfo } from '~/products/options';
+import { formatPrice } from '~/products/pricing';
+
+interface AddToCartProps {
+    price: number;
+    stock: StockInfo | null;
+    violations: MessageKey[];
+    cart: Cart | null;
+    adding: boolean;
+    onAdd: () => void;
+}
+
+export default function AddToCart({
+    price,
+    stock,
+    violations,
+    cart,
+    adding,
+    onAdd,
+}: AddToCartProps) {
+    const { locale, t } = useI18n();
+    return (
+        <div className='info-card add-to-cart'>
+            <div>
+                <div className='add-to-cart-price'>
+                    {formatPrice(price, locale)}
+                </div>
+                {violations.length > 0 ? (
+                    <div className='status-badge error'>{t(violations[0])}</div>
+                ) : (
+                    stock && (
+                        <div
+                            className={`status-badge ${stock.inStock ? 'success' : 'warning'}`}
+                        >
+                            {stock.inStock
+                                ? t('cart.inStock', {
+                                      days: stock.leadTimeDays,
+                                  })
+                                : t('cart.madeToOrder', {
+                                      weeks: Math.ceil(stock.leadTimeDays / 7),
+                                  })}
+                        </div>
+                    )
+                )}
+                {cart && cart.itemCount > 0 && (
+                    <div className='add-to-cart-summary'>
+                        🛒{' '}
+                        {t(
+                            cart.itemCount === 1
+                                ? 'cart.summaryOne'
+                                : 'cart.summary',
+                            {
+                                count: cart.itemCount,
+                                total: formatPrice(
+                                    cart.total,
+                                    locale,
+                                    cart.currency
+                                ),
+                            }
+                        )}
+                    </div>
+                )}
+            </div>
+            <button
+                className='button-primary'
+                onClick={onAdd}
+                disabled={adding || violations.length > 0}
+            >
+                {adding ? t('cart.adding') : `🛒 ${t('cart.add')}`}
+            </button>
+        </div>
+    );
+}
@@ -0,0 +1,46 @@
+import { useI18n } from '~/i18n/i18n-context';
+import {
+    getFailureHelp,
+    type ARFailureReason,
+    type ARMode,
+} from './ar-session';
+
+interface ARRecoveryProps {
+    mode: ARMode;
+    reason: ARFailureReason;
+    onRetry: () => void;
+    onDismiss: () => void;
+}
+
+export default function ARRecovery({
+    mode,
+    reason,
+    onRetry,
+    onDismiss,
+}: ARRecoveryProps) {
+    const { t } = useI18n();
+    const help = getFailureHelp(mode, reason);
+
+    return (
+        <div className='ar-recovery'>
+            <span className='status-badge error'>{t('ar.unavailable')}</span>
+            <h3>{t(help.title)}</h3>
+            <p>{t(help.message)}</p>
+            <ol>
+                {help.steps.map((step) => (
+                    <li key={step}>{t(step)}</li>
+                ))}
+            </ol>
+            <div style={{ display: 'flex', gap: '12px' }}>
+                <button className='button-secondary' onClick={onDismiss}>
+                    {t('ar.dismiss')}
+                </button>
+                {reason !== 'unsupported' && (
+                    <button className='button-primary' onClick={onRetry}>
+                        {t('viewer.retry')}
+                    </button>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,143 @@
+import { describe, expect, it } from 'vitest';
+import {
+    arSessionReducer,
+    canTransition,
+    INITIAL_AR_SESSION,
+    isARActive,
+    type ARSessionEvent,
+    type ARSessionState,
+    type ARSessionStatus,
+} from './ar-session';
+
+const STATES: Record<ARSessionStatus, ARSessionState> = {
+    idle: { status: 'idle' },
+    confirming: { status: 'confirming' },
+    launching: { status: 'launching' },
+    tracking: { status: 'tracking' },
+    placed: { status: 'placed' },
+    ended: { status: 'ended' },
+    failed: { status: 'failed', reason: 'session-failed' },
+};
+
+const EVENTS: ARSessionEvent[] = [
+    { type: 'REQUEST' },
+    { type: 'CANCEL' },
+    { type: 'CONFIRM' },
+    { type: 'FAIL', reason: 'launch-timeout' },
+    { type: 'SESSION_STARTED' },
+    { type: 'OBJECT_PLACED' },
+    { type: 'SESSION_ENDED' },
+    { type: 'RESET' },
+];
+
+const replay = (events: ARSessionEvent[]): ARSessionState =>
+    events.reduce(arSessionReducer, INITIAL_AR_SESSION);
+
+// Every legal transition and where it leads; anything missing is illegal
+const EXPECTED: Record<
+    ARSessionStatus,
+    Partial<Record<ARSessionEvent['type'], ARSessionState>>
+> = {
+    idle: {
+        REQUEST: { status: 'confirming' },
+    },
+    confirming: {
+        CANCEL: { status: 'idle' },
+        CONFIRM: { status: 'launching' },
+        FAIL: { status: 'failed', reason: 'launch-timeout' },
+    },
+    launching: {
+        SESSION_STARTED: { status: 'tracking' },
+        SESSION_ENDED: { status: 'ended' },
+        FAIL: { status: 'failed', reason: 'launch-timeout' },
+    },
+    tracking: {
+        OBJECT_PLACED: { status: 'placed' },
+        SESSION_ENDED: { status: 'ended' },
+        FAIL: { status: 'failed', reason: 'launch-timeout' },
+    },
+    placed: {
+        SESSION_ENDED: { status: 'ended' },
+        FAIL: { status: 'failed', reason: 'launch-timeout' },
+    },
+    ended: {
+        REQUEST: { status: 'confirming' },
+        RESET: { status: 'idle' },
+    },
+    failed: {
+        REQUEST: { status: 'confirming' },
+        RESET: { status: 'idle' },
+    },
+};
+
+describe('arSessionReducer', () => {
+    it('starts idle', () => {
+        expect(INITIAL_AR_SESSION).toEqual({ status: 'idle' });
+    });
+
+    for (const status of Object.keys(STATES) as ARSessionStatus[]) {
+        describe(`from ${status}`, () => {
+            for (const event of EVENTS) {
+                const expected = EXPECTED[status][event.type];
+                if (expected) {
+                    it(`${event.type} leads to ${expected.status}`, () => {
+                        expect(canTransition(STATES[status], event)).toBe(true);
+                        expect(arSessionReducer(STATES[status], event)).toEqual(
+                            expected
+                        );
+                    });
+                } else {
+                    it(`ignores ${event.type}`, () => {
+                        expect(canTransition(STATES[status], event)).toBe(
+                            false
+                        );
+                        // Same object, so React skips the re-render
+                        expect(arSessionReducer(STATES[status], event)).toBe(
+                            STATES[status]
+                        );
+                    });
+                }
+            }
+        });
+    }
+
+    it('keeps the failure reason', () => {
+        expect(
+            arSessionReducer(STATES.launching, {
+                type: 'FAIL',
+                reason: 'viewer-not-ready',
+            })
+        ).toEqual({ status: 'failed', reason: 'viewer-not-ready' });
+    });
+
+    it('walks through a full WebXR session', () => {
+        const events: ARSessionEvent[] = [
+            { type: 'REQUEST' },
+            { type: 'CONFIRM' },
+            { type: 'SESSION_STARTED' },
+            { type: 'OBJECT_PLACED' },
+            { type: 'SESSION_ENDED' },
+            { type: 'RESET' },
+        ];
+        const visited = events.map(
+            (_, index) => replay(events.slice(0, index + 1)).status
+        );
+        expect(visited).toEqual([
+            'confirming',
+            'launching',
+            'tracking',
+            'placed',
+            'ended',
+            'idle',
+        ]);
+    });
+});
+
+describe('isARActive', () => {
+    it('is true only while tracking or placed', () => {
+        const active = (Object.keys(STATES) as ARSessionStatus[]).filter(
+            (status) => isARActive(STATES[status])
+        );
+        expect(active).toEqual(['tracking', 'placed']);
+    });
+});
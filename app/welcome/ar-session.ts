@@ -0,0 +1,241 @@
+import type { MessageKey } from '~/i18n/messages/en';
+
+// AR lifecycle as an explicit state machine. model-viewer reports progress
+// through `ar-status` events, but external viewers (Scene Viewer, Quick Look)
+// report little or nothing, so every state that waits on the platform has a
+// way out: a timeout, a visibility change or a failure event.
+
+export type ARMode = 'webxr' | 'scene-viewer' | 'quick-look';
+
+export type ARFailureReason =
+    | 'unsupported'
+    | 'viewer-not-ready'
+    | 'launch-timeout'
+    | 'session-failed';
+
+export type ARSessionState =
+    | { status: 'idle' }
+    | { status: 'confirming' }
+    | { status: 'launching' }
+    | { status: 'tracking' }
+    | { status: 'placed' }
+    | { status: 'ended' }
+    | { status: 'failed'; reason: ARFailureReason };
+
+export type ARSessionStatus = ARSessionState['status'];
+
+export type ARSessionEvent =
+    | { type: 'REQUEST' } // user asked for AR
+    | { type: 'CANCEL' } // user declined the confirmation
+    | { type: 'CONFIRM' } // user accepted, AR is being activated
+    | { type: 'FAIL'; reason: ARFailureReason }
+    | { type: 'SESSION_STARTED' }
+    | { type: 'OBJECT_PLACED' }
+    | { type: 'SESSION_ENDED' }
+    | { type: 'RESET' };
+
+export const AR_LAUNCH_TIMEOUT_MS = 15000;
+
+export const INITIAL_AR_SESSION: ARSessionState = { status: 'idle' };
+
+type TransitionTable = {
+    [S in ARSessionStatus]: Partial<
+        Record<
+            ARSessionEvent['type'],
+            (event: ARSessionEvent) => ARSessionState
+        >
+    >;
+};
+
+const failed = (event: ARSessionEvent): ARSessionState => ({
+    status: 'failed',
+    reason: event.type === 'FAIL' ? event.reason : 'session-failed',
+});
+
+const TRANSITIONS: TransitionTable = {
+    idle: {
+        REQUEST: () => ({ status: 'confirming' }),
+    },
+    confirming: {
+        CANCEL: () => ({ status: 'idle' }),
+        CONFIRM: () => ({ status: 'launching' }),
+        FAIL: failed,
+    },
+    launching: {
+        SESSION_STARTED: () => ({ status: 'tracking' }),
+        // Backed out of the camera permission prompt or the external viewer
+        SESSION_ENDED: () => ({ status: 'ended' }),
+        FAIL: failed,
+    },
+    tracking: {
+        OBJECT_PLACED: () => ({ status: 'placed' }),
+        SESSION_ENDED: () => ({ status: 'ended' }),
+        FAIL: failed,
+    },
+    placed: {
+        SESSION_ENDED: () => ({ status: 'ended' }),
+        FAIL: failed,
+    },
+    ended: {
+        REQUEST: () => ({ status: 'confirming' }),
+        RESET: () => ({ status: 'idle' }),
+    },
+    failed: {
+        REQUEST: () => ({ status: 'confirming' }),
+        RESET: () => ({ status: 'idle' }),
+    },
+};
+
+export const canTransition = (
+    state: ARSessionState,
+    event: ARSessionEvent
+): boolean => {
+    return Boolean(TRANSITIONS[state.status][event.type]);
+};
+
+// Unknown transitions leave the state untouched (same object, so React
+// skips the re-render)
+export const arSessionReducer = (
+    state: ARSessionState,
+    event: ARSessionEvent
+): ARSessionState => {
+    const next = TRANSITIONS[state.status][event.type];
+    return next ? next(event) : state;
+};
+
+export const isARActive = (state: ARSessionState): boolean => {
+    return state.status === 'tracking' || state.status === 'placed';
+};
+
+export const getARMode = (isIOS: boolean, webXRSupported: boolean): ARMode => {
+    if (isIOS) return 'quick-look';
+    return webXRSupported ? 'webxr' : 'scene-viewer';
+};
+
+export interface ARFailureHelp {
+    title: MessageKey;
+    message: MessageKey;
+    steps: MessageKey[];
+}
+
+// The model not being ready reads the same whichever viewer was asked for
+const VIEWER_NOT_READY: ARFailureHelp = {
+    title: 'arHelp.viewerNotReady.title',
+    message: 'arHelp.viewerNotReady.message',
+    steps: ['arHelp.viewerNotReady.step1'],
+};
+
+const FAILURE_HELP: Record<ARMode, Record<ARFailureReason, ARFailureHelp>> = {
+    webxr: {
+        unsupported: {
+            title: 'arHelp.webxr.unsupported.title',
+            message: 'arHelp.webxr.unsupported.message',
+            steps: [
+                'arHelp.webxr.unsupported.step1',
+                'arHelp.webxr.unsupported.step2',
+            ],
+        },
+        'viewer-not-ready': VIEWER_NOT_READY,
+        'launch-timeout': {
+            title: 'arHelp.webxr.launchTimeout.title',
+            message: 'arHelp.webxr.launchTimeout.message',
+            steps: [
+                'arHelp.webxr.launchTimeout.step1',
+                'arHelp.webxr.launchTimeout.step2',
+                'viewer.retry',
+            ],
+        },
+        'session-failed': {
+            title: 'arHelp.webxr.sessionFailed.title',
+            message: 'arHelp.webxr.sessionFailed.message',
+            steps: [
+                'arHelp.webxr.sessionFailed.step1',
+                'arHelp.webxr.sessionFailed.step2',
+                'arHelp.webxr.sessionFailed.step3',
+            ],
+        },
+    },
+    'scene-viewer': {
+        unsupported: {
+            title: 'arHelp.sceneViewer.unsupported.title',
+            message: 'arHelp.sceneViewer.unsupported.message',
+            steps: [
+                'arHelp.sceneViewer.unsupported.step1',
+                'arHelp.sceneViewer.unsupported.step2',
+            ],
+        },
+        'viewer-not-ready': VIEWER_NOT_READY,
+        'launch-timeout': {
+            title: 'arHelp.sceneViewer.launchTimeout.title',
+            message: 'arHelp.sceneViewer.launchTimeout.message',
+            steps: [
+                'arHelp.sceneViewer.launchTimeout.step1',
+                'arHelp.sceneViewer.launchTimeout.step2',
+                'viewer.retry',
+            ],
+        },
+        'session-failed': {
+            title: 'arHelp.sceneViewer.sessionFailed.title',
+            message: 'arHelp.sceneViewer.sessionFailed.message',
+            steps: [
+                'arHelp.sceneViewer.sessionFailed.step1',
+                'arHelp.sceneViewer.sessionFailed.step2',
+            ],
+        },
+    },
+    'quick-look': {
+        unsupported: {
+            title: 'arHelp.quickLook.unsupported.title',
+            message: 'arHelp.quickLook.unsupported.message',
+            steps: [
+                'arHelp.quickLook.unsupported.step1',
+                'arHelp.quickLook.unsupported.step2',
+            ],
+        },
+        'viewer-not-ready': VIEWER_NOT_READY,
+        'launch-timeout': {
+            title: 'arHelp.quickLook.launchTimeout.title',
+            message: 'arHelp.quickLook.launchTimeout.message',
+            steps: [
+                'arHelp.quickLook.launchTimeout.step1',
+                'arHelp.quickLook.launchTimeout.step2',
+            ],
+        },
+        'session-failed': {
+            title: 'arHelp.quickLook.sessionFailed.title',
+            message: 'arHelp.quickLook.sessionFailed.message',
+            steps: [
+                'arHelp.quickLook.sessionFailed.step1',
+                'arHelp.quickLook.sessionFailed.step2',
+            ],
+        },
+    },
+};
+
+export const getFailureHelp = (
+    mode: ARMode,
+    reason: ARFailureReason
+): ARFailureHelp => FAILURE_HELP[mode][reason];
+
+// Spoken through a live region so screen reader users hear AR progress
+export const describeARStatus = (
+    state: ARSessionState,
+    mode: ARMode
+): MessageKey | null => {
+    switch (state.status) {
+        case 'launching':
+            return 'ar.status.launching';
+        case 'tracking':
+            return mode === 'webxr'
+                ? 'ar.status.trackingWebxr'
+                : 'ar.status.tracking';
+        case 'placed':
+            return 'ar.status.placed';
+        case 'ended':
+            return 'ar.status.ended';
+        case 'failed':
+            return getFailureHelp(mode, state.reason).title;
+        default:
+            return null;
+    }
+};
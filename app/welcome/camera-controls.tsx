@@ -0,0 +1,179 @@
+import type { RefObject } from 'react';
+import { useI18n } from '~/i18n/i18n-context';
+
+// Buttons mirroring model-viewer's own keyboard controls (arrow keys orbit,
+// Page Up/Down zoom while the viewer has focus) for people who can't drag
+// or don't know the shortcuts.
+
+export const INITIAL_CAMERA_ORBIT = '0deg 75deg 105%';
+
+const ORBIT_STEP = Math.PI / 12; // 15°
+const ZOOM_STEP = 0.85;
+
+interface SphericalPosition {
+    theta: number;
+    phi: number;
+    radius: number;
+}
+
+// Everything needed to reproduce a viewpoint, plain data so it can be sent
+// to another device
+export interface CameraView extends SphericalPosition {
+    target: { x: number; y: number; z: number }; // meters
+    fieldOfView: number; // degrees
+}
+
+type CameraViewer = HTMLElement & {
+    cameraOrbit: string;
+    cameraTarget: string;
+    fieldOfView: string;
+    getCameraOrbit: () => SphericalPosition;
+    getCameraTarget: () => { x: number; y: number; z: number };
+    getFieldOfView: () => number; // degrees
+    jumpCameraToGoal: () => void;
+};
+
+export const resetCamera = (viewer: HTMLElement | null) => {
+    if (viewer) {
+        (viewer as CameraViewer).cameraOrbit = INITIAL_CAMERA_ORBIT;
+    }
+};
+
+// Null until model-viewer has upgraded the element
+export const getCameraView = (
+    viewer: HTMLElement | null
+): CameraView | null => {
+    const camera = viewer as CameraViewer | null;
+    if (!camera?.getCameraOrbit) return null;
+    const { theta, phi, radius } = camera.getCameraOrbit();
+    const { x, y, z } = camera.getCameraTarget();
+    return {
+        theta,
+        phi,
+        radius,
+        target: { x, y, z },
+        fieldOfView: camera.getFieldOfView(),
+    };
+};
+
+// Setting the camera from code reports `source: 'none'` in camera-change,
+// so viewers mirroring each other on user interaction don't loop. Without
+// `jump` the camera glides there like after a drag.
+export const setCameraView = (
+    viewer: HTMLElement | null,
+    view: CameraView,
+    jump = false
+) => {
+    const camera = viewer as CameraViewer | null;
+    if (!camera?.jumpCameraToGoal) return;
+    const { theta, phi, radius, target, fieldOfView } = view;
+    camera.cameraOrbit = `${theta}rad ${phi}rad ${radius}m`;
+    camera.cameraTarget = `${target.x}m ${target.y}m ${target.z}m`;
+    camera.fieldOfView = `${fieldOfView}deg`;
+    if (jump) camera.jumpCameraToGoal();
+};
+
+// Puts `to`'s camera where `from`'s is, including pan and zoom
+export const copyCamera = (from: HTMLElement, to: HTMLElement) => {
+    const view = getCameraView(from);
+    if (view) setCameraView(to, view, true);
+};
+
+const adjustCamera = (
+    viewer: HTMLElement | null,
+    change: (orbit: SphericalPosition) => SphericalPosition
+) => {
+    const camera = viewer as CameraViewer | null;
+    if (!camera?.getCameraOrbit) return;
+    const { theta, phi, radius } = change(camera.getCameraOrbit());
+    camera.cameraOrbit = `${theta}rad ${phi}rad ${radius}m`;
+};
+
+interface CameraControlsProps {
+    viewerRef: RefObject<HTMLElement | null>;
+}
+
+export default function CameraControls({ viewerRef }: CameraControlsProps) {
+    const { t } = useI18n();
+    const controls: { label: string; icon: string; onClick: () => void }[] = [
+        {
+            label: t('camera.rotateLeft'),
+            icon: '⟲',
+            onClick: () =>
+                adjustCamera(viewerRef.current, (orbit) => ({
+                    ...orbit,
+                    theta: orbit.theta - ORBIT_STEP,
+                })),
+        },
+        {
+            label: t('camera.rotateRight'),
+            icon: '⟳',
+            onClick: () =>
+                adjustCamera(viewerRef.current, (orbit) => ({
+                    ...orbit,
+                    theta: orbit.theta + ORBIT_STEP,
+                })),
+        },
+        {
+            label: t('camera.tiltUp'),
+            icon: '↑',
+            onClick: () =>
+                adjustCamera(viewerRef.current, (orbit) => ({
+                    ...orbit,
+                    phi: orbit.phi - ORBIT_STEP,
+                })),
+        },
+        {
+            label: t('camera.tiltDown'),
+            icon: '↓',
+            onClick: () =>
+                adjustCamera(viewerRef.current, (orbit) => ({
+                    ...orbit,
+                    phi: orbit.phi + ORBIT_STEP,
+                })),
+        },
+        {
+            label: t('camera.zoomIn'),
+            icon: '+',
+            onClick: () =>
+                adjustCamera(viewerRef.current, (orbit) => ({
+                    ...orbit,
+                    radius: orbit.radius * ZOOM_STEP,
+                })),
+        },
+        {
+            label: t('camera.zoomOut'),
+            icon: '−',
+            onClick: () =>
+                adjustCamera(viewerRef.current, (orbit) => ({
+                    ...orbit,
+                    radius: orbit.radius / ZOOM_STEP,
+                })),
+        },
+        {
+            label: t('camera.reset'),
+            icon: '⌂',
+            onClick: () => resetCamera(viewerRef.current),
+        },
+    ];
+
+    return (
+        <div
+            className='camera-controls'
+            role='toolbar'
+            aria-label={t('camera.toolbar')}
+        >
+            {controls.map((control) => (
+                <button
+                    key={control.label}
+                    className='camera-control'
+                    aria-label={control.label}
+                    title={control.label}
+                    onClick={control.onClick}
+                >
+                    <span aria-hidden='true'>{control.icon}</span>
+                </button>
+            ))}
+        </div>
+    );
+}
@@ -0,0 +1,271 @@
+import { useEffect, useState } from 'react';
+import { useI18n } from '~/i18n/i18n-context';
+import {
+    CAPTURE_EXTENSIONS,
+    CAPTURE_FORMATS,
+    CAPTURE_SIZES,
+    type CaptureFormat,
+    type CaptureOptions,
+} from './capture-render';
+import type { StoredCapture } from './capture-store';
+import { writeZip } from '~/zip/zip';
+
+interface CaptureGalleryProps {
+    captures: StoredCapture[];
+    options: CaptureOptions;
+    preferShare: boolean;
+    onOptionsChange: (options: CaptureOptions) => void;
+    onDelete: (ids: string[]) => void;
+    onStatus: (message: string) => void;
+}
+
+const captureFileName = (capture: StoredCapture): string => {
+    const timestamp = new Date(capture.createdAt)
+        .toISOString()
+        .replace(/[:.]/g, '-');
+    const extension = CAPTURE_EXTENSIONS[capture.mimeType] ?? 'png';
+    return `ar-${capture.productId}-${timestamp}.${extension}`;
+};
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    // Some browsers start the download after click() returns
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+const toFiles = (captures: StoredCapture[]): File[] =>
+    captures.map(
+        (capture) =>
+            new File([capture.blob], captureFileName(capture), {
+                type: capture.mimeType,
+            })
+    );
+
+export default function CaptureGallery({
+    captures,
+    options,
+    preferShare,
+    onOptionsChange,
+    onDelete,
+    onStatus,
+}: CaptureGalleryProps) {
+    const { locale, t } = useI18n();
+    const [selected, setSelected] = useState<Set<string>>(new Set());
+    const [thumbnails, setThumbnails] = useState<Record<string, string>>({});
+
+    useEffect(() => {
+        const urls: Record<string, string> = {};
+        captures.forEach((capture) => {
+            urls[capture.id] = URL.createObjectURL(capture.blob);
+        });
+        setThumbnails(urls);
+        setSelected(
+            (current) =>
+                new Set(
+                    [...current].filter((id) =>
+                        captures.some((capture) => capture.id === id)
+                    )
+                )
+        );
+        return () => Object.values(urls).forEach(URL.revokeObjectURL);
+    }, [captures]);
+
+    const toggle = (id: string) => {
+        setSelected((current) => {
+            const next = new Set(current);
+            if (next.has(id)) {
+                next.delete(id);
+            } else {
+                next.add(id);
+            }
+            return next;
+        });
+    };
+
+    const selectedCaptures = captures.filter((capture) =>
+        selected.has(capture.id)
+    );
+
+    // Mobile browsers hand files to the share sheet (save to Photos,
+    // messaging apps); everything else gets a download, zipped if several
+    const handleExport = async () => {
+        if (selectedCaptures.length === 0) return;
+        const files = toFiles(selectedCaptures);
+
+        if (preferShare && navigator.canShare?.({ files })) {
+            try {
+                await navigator.share({
+                    files,
+                    title: t('capture.shareTitle'),
+                });
+                return;
+            } catch (error) {
+                if ((error as DOMException).name === 'AbortError') return;
+                console.error('Share failed:', error);
+            }
+        }
+
+        if (files.length === 1) {
+            downloadBlob(files[0], files[0].name);
+            return;
+        }
+        try {
+            onStatus(t('capture.preparingZip'));
+            const entries = await Promise.all(
+                files.map(async (file) => ({
+                    name: file.name,
+                    data: new Uint8Array(await file.arrayBuffer()),
+                }))
+            );
+            const zip = new Blob([writeZip(entries)], {
+                type: 'application/zip',
+            });
+            downloadBlob(zip, `ar-captures-${Date.now()}.zip`);
+            onStatus(t('capture.downloaded', { count: files.length }));
+        } catch (error) {
+            console.error('ZIP export failed:', error);
+            onStatus(t('capture.exportFailed'));
+        }
+    };
+
+    return (
+        <div className='info-card capture-gallery'>
+            <h3
+                style={{
+                    margin: '0 0 12px 0',
+                    fontSize: '16px',
+                    fontWeight: '700',
+                    color: '#1f2937',
+                }}
+            >
+                📸 {t('capture.title')}
+            </h3>
+
+            <div className='capture-options'>
+                <label>
+                    {t('capture.format')}{' '}
+                    <select
+                        value={options.format}
+                        onChange={(e) =>
+                            onOptionsChange({
+                                ...options,
+                                format: e.target.value as CaptureFormat,
+                            })
+                        }
+                    >
+                        {CAPTURE_FORMATS.map((format) => (
+                            <option key={format.value} value={format.value}>
+                                {format.label}
+                            </option>
+                        ))}
+                    </select>
+                </label>
+                <label>
+                    {t('capture.size')}{' '}
+                    <select
+                        value={options.maxSize ?? ''}
+                        onChange={(e) =>
+                            onOptionsChange({
+                                ...options,
+                                maxSize: e.target.value
+                                    ? Number(e.target.value)
+                                    : null,
+                            })
+                        }
+                    >
+                        {CAPTURE_SIZES.map((size) => (
+                            <option key={size.label} value={size.value ?? ''}>
+                                {size.value === null
+                                    ? t('capture.sizeOriginal')
+                                    : size.label}
+                            </option>
+                        ))}
+                    </select>
+                </label>
+                <label>
+                    <input
+                        type='checkbox'
+                        checked={options.watermark}
+                        onChange={(e) =>
+                            onOptionsChange({
+                                ...options,
+                                watermark: e.target.checked,
+                            })
+                        }
+                    />{' '}
+                    {t('capture.watermark')}
+                </label>
+            </div>
+
+            {captures.length === 0 ? (
+                <p className='capture-gallery-empty'>{t('capture.empty')}</p>
+            ) : (
+                <>
+                    <ul className='capture-grid'>
+                        {captures.map((capture) => (
+                            <li key={capture.id}>
+                                <label className='capture-thumbnail'>
+                                    <input
+                                        type='checkbox'
+                                        checked={selected.has(capture.id)}
+                                        onChange={() => toggle(capture.id)}
+                                    />
+                                    {thumbnails[capture.id] && (
+                                        <img
+                                            src={thumbnails[capture.id]}
+                                            alt={t('capture.alt', {
+                                                product: capture.productName,
+                                                date: new Date(
+                                                    capture.createdAt
+                                                ).toLocaleString(locale),
+                                            })}
+                                        />
+                                    )}
+                                </label>
+                            </li>
+                        ))}
+                    </ul>
+                    <div className='capture-actions'>
+                        <button
+                            className='button-secondary'
+                            onClick={() =>
+                                setSelected(
+                                    selected.size === captures.length
+                                        ? new Set()
+                                        : new Set(captures.map((c) => c.id))
+                                )
+                            }
+                        >
+                            {selected.size === captures.length
+                                ? t('capture.selectNone')
+                                : t('capture.selectAll')}
+                        </button>
+                        <button
+                            className='button-primary'
+                            onClick={handleExport}
+                            disabled={selected.size === 0}
+                        >
+                            {preferShare
+                                ? t('capture.share')
+                                : t('capture.download')}
+                            {selected.size > 0 ? ` (${selected.size})` : ''}
+                        </button>
+                        <button
+                            className='button-secondary'
+                            onClick={() => onDelete([...selected])}
+                            disabled={selected.size === 0}
+                        >
+                            {t('capture.delete')}
+                        </button>
+                    </div>
+                </>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,104 @@
+export type CaptureFormat = 'image/png' | 'image/jpeg' | 'image/webp';
+
+export interface CaptureOptions {
+    format: CaptureFormat;
+    maxSize: number | null; // longest edge in pixels, null keeps the original
+    watermark: boolean;
+}
+
+export const DEFAULT_CAPTURE_OPTIONS: CaptureOptions = {
+    format: 'image/png',
+    maxSize: null,
+    watermark: true,
+};
+
+export const CAPTURE_FORMATS: { value: CaptureFormat; label: string }[] = [
+    { value: 'image/png', label: 'PNG' },
+    { value: 'image/jpeg', label: 'JPEG' },
+    { value: 'image/webp', label: 'WebP' },
+];
+
+export const CAPTURE_SIZES: { value: number | null; label: string }[] = [
+    { value: null, label: 'Original' },
+    { value: 1920, label: '1920px' },
+    { value: 1280, label: '1280px' },
+    { value: 800, label: '800px' },
+];
+
+export const CAPTURE_EXTENSIONS: Record<string, string> = {
+    'image/png': 'png',
+    'image/jpeg': 'jpg',
+    'image/webp': 'webp',
+};
+
+const JPEG_BACKGROUND = '#ffffff';
+const LOSSY_QUALITY = 0.92;
+
+const drawWatermark = (
+    ctx: CanvasRenderingContext2D,
+    width: number,
+    height: number,
+    lines: string[]
+) => {
+    const fontSize = Math.max(12, Math.round(width / 60));
+    const lineHeight = Math.round(fontSize * 1.4);
+    const padding = Math.round(fontSize * 0.8);
+    const boxHeight = lines.length * lineHeight + padding * 2;
+
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+    ctx.fillRect(0, height - boxHeight, width, boxHeight);
+
+    ctx.fillStyle = '#ffffff';
+    ctx.textBaseline = 'top';
+    lines.forEach((line, index) => {
+        ctx.font = `${index === 0 ? 700 : 500} ${fontSize}px 'Inter Variable', sans-serif`;
+        ctx.fillText(
+            line,
+            padding,
+            height - boxHeight + padding + index * lineHeight
+        );
+    });
+};
+
+// Resizes the raw model-viewer capture, draws the optional overlay and
+// re-encodes it in the chosen format
+export const renderCapture = async (
+    source: Blob,
+    options: CaptureOptions,
+    overlayLines: string[]
+): Promise<{ blob: Blob; width: number; height: number }> => {
+    const bitmap = await createImageBitmap(source);
+    const ratio = options.maxSize
+        ? Math.min(1, options.maxSize / Math.max(bitmap.width, bitmap.height))
+        : 1;
+    const width = Math.round(bitmap.width * ratio);
+    const height = Math.round(bitmap.height * ratio);
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error('Canvas 2D context unavailable');
+    }
+
+    // JPEG has no alpha, so give the transparent viewer background a color
+    if (options.format === 'image/jpeg') {
+        ctx.fillStyle = JPEG_BACKGROUND;
+        ctx.fillRect(0, 0, width, height);
+    }
+    ctx.drawImage(bitmap, 0, 0, width, height);
+    bitmap.close();
+
+    if (options.watermark && overlayLines.length > 0) {
+        drawWatermark(ctx, width, height, overlayLines);
+    }
+
+    const blob = await new Promise<Blob | null>((resolve) =>
+        canvas.toBlob(resolve, options.format, LOSSY_QUALITY)
+    );
+    if (!blob) {
+        throw new Error(`Encoding ${options.format} failed`);
+    }
+    return { blob, width, height };
+};
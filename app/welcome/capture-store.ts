@@ -0,0 +1,45 @@
+import { CAPTURES_STORE, createId, runTransaction } from './indexed-db';
+
+// Captures are kept in IndexedDB so the gallery survives reloads; blobs are
+// stored as-is, which IndexedDB supports natively.
+
+export interface StoredCapture {
+    id: string;
+    productId: string;
+    productName: string;
+    createdAt: number;
+    mimeType: string;
+    width: number;
+    height: number;
+    blob: Blob;
+}
+
+// Newest first
+export const listCaptures = async (): Promise<StoredCapture[]> => {
+    const captures = await runTransaction<StoredCapture[]>(
+        CAPTURES_STORE,
+        'readonly',
+        (store) => store.getAll()
+    );
+    return (captures ?? []).sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const saveCapture = async (
+    capture: Omit<StoredCapture, 'id' | 'createdAt'>
+): Promise<StoredCapture> => {
+    const stored: StoredCapture = {
+        ...capture,
+        id: createId(),
+        createdAt: Date.now(),
+    };
+    await runTransaction(CAPTURES_STORE, 'readwrite', (store) =>
+        store.put(stored)
+    );
+    return stored;
+};
+
+export const deleteCaptures = async (ids: string[]): Promise<void> => {
+    await runTransaction(CAPTURES_STORE, 'readwrite', (store) => {
+        ids.forEach((id) => store.delete(id));
+    });
+};
@@ -0,0 +1,170 @@
+import { useId } from 'react';
+import { useI18n } from '~/i18n/i18n-context';
+import type { Product } from '~/products/catalog';
+import { SCALE_RANGE } from '~/products/configuration';
+import type { Customization } from '~/products/customization';
+import { PATTERNS } from '~/products/materials';
+import {
+    getOptionPriceDelta,
+    getUnavailableReason,
+    isRestricted,
+    type OptionField,
+    type ProductOptionSchema,
+} from '~/products/options';
+import { formatPrice } from '~/products/pricing';
+
+const SCALE_STEP = 0.05;
+
+interface CustomizationPanelProps {
+    product: Product;
+    options: ProductOptionSchema | null;
+    customization: Customization;
+    onChange: (customization: Customization) => void;
+}
+
+export default function CustomizationPanel({
+    product,
+    options,
+    customization,
+    onChange,
+}: CustomizationPanelProps) {
+    const { locale, t } = useI18n();
+    const scaleId = useId();
+    const update = (changes: Partial<Customization>) =>
+        onChange({ ...customization, ...changes });
+
+    const unavailable = (field: OptionField, value: string) => {
+        const reason = getUnavailableReason(
+            options,
+            customization,
+            field,
+            value
+        );
+        return reason && t(reason);
+    };
+
+    // Shown next to options that cost extra, e.g. "+$150"
+    const surcharge = (field: OptionField, value: string) => {
+        const delta = getOptionPriceDelta(options, field, value);
+        return delta > 0 ? ` +${formatPrice(delta, locale)}` : '';
+    };
+
+    return (
+        <div className='info-card customization-panel'>
+            <h3
+                style={{
+                    margin: '0 0 12px 0',
+                    fontSize: '16px',
+                    fontWeight: '700',
+                    color: '#1f2937',
+                }}
+            >
+                🎨 {t('customize.title')}
+            </h3>
+
+            <div className='customization-group'>
+                <span className='customization-label'>
+                    {t('customize.color')}
+                </span>
+                <div className='customization-options'>
+                    {product.colors.map((color) => {
+                        const reason = unavailable('color', color.hex);
+                        const label = `${color.name}${surcharge('color', color.hex)}`;
+                        return (
+                            <button
+                                key={color.hex}
+                                className='color-swatch'
+                                style={{ backgroundColor: color.hex }}
+                                title={reason ? `${label} – ${reason}` : label}
+                                aria-label={label}
+                                disabled={!!reason}
+                                aria-pressed={
+                                    customization.color.toUpperCase() ===
+                                    color.hex.toUpperCase()
+                                }
+                                onClick={() => update({ color: color.hex })}
+                            />
+                        );
+                    })}
+                    <input
+                        type='color'
+                        className='color-picker'
+                        aria-label={t('customize.customColor')}
+                        disabled={isRestricted(options, customization, 'color')}
+                        value={customization.color.toLowerCase()}
+                        onChange={(e) =>
+                            update({ color: e.target.value.toUpperCase() })
+                        }
+                    />
+                </div>
+            </div>
+
+            <div className='customization-group'>
+                <span className='customization-label'>
+                    {t('customize.material')}
+                </span>
+                <div className='customization-options'>
+                    {product.materials.map((material) => {
+                        const reason = unavailable('material', material);
+                        return (
+                            <button
+                                key={material}
+                                className='option-chip'
+                                aria-pressed={
+                                    customization.material === material
+                                }
+                                disabled={!!reason}
+                                title={reason ?? undefined}
+                                onClick={() => update({ material })}
+                            >
+                                {t(`material.${material}`)}
+                                {surcharge('material', material)}
+                            </button>
+                        );
+                    })}
+                </div>
+            </div>
+
+            <div className='customization-group'>
+                <span className='customization-label'>
+                    {t('customize.pattern')}
+                </span>
+                <div className='customization-options'>
+                    {PATTERNS.map((pattern) => {
+                        const reason = unavailable('pattern', pattern);
+                        return (
+                            <button
+                                key={pattern}
+                                className='option-chip'
+                                aria-pressed={customization.pattern === pattern}
+                                disabled={!!reason}
+                                title={reason ?? undefined}
+                                onClick={() => update({ pattern })}
+                            >
+                                {t(`pattern.${pattern}`)}
+                                {surcharge('pattern', pattern)}
+                            </button>
+                        );
+                    })}
+                </div>
+            </div>
+
+            <div className='customization-group'>
+                <label className='customization-label' htmlFor={scaleId}>
+                    {t('customize.size')}:{' '}
+                    {customization.scale.toLocaleString(locale)}×
+                </label>
+                <input
+                    id={scaleId}
+                    type='range'
+                    className='scale-slider'
+                    min={SCALE_RANGE.min}
+                    max={SCALE_RANGE.max}
+                    step={SCALE_STEP}
+                    value={customization.scale}
+                    onChange={(e) => update({ scale: Number(e.target.value) })}
+                />
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+import type { ProductDimensions } from '~/products/catalog';
+import {
+    checkFit,
+    DEFAULT_FIT_CHECK_OPTIONS,
+    type FitCheckOptions,
+} from './fit-check';
+
+const SOFA: ProductDimensions = { width: 2, height: 0.8, depth: 1 };
+
+const NO_ROTATION: FitCheckOptions = {
+    ...DEFAULT_FIT_CHECK_OPTIONS,
+    allowRotation: false,
+};
+
+describe('checkFit', () => {
+    it('reports every axis of a roomy space', () => {
+        const result = checkFit(
+            SOFA,
+            { width: 4, height: 2, depth: 4 },
+            DEFAULT_FIT_CHECK_OPTIONS
+        );
+        expect(result).toMatchObject({
+            fits: true,
+            rotated: false,
+            verdict: 'perfect',
+        });
+        expect(result.axes).toEqual([
+            {
+                axis: 'width',
+                required: 2,
+                available: 4,
+                spare: 2,
+                usage: 50,
+                fits: true,
+            },
+            {
+                axis: 'height',
+                required: 0.8,
+                available: 2,
+                spare: 1.2,
+                usage: 40,
+                fits: true,
+            },
+            {
+                axis: 'depth',
+                required: 1,
+                available: 4,
+                spare: 3,
+                usage: 25,
+                fits: true,
+            },
+        ]);
+    });
+
+    it('adds the side clearance on both sides and the front clearance once', () => {
+        const result = checkFit(
+            SOFA,
+            { width: 2.5, height: 1, depth: 1.6 },
+            { clearanceSides: 0.3, clearanceFront: 0.5, allowRotation: false }
+        );
+        const [width, , depth] = result.axes;
+        expect(width.required).toBeCloseTo(2.6);
+        expect(width.fits).toBe(false);
+        expect(depth.required).toBeCloseTo(1.5);
+        expect(depth.fits).toBe(true);
+        expect(result).toMatchObject({ fits: false, verdict: 'too-large' });
+    });
+
+    it('turns the footprint when only the rotated one fits', () => {
+        const space = { width: 1.2, height: 1, depth: 2.5 };
+        const rotated = checkFit(SOFA, space, DEFAULT_FIT_CHECK_OPTIONS);
+        expect(rotated).toMatchObject({ fits: true, rotated: true });
+        expect(rotated.axes.map(({ required }) => required)).toEqual([
+            1, 0.8, 2,
+        ]);
+
+        expect(checkFit(SOFA, space, NO_ROTATION)).toMatchObject({
+            fits: false,
+            rotated: false,
+            verdict: 'too-large',
+        });
+    });
+
+    it('applies the clearances to the rotated footprint', () => {
+        const result = checkFit(
+            SOFA,
+            { width: 1.7, height: 1, depth: 2.6 },
+            { clearanceSides: 0.3, clearanceFront: 0.5, allowRotation: true }
+        );
+        expect(result.rotated).toBe(true);
+        expect(result.axes[0].required).toBeCloseTo(1.6);
+        expect(result.axes[2].required).toBeCloseTo(2.5);
+        expect(result.fits).toBe(true);
+    });
+
+    it('keeps the authored orientation when turning gains nothing', () => {
+        const result = checkFit(
+            SOFA,
+            { width: 4, height: 1, depth: 4 },
+            DEFAULT_FIT_CHECK_OPTIONS
+        );
+        expect(result.rotated).toBe(false);
+    });
+
+    it('grades the fit by the fullest axis', () => {
+        const verdict = (width: number) =>
+            checkFit(SOFA, { width, height: 2, depth: 4 }, NO_ROTATION).verdict;
+        expect(verdict(2.2)).toBe('tight');
+        expect(verdict(3)).toBe('good');
+        expect(verdict(3.4)).toBe('perfect');
+        expect(verdict(1.9)).toBe('too-large');
+    });
+
+    it('does not fit into a space with no room on an axis', () => {
+        const result = checkFit(
+            SOFA,
+            { width: 4, height: 0, depth: 4 },
+            DEFAULT_FIT_CHECK_OPTIONS
+        );
+        expect(result.axes[1]).toMatchObject({
+            usage: Infinity,
+            fits: false,
+        });
+        expect(result.fits).toBe(false);
+    });
+});
@@ -0,0 +1,145 @@
+import type { ProductDimensions } from '~/products/catalog';
+
+// Free space the product has to fit into, in meters
+export interface SpaceMeasurements {
+    width: number;
+    height: number;
+    depth: number;
+}
+
+export interface FitCheckOptions {
+    clearanceFront: number; // walkway kept free in front, meters
+    clearanceSides: number; // gap kept free on each side, meters
+    allowRotation: boolean; // also try the footprint turned by 90°
+}
+
+export type FitAxis = 'width' | 'height' | 'depth';
+
+export interface AxisFit {
+    axis: FitAxis;
+    required: number;
+    available: number;
+    spare: number;
+    usage: number; // percentage of the available space
+    fits: boolean;
+}
+
+// Turned into a localized message by the viewer
+export type FitVerdict = 'too-large' | 'tight' | 'good' | 'perfect';
+
+export interface FitCheckResult {
+    fits: boolean;
+    rotated: boolean;
+    axes: AxisFit[];
+    verdict: FitVerdict;
+    icon: string;
+    color: string;
+}
+
+export const DEFAULT_FIT_CHECK_OPTIONS: FitCheckOptions = {
+    clearanceFront: 0,
+    clearanceSides: 0,
+    allowRotation: true,
+};
+
+const checkAxis = (
+    axis: FitAxis,
+    required: number,
+    available: number
+): AxisFit => ({
+    axis,
+    required,
+    available,
+    spare: available - required,
+    usage: available > 0 ? (required / available) * 100 : Infinity,
+    fits: required <= available,
+});
+
+const checkOrientation = (
+    dimensions: ProductDimensions,
+    space: SpaceMeasurements,
+    options: FitCheckOptions,
+    rotated: boolean
+): AxisFit[] => {
+    const footprintWidth = rotated ? dimensions.depth : dimensions.width;
+    const footprintDepth = rotated ? dimensions.width : dimensions.depth;
+    return [
+        checkAxis(
+            'width',
+            footprintWidth + options.clearanceSides * 2,
+            space.width
+        ),
+        checkAxis('height', dimensions.height, space.height),
+        checkAxis(
+            'depth',
+            footprintDepth + options.clearanceFront,
+            space.depth
+        ),
+    ];
+};
+
+// Ranks orientations: fitting beats not fitting, then the roomiest tightest axis
+const score = (axes: AxisFit[]): number => {
+    const fits = axes.every((axis) => axis.fits);
+    const tightest = Math.min(...axes.map((axis) => axis.spare));
+    return (fits ? 1e6 : 0) + tightest;
+};
+
+export const checkFit = (
+    dimensions: ProductDimensions,
+    space: SpaceMeasurements,
+    options: FitCheckOptions
+): FitCheckResult => {
+    let rotated = false;
+    let axes = checkOrientation(dimensions, space, options, false);
+
+    if (options.allowRotation) {
+        const rotatedAxes = checkOrientation(dimensions, space, options, true);
+        if (score(rotatedAxes) > score(axes)) {
+            rotated = true;
+            axes = rotatedAxes;
+        }
+    }
+
+    const fits = axes.every((axis) => axis.fits);
+    const spaceUsage = Math.max(...axes.map((axis) => axis.usage));
+
+    if (!fits) {
+        return {
+            fits,
+            rotated,
+            axes,
+            verdict: 'too-large',
+            icon: '⚠️',
+            color: '#ef4444', // red
+        };
+    }
+    if (spaceUsage > 80) {
+        return {
+            fits,
+            rotated,
+            axes,
+            verdict: 'tight',
+            icon: '⚡',
+            color: '#f59e0b', // amber
+        };
+    }
+    if (spaceUsage > 60) {
+        return {
+            fits,
+            rotated,
+            axes,
+            verdict: 'good',
+            icon: '✓',
+            color: '#10b981', // green
+        };
+    }
+    return {
+        fits,
+        rotated,
+        axes,
+        verdict: 'perfect',
+        icon: '✓',
+        color: '#10b981', // green
+    };
+};
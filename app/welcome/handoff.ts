@@ -0,0 +1,54 @@
+import {
+    encodeCompactConfiguration,
+    type ProductConfiguration,
+} from '~/products/configuration';
+
+// Query parameters added to the QR link: `ar=1` asks the phone to go
+// straight into AR, `hs` is the desktop's handoff session id
+export const HANDOFF_AR_PARAM = 'ar';
+export const HANDOFF_SESSION_PARAM = 'hs';
+
+export type HandoffStatus = 'waiting' | 'opened' | 'ar-started';
+
+export const createHandoffSessionId = (): string => {
+    return typeof crypto !== 'undefined' && 'randomUUID' in crypto
+        ? crypto.randomUUID()
+        : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 12)}`;
+};
+
+export const buildHandoffUrl = (
+    origin: string,
+    configuration: ProductConfiguration,
+    sessionId: string
+): string => {
+    const token = encodeCompactConfiguration(configuration);
+    const params = new URLSearchParams({
+        [HANDOFF_AR_PARAM]: '1',
+        [HANDOFF_SESSION_PARAM]: sessionId,
+    });
+    return `${origin}/s/${token}?${params}`;
+};
+
+export const fetchHandoffStatus = async (
+    sessionId: string
+): Promise<HandoffStatus> => {
+    const response = await fetch(`/handoff/${encodeURIComponent(sessionId)}`);
+    if (!response.ok) {
+        throw new Error(`Handoff status failed: ${response.status}`);
+    }
+    const session = await response.json();
+    return session.status;
+};
+
+export const reportHandoffStatus = async (
+    sessionId: string,
+    status: HandoffStatus,
+    productId: string
+): Promise<void> => {
+    await fetch(`/handoff/${encodeURIComponent(sessionId)}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status, productId }),
+        keepalive: true,
+    });
+};
@@ -0,0 +1,55 @@
+// One IndexedDB database for everything the viewer keeps on the device.
+// Bump DB_VERSION when adding a store; existing stores are left untouched.
+
+export const CAPTURES_STORE = 'captures';
+export const CONFIGURATIONS_STORE = 'configurations';
+
+const DB_NAME = 'ar-viewer';
+const DB_VERSION = 2;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                for (const name of [CAPTURES_STORE, CONFIGURATIONS_STORE]) {
+                    if (!db.objectStoreNames.contains(name)) {
+                        const store = db.createObjectStore(name, {
+                            keyPath: 'id',
+                        });
+                        store.createIndex('createdAt', 'createdAt');
+                    }
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error);
+            };
+        });
+    }
+    return dbPromise;
+};
+
+export const runTransaction = async <T>(
+    storeName: string,
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | undefined> => {
+    const db = await openDatabase();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction(storeName, mode);
+        const request = operation(transaction.objectStore(storeName));
+        transaction.oncomplete = () => resolve(request?.result);
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+    });
+};
+
+export const createId = (): string =>
+    typeof crypto !== 'undefined' && 'randomUUID' in crypto
+        ? crypto.randomUUID()
+        : `${Date.now()}-${Math.random().toString(36).slice(2)}`;
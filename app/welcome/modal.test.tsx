@@ -0,0 +1,87 @@
+// @vitest-environment jsdom
+import { cleanup, fireEvent, render, screen } from '@testing-library/react';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import Modal from './modal';
+
+afterEach(() => {
+    cleanup();
+    document.body.replaceChildren();
+});
+
+const renderModal = (onClose = vi.fn()) => {
+    const opener = document.createElement('button');
+    document.body.appendChild(opener);
+    opener.focus();
+    const view = render(
+        <Modal
+            title='Start AR?'
+            description='Point at the floor'
+            onClose={onClose}
+        >
+            <button>Cancel</button>
+            <button>Start</button>
+        </Modal>
+    );
+    return { ...view, opener, onClose };
+};
+
+describe('Modal', () => {
+    it('is a labelled dialog', () => {
+        renderModal();
+        const dialog = screen.getByRole('dialog', { name: 'Start AR?' });
+        expect(dialog.getAttribute('aria-modal')).toBe('true');
+        expect(dialog.getAttribute('aria-describedby')).toBe(
+            screen.getByText('Point at the floor').id
+        );
+    });
+
+    it('focuses the first action on open', () => {
+        renderModal();
+        expect(document.activeElement).toBe(screen.getByText('Cancel'));
+    });
+
+    it('wraps Tab around the actions', () => {
+        renderModal();
+        const first = screen.getByText('Cancel');
+        const last = screen.getByText('Start');
+
+        last.focus();
+        fireEvent.keyDown(document, { key: 'Tab' });
+        expect(document.activeElement).toBe(first);
+
+        fireEvent.keyDown(document, { key: 'Tab', shiftKey: true });
+        expect(document.activeElement).toBe(last);
+    });
+
+    it('leaves Tab alone between the first and last action', () => {
+        renderModal();
+        const event = new KeyboardEvent('keydown', {
+            key: 'Tab',
+            cancelable: true,
+        });
+        document.dispatchEvent(event);
+        expect(event.defaultPrevented).toBe(false);
+    });
+
+    it('closes on Escape', () => {
+        const { onClose } = renderModal();
+        fireEvent.keyDown(document, { key: 'Escape' });
+        expect(onClose).toHaveBeenCalledTimes(1);
+    });
+
+    it('closes on a backdrop click but not inside the dialog', () => {
+        const { container, onClose } = renderModal();
+        fireEvent.click(screen.getByRole('dialog'));
+        expect(onClose).not.toHaveBeenCalled();
+        fireEvent.click(container.querySelector('.modal-overlay') as Element);
+        expect(onClose).toHaveBeenCalledTimes(1);
+    });
+
+    it('returns focus to the opener and stops listening when closed', () => {
+        const { opener, onClose, unmount } = renderModal();
+        unmount();
+        expect(document.activeElement).toBe(opener);
+        fireEvent.keyDown(document, { key: 'Escape' });
+        expect(onClose).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,102 @@
+import { useEffect, useId, useRef, type ReactNode } from 'react';
+
+const FOCUSABLE =
+    'a[href], button:not([disabled]), input:not([disabled]), select:not([disabled]), textarea:not([disabled]), [tabindex]:not([tabindex="-1"])';
+
+interface ModalProps {
+    title: string;
+    description?: string;
+    icon?: string;
+    onClose: () => void;
+    children: ReactNode; // actions
+}
+
+// Dialog with the focus kept inside while open: Tab wraps around, Escape and
+// clicks on the backdrop close it, and focus returns to where it came from
+export default function Modal({
+    title,
+    description,
+    icon,
+    onClose,
+    children,
+}: ModalProps) {
+    const titleId = useId();
+    const descriptionId = useId();
+    const contentRef = useRef<HTMLDivElement>(null);
+    const onCloseRef = useRef(onClose);
+    onCloseRef.current = onClose;
+
+    useEffect(() => {
+        const content = contentRef.current;
+        if (!content) return;
+        const previouslyFocused = document.activeElement as HTMLElement | null;
+        const focusable = () =>
+            Array.from(content.querySelectorAll<HTMLElement>(FOCUSABLE));
+        (focusable()[0] ?? content).focus();
+
+        const handleKeyDown = (event: KeyboardEvent) => {
+            if (event.key === 'Escape') {
+                event.preventDefault();
+                onCloseRef.current();
+                return;
+            }
+            if (event.key !== 'Tab') return;
+            const elements = focusable();
+            if (elements.length === 0) {
+                event.preventDefault();
+                return;
+            }
+            const first = elements[0];
+            const last = elements[elements.length - 1];
+            if (event.shiftKey && document.activeElement === first) {
+                event.preventDefault();
+                last.focus();
+            } else if (!event.shiftKey && document.activeElement === last) {
+                event.preventDefault();
+                first.focus();
+            }
+        };
+
+        document.addEventListener('keydown', handleKeyDown);
+        return () => {
+            document.removeEventListener('keydown', handleKeyDown);
+            previouslyFocused?.focus();
+        };
+    }, []);
+
+    return (
+        <div
+            className='modal-overlay'
+            onClick={(event) => {
+                if (event.target === event.currentTarget) onClose();
+            }}
+        >
+            <div
+                ref={contentRef}
+                className='modal-content'
+                role='dialog'
+                aria-modal='true'
+                aria-labelledby={titleId}
+                aria-describedby={description ? descriptionId : undefined}
+                tabIndex={-1}
+            >
+                <div className='modal-header'>
+                    {icon && (
+                        <div className='modal-icon' aria-hidden='true'>
+                            {icon}
+                        </div>
+                    )}
+                    <h2 id={titleId} className='modal-title'>
+                        {title}
+                    </h2>
+                    {description && (
+                        <p id={descriptionId} className='modal-description'>
+                            {description}
+                        </p>
+                    )}
+                </div>
+                <div className='modal-actions'>{children}</div>
+            </div>
+        </div>
+    );
+}
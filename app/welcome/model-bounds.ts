@@ -0,0 +1,88 @@
+import type { ModelViewerElement } from '@google/model-viewer';
+
+export interface Vector3 {
+    x: number;
+    y: number;
+    z: number;
+}
+
+// Axis-aligned bounding box of the loaded model, in model space (meters)
+export interface ModelBounds {
+    size: Vector3;
+    center: Vector3;
+}
+
+export interface HotspotPlacement {
+    position: string;
+    normal: string;
+}
+
+// Null until the element is defined and has a model; the methods are missing
+// while model-viewer is still loading
+export const readModelBounds = (
+    modelViewer: ModelViewerElement | null
+): ModelBounds | null => {
+    if (
+        typeof modelViewer?.getDimensions !== 'function' ||
+        typeof modelViewer?.getBoundingBoxCenter !== 'function'
+    ) {
+        return null;
+    }
+    const size = modelViewer.getDimensions();
+    const center = modelViewer.getBoundingBoxCenter();
+    if (!size || size.x <= 0 || size.y <= 0 || size.z <= 0) {
+        return null;
+    }
+    return {
+        size: { x: size.x, y: size.y, z: size.z },
+        center: { x: center.x, y: center.y, z: center.z },
+    };
+};
+
+const toAttribute = (x: number, y: number, z: number): string =>
+    `${x}m ${y}m ${z}m`;
+
+// Places each measurement label on the middle of the box edge it measures:
+// width along the top front edge, height up the front right edge and depth
+// along the top right edge.
+export const getMeasurementHotspots = ({
+    size,
+    center,
+}: ModelBounds): Record<'width' | 'height' | 'depth', HotspotPlacement> => {
+    const maxX = center.x + size.x / 2;
+    const maxY = center.y + size.y / 2;
+    const maxZ = center.z + size.z / 2;
+    return {
+        width: {
+            position: toAttribute(center.x, maxY, maxZ),
+            normal: '0m 0m 1m',
+        },
+        height: {
+            position: toAttribute(maxX, center.y, maxZ),
+            normal: '1m 0m 0m',
+        },
+        depth: {
+            position: toAttribute(maxX, maxY, center.z),
+            normal: '1m 0m 0m',
+        },
+    };
+};
+
+// Where a click at viewport coordinates hits the model, ready for a hotspot's
+// data-position and data-normal. Null when the click misses the model.
+export const readSurfaceHotspot = (
+    modelViewer: ModelViewerElement | null,
+    clientX: number,
+    clientY: number
+): HotspotPlacement | null => {
+    if (typeof modelViewer?.positionAndNormalFromPoint !== 'function') {
+        return null;
+    }
+    const hit = modelViewer.positionAndNormalFromPoint(clientX, clientY);
+    if (!hit) return null;
+    const { position, normal } = hit;
+    return {
+        position: toAttribute(position.x, position.y, position.z),
+        normal: toAttribute(normal.x, normal.y, normal.z),
+    };
+};
@@ -0,0 +1,72 @@
+// Model loading as a small state machine: an optional low-poly preview is
+// shown first and swapped for the full model once that has downloaded too.
+// model-viewer keeps showing the current model while the next `src` loads,
+// so the swap is seamless.
+
+export type ModelLoadStatus = 'loading' | 'preview' | 'ready' | 'failed';
+
+export interface ModelLoadState {
+    status: ModelLoadStatus;
+    src: string; // what model-viewer is loading or showing
+    fullSrc: string;
+    progress: number; // 0-1, for the model currently downloading
+    attempt: number; // bumped on retry so the viewer is recreated
+}
+
+export type ModelLoadEvent =
+    | { type: 'PROGRESS'; progress: number }
+    | { type: 'LOADED' }
+    | { type: 'FAILED' }
+    | { type: 'RETRY' };
+
+export const createModelLoadState = (
+    fullSrc: string,
+    previewSrc: string | null
+): ModelLoadState => ({
+    status: 'loading',
+    src: previewSrc ?? fullSrc,
+    fullSrc,
+    progress: 0,
+    attempt: 0,
+});
+
+export const modelLoadReducer = (
+    state: ModelLoadState,
+    event: ModelLoadEvent
+): ModelLoadState => {
+    switch (event.type) {
+        case 'PROGRESS':
+            return state.status === 'failed' || state.status === 'ready'
+                ? state
+                : { ...state, progress: event.progress };
+        case 'LOADED':
+            if (state.src !== state.fullSrc) {
+                return {
+                    ...state,
+                    status: 'preview',
+                    src: state.fullSrc,
+                    progress: 0,
+                };
+            }
+            return { ...state, status: 'ready', progress: 1 };
+        case 'FAILED':
+            // A broken preview isn't worth an error, go straight to the
+            // full model
+            if (state.status === 'loading' && state.src !== state.fullSrc) {
+                return { ...state, src: state.fullSrc, progress: 0 };
+            }
+            return { ...state, status: 'failed' };
+        case 'RETRY':
+            return {
+                ...state,
+                status: 'loading',
+                src: state.fullSrc,
+                progress: 0,
+                attempt: state.attempt + 1,
+            };
+    }
+};
+
+// The preview can be interacted with, so it counts as loaded
+export const isModelShown = (state: ModelLoadState): boolean =>
+    state.status === 'preview' || state.status === 'ready';
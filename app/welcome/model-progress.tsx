@@ -0,0 +1,42 @@
+import { useI18n } from '~/i18n/i18n-context';
+import type { ModelLoadState } from './model-loading';
+
+interface ModelProgressProps {
+    state: ModelLoadState;
+}
+
+// Replaces model-viewer's own progress bar. It stays up while the preview is
+// shown so the full model's download is visible too.
+export default function ModelProgress({ state }: ModelProgressProps) {
+    const { t } = useI18n();
+    if (state.status === 'ready' || state.status === 'failed') {
+        // An empty slot keeps the built-in bar hidden
+        return <div slot='progress-bar' />;
+    }
+    const percent = Math.round(state.progress * 100);
+    const label =
+        state.status === 'preview'
+            ? t('viewer.loadingDetail')
+            : t('viewer.loading');
+    return (
+        <div
+            slot='progress-bar'
+            className='model-progress'
+            role='progressbar'
+            aria-label={label}
+            aria-valuemin={0}
+            aria-valuemax={100}
+            aria-valuenow={percent}
+        >
+            <div className='model-progress-track'>
+                <div
+                    className='model-progress-bar'
+                    style={{ width: `${percent}%` }}
+                />
+            </div>
+            <span className='model-progress-label' aria-hidden='true'>
+                {label} · {percent}%
+            </span>
+        </div>
+    );
+}
@@ -0,0 +1,40 @@
+// Served by routes/decoder.ts; model-viewer would otherwise fetch Draco's
+// decoder from gstatic and can't decode meshopt models at all
+const DECODER_PATH = '/decoders/';
+
+// Global configuration that every <model-viewer> reads as it is constructed
+interface ModelViewerConfig {
+    dracoDecoderLocation?: string;
+    meshoptDecoderLocation?: string;
+}
+
+const configureDecoders = () => {
+    const scope = self as typeof self & {
+        ModelViewerElement?: ModelViewerConfig;
+    };
+    scope.ModelViewerElement = {
+        ...scope.ModelViewerElement,
+        dracoDecoderLocation: DECODER_PATH,
+        meshoptDecoderLocation: `${DECODER_PATH}meshopt_decoder.js`,
+    };
+};
+
+let loading: Promise<void> | null = null;
+
+// Registers the <model-viewer> custom element from the bundled package. The
+// import is dynamic because the element touches `window` on load and can't
+// run during server rendering. A failed load can be retried. The decoders
+// are configured first since defining the element upgrades any already in
+// the page.
+export const loadModelViewer = (): Promise<void> => {
+    if (!loading) {
+        configureDecoders();
+        loading = import('@google/model-viewer')
+            .then(() => undefined)
+            .catch((error) => {
+                loading = null;
+                throw error;
+            });
+    }
+    return loading;
+};
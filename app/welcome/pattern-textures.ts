@@ -0,0 +1,62 @@
+import type { ProductPattern } from '~/products/materials';
+
+const TILE_SIZE = 256;
+
+// Patterns are drawn in light greys so the base color factor tints them
+const drawPattern = (
+    ctx: CanvasRenderingContext2D,
+    pattern: Exclude<ProductPattern, 'solid'>
+) => {
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, TILE_SIZE, TILE_SIZE);
+    ctx.fillStyle = '#c8c8c8';
+    ctx.strokeStyle = '#c8c8c8';
+
+    if (pattern === 'stripes') {
+        for (let x = 0; x < TILE_SIZE; x += 32) {
+            ctx.fillRect(x, 0, 12, TILE_SIZE);
+        }
+    } else if (pattern === 'checks') {
+        for (let y = 0; y < TILE_SIZE; y += 32) {
+            for (let x = (y / 32) % 2 === 0 ? 0 : 32; x < TILE_SIZE; x += 64) {
+                ctx.fillRect(x, y, 32, 32);
+            }
+        }
+    } else {
+        ctx.lineWidth = 6;
+        for (let y = -TILE_SIZE; y < TILE_SIZE * 2; y += 32) {
+            for (let x = 0; x < TILE_SIZE; x += 32) {
+                const up = (x / 32) % 2 === 0;
+                ctx.beginPath();
+                ctx.moveTo(x, y + (up ? 32 : 0));
+                ctx.lineTo(x + 32, y + (up ? 0 : 32));
+                ctx.stroke();
+            }
+        }
+    }
+};
+
+const cache = new Map<ProductPattern, string>();
+
+// Returns a tileable data URL for the pattern, or null for plain materials
+export const getPatternTextureUrl = (
+    pattern: string | undefined
+): string | null => {
+    if (!pattern || pattern === 'solid') return null;
+    if (!['stripes', 'checks', 'herringbone'].includes(pattern)) return null;
+
+    const id = pattern as Exclude<ProductPattern, 'solid'>;
+    const cached = cache.get(id);
+    if (cached) return cached;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = TILE_SIZE;
+    canvas.height = TILE_SIZE;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return null;
+
+    drawPattern(ctx, id);
+    const url = canvas.toDataURL('image/png');
+    cache.set(id, url);
+    return url;
+};
@@ -0,0 +1,112 @@
+import { useEffect, useRef, useState } from 'react';
+import QRCode from 'react-qr-code';
+import { useI18n } from '~/i18n/i18n-context';
+import type { ProductConfiguration } from '~/products/configuration';
+import {
+    buildHandoffUrl,
+    createHandoffSessionId,
+    fetchHandoffStatus,
+    type HandoffStatus,
+} from './handoff';
+
+const POLL_INTERVAL_MS = 3000;
+// The server forgets handoff sessions after 30 minutes
+const POLL_DURATION_MS = 30 * 60 * 1000;
+
+interface QRHandoffProps {
+    configuration: ProductConfiguration;
+}
+
+export default function QRHandoff({ configuration }: QRHandoffProps) {
+    const { t } = useI18n();
+    const [sessionId, setSessionId] = useState<string | null>(null);
+    const [origin, setOrigin] = useState('');
+    const [status, setStatus] = useState<HandoffStatus>('waiting');
+    const createdAtRef = useRef(0);
+
+    useEffect(() => {
+        setSessionId(createHandoffSessionId());
+        setOrigin(window.location.origin);
+        createdAtRef.current = Date.now();
+    }, []);
+
+    // Polls only while the tab is visible, until the phone enters AR or the
+    // session has expired
+    useEffect(() => {
+        if (!sessionId || status === 'ar-started') return;
+        let interval: ReturnType<typeof setInterval> | null = null;
+        const stop = () => {
+            if (interval) clearInterval(interval);
+            interval = null;
+        };
+        const expired = () =>
+            Date.now() - createdAtRef.current >= POLL_DURATION_MS;
+        const poll = async () => {
+            if (expired()) {
+                stop();
+                return;
+            }
+            try {
+                setStatus(await fetchHandoffStatus(sessionId));
+            } catch (error) {
+                console.error('Handoff status failed:', error);
+            }
+        };
+        const updatePolling = () => {
+            stop();
+            if (document.visibilityState === 'visible' && !expired()) {
+                interval = setInterval(poll, POLL_INTERVAL_MS);
+            }
+        };
+        updatePolling();
+        document.addEventListener('visibilitychange', updatePolling);
+        return () => {
+            stop();
+            document.removeEventListener('visibilitychange', updatePolling);
+        };
+    }, [sessionId, status]);
+
+    if (!sessionId || !origin) return null;
+
+    const url = buildHandoffUrl(origin, configuration, sessionId);
+
+    return (
+        <div className='info-card qr-handoff'>
+            <div className='qr-handoff-code'>
+                <QRCode
+                    value={url}
+                    size={168}
+                    level='M'
+                    title={t('handoff.qr')}
+                />
+            </div>
+            <div className='qr-content'>
+                <h2
+                    style={{
+                        fontSize: '24px',
+                        fontWeight: '700',
+                        marginBottom: '12px',
+                        color: '#1f2937',
+                    }}
+                >
+                    {t('handoff.title')}
+                </h2>
+                <p
+                    style={{
+                        fontSize: '14px',
+                        color: '#6b7280',
+                        marginBottom: '16px',
+                    }}
+                >
+                    {t('handoff.body')}
+                </p>
+                <span
+                    className={`status-badge ${status === 'waiting' ? 'warning' : 'success'}`}
+                    role='status'
+                >
+                    {t(`handoff.status.${status}`)}
+                </span>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,44 @@
+import type { FitCheckOptions, SpaceMeasurements } from './fit-check';
+
+export interface SavedSpace {
+    name: string;
+    space: SpaceMeasurements;
+    options: FitCheckOptions;
+}
+
+const STORAGE_KEY = 'ar-viewer:saved-spaces';
+
+export const loadSavedSpaces = (): SavedSpace[] => {
+    try {
+        const stored = window.localStorage.getItem(STORAGE_KEY);
+        const parsed = stored ? JSON.parse(stored) : [];
+        return Array.isArray(parsed) ? parsed : [];
+    } catch {
+        return [];
+    }
+};
+
+// The list still updates for this visit when storage is full or blocked
+const storeSpaces = (spaces: SavedSpace[]): SavedSpace[] => {
+    try {
+        window.localStorage.setItem(STORAGE_KEY, JSON.stringify(spaces));
+    } catch (error) {
+        console.error('Saving spaces failed:', error);
+    }
+    return spaces;
+};
+
+// Saving under an existing name replaces that entry
+export const saveSpace = (saved: SavedSpace): SavedSpace[] => {
+    const spaces = [
+        saved,
+        ...loadSavedSpaces().filter((entry) => entry.name !== saved.name),
+    ];
+    return storeSpaces(spaces);
+};
+
+export const deleteSavedSpace = (name: string): SavedSpace[] => {
+    return storeSpaces(
+        loadSavedSpaces().filter((entry) => entry.name !== name)
+    );
+};
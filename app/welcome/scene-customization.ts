@@ -0,0 +1,70 @@
+import type { ModelViewerElement } from '@google/model-viewer';
+import type { Material } from '@google/model-viewer/lib/features/scene-graph/material';
+import type { Texture } from '@google/model-viewer/lib/features/scene-graph/texture';
+import type { Customization } from '~/products/customization';
+import { getMaterialPreset } from '~/products/materials';
+import { getPatternTextureUrl } from './pattern-textures';
+
+interface OriginalMaterialState {
+    roughness: number;
+    metalness: number;
+    texture: Texture | null;
+}
+
+// Authored values are remembered per material so switching back to the
+// 'default' material or 'solid' pattern restores the model as shipped
+const originals = new WeakMap<Material, OriginalMaterialState>();
+const textures = new WeakMap<
+    ModelViewerElement,
+    Map<string, Promise<Texture | null>>
+>();
+
+const getTexture = (
+    modelViewer: ModelViewerElement,
+    url: string
+): Promise<Texture | null> => {
+    let byUrl = textures.get(modelViewer);
+    if (!byUrl) {
+        byUrl = new Map();
+        textures.set(modelViewer, byUrl);
+    }
+    let texture = byUrl.get(url);
+    if (!texture) {
+        texture = modelViewer.createTexture(url);
+        byUrl.set(url, texture);
+    }
+    return texture;
+};
+
+// Applies color, material preset and pattern to every material of the loaded
+// model through model-viewer's scene-graph API
+export const applyCustomizationToScene = async (
+    modelViewer: ModelViewerElement | null,
+    customization: Customization
+): Promise<void> => {
+    const materials = modelViewer?.model?.materials;
+    if (!modelViewer || !materials) return;
+
+    const preset = getMaterialPreset(customization.material);
+    const patternUrl = getPatternTextureUrl(customization.pattern);
+    const patternTexture = patternUrl
+        ? await getTexture(modelViewer, patternUrl)
+        : null;
+
+    for (const material of materials) {
+        const pbr = material.pbrMetallicRoughness;
+        if (!originals.has(material)) {
+            originals.set(material, {
+                roughness: pbr.roughnessFactor,
+                metalness: pbr.metallicFactor,
+                texture: pbr.baseColorTexture?.texture ?? null,
+            });
+        }
+        const original = originals.get(material)!;
+
+        pbr.setBaseColorFactor(customization.color);
+        pbr.setRoughnessFactor(preset ? preset.roughness : original.roughness);
+        pbr.setMetallicFactor(preset ? preset.metalness : original.metalness);
+        pbr.baseColorTexture?.setTexture(patternTexture ?? original.texture);
+    }
+};
@@ -0,0 +1,257 @@
+import { useEffect, useState } from 'react';
+import { useI18n } from '~/i18n/i18n-context';
+import type { MessageKey } from '~/i18n/messages/en';
+import {
+    fromMeters,
+    getInputUnit,
+    toMeters,
+    type LengthUnit,
+} from '~/products/units';
+import type { FitCheckOptions, SpaceMeasurements } from './fit-check';
+import {
+    deleteSavedSpace,
+    loadSavedSpaces,
+    saveSpace,
+    type SavedSpace,
+} from './saved-spaces';
+
+// A single axis measured elsewhere, e.g. with the AR tape measure
+export interface AxisMeasurement {
+    id: string;
+    axis: keyof SpaceMeasurements;
+    meters: number;
+}
+
+interface SpacePanelProps {
+    unit: LengthUnit;
+    space: SpaceMeasurements | null;
+    options: FitCheckOptions;
+    measurement: AxisMeasurement | null;
+    onChange: (
+        space: SpaceMeasurements | null,
+        options: FitCheckOptions
+    ) => void;
+}
+
+type SpaceField = keyof SpaceMeasurements;
+type ClearanceField = 'clearanceFront' | 'clearanceSides';
+type Draft = Record<SpaceField | ClearanceField, string>;
+
+const SPACE_FIELDS: { field: SpaceField; label: MessageKey }[] = [
+    { field: 'width', label: 'space.width' },
+    { field: 'height', label: 'space.height' },
+    { field: 'depth', label: 'space.depth' },
+];
+
+const CLEARANCE_FIELDS: { field: ClearanceField; label: MessageKey }[] = [
+    { field: 'clearanceFront', label: 'space.clearanceFront' },
+    { field: 'clearanceSides', label: 'space.clearanceSides' },
+];
+
+const toInput = (meters: number, unit: LengthUnit): string =>
+    String(Number(fromMeters(meters, getInputUnit(unit)).toFixed(2)));
+
+const parseInput = (value: string, unit: LengthUnit): number | null => {
+    const parsed = parseFloat(value);
+    return Number.isFinite(parsed) && parsed >= 0
+        ? toMeters(parsed, getInputUnit(unit))
+        : null;
+};
+
+export default function SpacePanel({
+    unit,
+    space,
+    options,
+    measurement,
+    onChange,
+}: SpacePanelProps) {
+    const { t } = useI18n();
+    const [draft, setDraft] = useState<Draft>({
+        width: '',
+        height: '',
+        depth: '',
+        clearanceFront: '',
+        clearanceSides: '',
+    });
+    const [savedSpaces, setSavedSpaces] = useState<SavedSpace[]>([]);
+    const [spaceName, setSpaceName] = useState('');
+
+    useEffect(() => {
+        setSavedSpaces(loadSavedSpaces());
+    }, []);
+
+    // Re-render the inputs when the unit changes or a saved space is loaded,
+    // but leave them alone while they already describe the current space so
+    // half-typed values like "2." survive
+    useEffect(() => {
+        const values: Record<keyof Draft, number | undefined> = {
+            width: space?.width,
+            height: space?.height,
+            depth: space?.depth,
+            clearanceFront: options.clearanceFront,
+            clearanceSides: options.clearanceSides,
+        };
+        setDraft((current) => {
+            const next = { ...current };
+            for (const field of Object.keys(values) as (keyof Draft)[]) {
+                const value = values[field];
+                const parsed = parseInput(current[field], unit) ?? 0;
+                if (value !== undefined && Math.abs(parsed - value) > 1e-6) {
+                    next[field] = toInput(value, unit);
+                }
+            }
+            return next;
+        });
+    }, [space, options, unit]);
+
+    const handleSpaceInput = (field: SpaceField, value: string) => {
+        const next = { ...draft, [field]: value };
+        setDraft(next);
+
+        const width = parseInput(next.width, unit);
+        const height = parseInput(next.height, unit);
+        const depth = parseInput(next.depth, unit);
+        if (width && height && depth) {
+            onChange({ width, height, depth }, options);
+        }
+    };
+
+    // Fills in a measured axis as if it had been typed, so the fit check
+    // updates as soon as the other two axes are known
+    useEffect(() => {
+        if (measurement) {
+            handleSpaceInput(
+                measurement.axis,
+                toInput(measurement.meters, unit)
+            );
+        }
+    }, [measurement?.id]);
+
+    const handleClearanceInput = (field: ClearanceField, value: string) => {
+        setDraft({ ...draft, [field]: value });
+        onChange(space, { ...options, [field]: parseInput(value, unit) ?? 0 });
+    };
+
+    const handleSave = () => {
+        if (!space || !spaceName.trim()) return;
+        setSavedSpaces(saveSpace({ name: spaceName.trim(), space, options }));
+        setSpaceName('');
+    };
+
+    const handleClear = () => {
+        setDraft({ ...draft, width: '', height: '', depth: '' });
+        onChange(null, options);
+    };
+
+    const handleLoad = (name: string) => {
+        const saved = savedSpaces.find((entry) => entry.name === name);
+        if (saved) {
+            onChange(saved.space, saved.options);
+        }
+    };
+
+    return (
+        <div className='info-card space-panel'>
+            <h3
+                style={{
+                    margin: '0 0 12px 0',
+                    fontSize: '16px',
+                    fontWeight: '700',
+                    color: '#1f2937',
+                }}
+            >
+                📐 {t('space.title')}
+            </h3>
+            <p className='space-panel-hint'>
+                {t('space.hint', { unit: getInputUnit(unit) })}
+            </p>
+            <div className='space-panel-grid'>
+                {SPACE_FIELDS.map(({ field, label }) => (
+                    <label key={field} className='space-panel-field'>
+                        {t(label)}
+                        <input
+                            type='number'
+                            min='0'
+                            step='any'
+                            inputMode='decimal'
+                            value={draft[field]}
+                            onChange={(e) =>
+                                handleSpaceInput(field, e.target.value)
+                            }
+                        />
+                    </label>
+                ))}
+                {CLEARANCE_FIELDS.map(({ field, label }) => (
+                    <label key={field} className='space-panel-field'>
+                        {t(label)}
+                        <input
+                            type='number'
+                            min='0'
+                            step='any'
+                            inputMode='decimal'
+                            value={draft[field]}
+                            onChange={(e) =>
+                                handleClearanceInput(field, e.target.value)
+                            }
+                        />
+                    </label>
+                ))}
+            </div>
+            <label className='space-panel-checkbox'>
+                <input
+                    type='checkbox'
+                    checked={options.allowRotation}
+                    onChange={(e) =>
+                        onChange(space, {
+                            ...options,
+                            allowRotation: e.target.checked,
+                        })
+                    }
+                />
+                {t('space.allowRotation')}
+            </label>
+            <div className='space-panel-actions'>
+                <input
+                    type='text'
+                    aria-label={t('space.name')}
+                    placeholder={t('space.namePlaceholder')}
+                    value={spaceName}
+                    onChange={(e) => setSpaceName(e.target.value)}
+                />
+                <button
+                    className='button-secondary'
+                    onClick={handleSave}
+                    disabled={!space || !spaceName.trim()}
+                >
+                    {t('space.save')}
+                </button>
+                {space && (
+                    <button className='button-secondary' onClick={handleClear}>
+                        {t('space.clear')}
+                    </button>
+                )}
+            </div>
+            {savedSpaces.length > 0 && (
+                <ul className='space-panel-saved'>
+                    {savedSpaces.map((saved) => (
+                        <li key={saved.name}>
+                            <button onClick={() => handleLoad(saved.name)}>
+                                {saved.name}
+                            </button>
+                            <button
+                                aria-label={t('space.delete', {
+                                    name: saved.name,
+                                })}
+                                onClick={() =>
+                                    setSavedSpaces(deleteSavedSpace(saved.name))
+                                }
+                            >
+                                ×
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+}
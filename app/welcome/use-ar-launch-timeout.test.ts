@@ -0,0 +1,49 @@
+// @vitest-environment jsdom
+import { renderHook } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AR_LAUNCH_TIMEOUT_MS, type ARSessionStatus } from './ar-session';
+import { useARLaunchTimeout } from './use-ar-launch-timeout';
+
+describe('useARLaunchTimeout', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    const render = (status: ARSessionStatus) => {
+        const dispatch = vi.fn();
+        const hook = renderHook(
+            ({ status }) => useARLaunchTimeout(status, dispatch),
+            { initialProps: { status } }
+        );
+        return { dispatch, ...hook };
+    };
+
+    it('fails a launch that never reports back', () => {
+        const { dispatch } = render('launching');
+        vi.advanceTimersByTime(AR_LAUNCH_TIMEOUT_MS - 1);
+        expect(dispatch).not.toHaveBeenCalled();
+        vi.advanceTimersByTime(1);
+        expect(dispatch).toHaveBeenCalledWith({
+            type: 'FAIL',
+            reason: 'launch-timeout',
+        });
+    });
+
+    it('is cancelled once the session starts', () => {
+        const { dispatch, rerender } = render('launching');
+        vi.advanceTimersByTime(AR_LAUNCH_TIMEOUT_MS / 2);
+        rerender({ status: 'tracking' });
+        vi.advanceTimersByTime(AR_LAUNCH_TIMEOUT_MS);
+        expect(dispatch).not.toHaveBeenCalled();
+    });
+
+    it('does nothing outside a launch', () => {
+        const { dispatch } = render('idle');
+        vi.advanceTimersByTime(AR_LAUNCH_TIMEOUT_MS * 2);
+        expect(dispatch).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,20 @@
+import { useEffect, type Dispatch } from 'react';
+import {
+    AR_LAUNCH_TIMEOUT_MS,
+    type ARSessionEvent,
+    type ARSessionStatus,
+} from './ar-session';
+
+// A launch that never reports back is treated as failed
+export const useARLaunchTimeout = (
+    status: ARSessionStatus,
+    dispatch: Dispatch<ARSessionEvent>
+): void => {
+    useEffect(() => {
+        if (status !== 'launching') return;
+        const timeout = setTimeout(() => {
+            dispatch({ type: 'FAIL', reason: 'launch-timeout' });
+        }, AR_LAUNCH_TIMEOUT_MS);
+        return () => clearTimeout(timeout);
+    }, [status, dispatch]);
+};
@@ -0,0 +1,91 @@
+// @vitest-environment jsdom
+import type { ModelViewerElement } from '@google/model-viewer';
+import { cleanup, render } from '@testing-library/react';
+import { useRef } from 'react';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+    useModelViewerEvents,
+    type ModelViewerEventHandlers,
+} from './use-model-viewer-events';
+
+afterEach(cleanup);
+
+// The key stands in for a retry, which recreates the element
+const Viewer = ({
+    handlers,
+    elementKey = 'first',
+}: {
+    handlers: ModelViewerEventHandlers;
+    elementKey?: string;
+}) => {
+    const ref = useRef<ModelViewerElement | null>(null);
+    useModelViewerEvents(ref, handlers);
+    return (
+        <div
+            key={elementKey}
+            data-testid='viewer'
+            ref={(element) => {
+                ref.current = element as ModelViewerElement | null;
+            }}
+        />
+    );
+};
+
+const dispatch = (element: Element, name: string, detail?: unknown) =>
+    element.dispatchEvent(new CustomEvent(name, { detail }));
+
+describe('useModelViewerEvents', () => {
+    it('calls the handler with the event and the viewer', () => {
+        const progress = vi.fn();
+        const { getByTestId } = render(<Viewer handlers={{ progress }} />);
+        const viewer = getByTestId('viewer');
+
+        dispatch(viewer, 'progress', { totalProgress: 0.5 });
+        expect(progress).toHaveBeenCalledTimes(1);
+        expect(progress.mock.calls[0][0].detail).toEqual({
+            totalProgress: 0.5,
+        });
+        expect(progress.mock.calls[0][1]).toBe(viewer);
+    });
+
+    it('calls the latest handlers without re-attaching', () => {
+        const first = vi.fn();
+        const second = vi.fn();
+        const { getByTestId, rerender } = render(
+            <Viewer handlers={{ load: first }} />
+        );
+        rerender(<Viewer handlers={{ load: second }} />);
+
+        dispatch(getByTestId('viewer'), 'load', { url: 'sofa.glb' });
+        expect(first).not.toHaveBeenCalled();
+        expect(second).toHaveBeenCalledTimes(1);
+    });
+
+    it('follows the element when it is recreated', () => {
+        const error = vi.fn();
+        const { getByTestId, rerender } = render(
+            <Viewer handlers={{ error }} />
+        );
+        const previous = getByTestId('viewer');
+        rerender(<Viewer handlers={{ error }} elementKey='second' />);
+        const current = getByTestId('viewer');
+        expect(current).not.toBe(previous);
+
+        dispatch(previous, 'error', { type: 'loadfailure' });
+        expect(error).not.toHaveBeenCalled();
+        dispatch(current, 'error', { type: 'loadfailure' });
+        expect(error).toHaveBeenCalledTimes(1);
+    });
+
+    it('stops listening on unmount', () => {
+        const arStatus = vi.fn();
+        const { getByTestId, unmount } = render(
+            <Viewer handlers={{ 'ar-status': arStatus }} />
+        );
+        const viewer = getByTestId('viewer');
+        unmount();
+
+        dispatch(viewer, 'ar-status', { status: 'session-started' });
+        expect(arStatus).not.toHaveBeenCalled();
+    });
+});
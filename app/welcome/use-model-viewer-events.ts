@@ -0,0 +1,92 @@
+import type { ModelViewerElement } from '@google/model-viewer';
+import { useEffect, useRef, type RefObject } from 'react';
+
+export type ModelViewerARStatus =
+    | 'not-presenting'
+    | 'session-started'
+    | 'object-placed'
+    | 'failed';
+
+// The model-viewer events the viewers listen to, with their details
+export interface ModelViewerEventMap {
+    load: CustomEvent<{ url: string }>;
+    progress: CustomEvent<{ totalProgress: number }>;
+    error: CustomEvent<{ type: string; sourceError?: unknown }>;
+    'ar-status': CustomEvent<{ status: ModelViewerARStatus }>;
+    'camera-change': CustomEvent<{
+        source: 'user-interaction' | 'automatic' | 'none';
+    }>;
+    'quick-look-button-tapped': CustomEvent<undefined>;
+}
+
+export type ModelViewerEventName = keyof ModelViewerEventMap;
+
+export type ModelViewerEventHandlers = {
+    [Name in ModelViewerEventName]?: (
+        event: ModelViewerEventMap[Name],
+        viewer: ModelViewerElement
+    ) => void;
+};
+
+const EVENT_NAMES: ModelViewerEventName[] = [
+    'load',
+    'progress',
+    'error',
+    'ar-status',
+    'camera-change',
+    'quick-look-button-tapped',
+];
+
+const attach = (
+    viewer: ModelViewerElement,
+    handlersRef: RefObject<ModelViewerEventHandlers>
+): (() => void) => {
+    const listeners = EVENT_NAMES.map((name) => {
+        const listener = (event: Event) => {
+            const handler = handlersRef.current[name] as
+                | ((event: Event, viewer: ModelViewerElement) => void)
+                | undefined;
+            handler?.(event, viewer);
+        };
+        viewer.addEventListener(name, listener);
+        return { name, listener };
+    });
+    return () =>
+        listeners.forEach(({ name, listener }) =>
+            viewer.removeEventListener(name, listener)
+        );
+};
+
+// React handles onLoad, onError and onProgress as its own events and never
+// attaches them to custom elements, and it keeps the case of other on* props
+// (onAr-status would listen for "Ar-status"), so model-viewer's events are
+// wired up by hand. The listeners follow the element when it is recreated,
+// e.g. by a retry, and always call the latest handlers.
+export const useModelViewerEvents = (
+    ref: RefObject<ModelViewerElement | null>,
+    handlers: ModelViewerEventHandlers
+): void => {
+    const handlersRef = useRef(handlers);
+    handlersRef.current = handlers;
+    const attachedRef = useRef<{
+        viewer: ModelViewerElement;
+        detach: () => void;
+    } | null>(null);
+
+    useEffect(() => {
+        const viewer = ref.current;
+        if (attachedRef.current?.viewer === viewer) return;
+        attachedRef.current?.detach();
+        attachedRef.current = viewer
+            ? { viewer, detach: attach(viewer, handlersRef) }
+            : null;
+    });
+
+    useEffect(
+        () => () => {
+            attachedRef.current?.detach();
+            attachedRef.current = null;
+        },
+        []
+    );
+};
@@ -0,0 +1,120 @@
+// @vitest-environment jsdom
+import {
+    act,
+    cleanup,
+    fireEvent,
+    render,
+    screen,
+} from '@testing-library/react';
+import axe from 'axe-core';
+import { MemoryRouter } from 'react-router';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Cart } from '~/commerce/cart';
+import type { LiveEvent } from '~/live/protocol';
+import { getProduct, type Product } from '~/products/catalog';
+import { DEFAULT_CUSTOMIZATION } from '~/products/customization';
+import ProductARViewer from './welcome';
+
+// The real element needs WebGL; an unregistered <model-viewer> is enough to
+// check the markup around it
+vi.mock('./model-viewer-loader', () => ({
+    loadModelViewer: () => Promise.resolve(),
+}));
+
+// Stands in for the server-sent event stream, handing events to the session
+let receiveLiveEvent: ((event: LiveEvent) => void) | null = null;
+vi.mock('~/live/live-client', () => ({
+    openLiveStream: (
+        _sessionId: string,
+        _participant: unknown,
+        _productId: string,
+        onEvent: (event: LiveEvent) => void
+    ) => {
+        receiveLiveEvent = onEvent;
+        return { close: () => {}, readyState: 1 };
+    },
+    sendLiveMessage: () => Promise.resolve(),
+    getLiveSessionUrl: (sessionId: string) => `/?live=${sessionId}`,
+}));
+
+const EMPTY_CART: Cart = {
+    id: 'test',
+    lines: [],
+    itemCount: 0,
+    total: 0,
+    currency: 'EUR',
+};
+
+beforeEach(() => {
+    vi.stubGlobal('fetch', async () => Response.json(EMPTY_CART));
+    // jsdom has no object URLs (nor IndexedDB, so the saved and capture
+    // panels log a failed load and stay empty)
+    URL.createObjectURL = () => 'blob:test';
+    URL.revokeObjectURL = () => {};
+});
+
+afterEach(() => {
+    receiveLiveEvent = null;
+    cleanup();
+    vi.unstubAllGlobals();
+});
+
+const renderViewer = async () => {
+    const view = render(
+        <MemoryRouter initialEntries={['/products/sofa']}>
+            <ProductARViewer
+                product={getProduct('sofa') as Product}
+                options={null}
+                assets={null}
+                authoring={false}
+            />
+        </MemoryRouter>
+    );
+    // Let the loader promise and the effects it triggers settle
+    await act(async () => {});
+    return view;
+};
+
+describe('ProductARViewer', () => {
+    it('has no axe violations', async () => {
+        const { container } = await renderViewer();
+
+        const results = await axe.run(container, {
+            // jsdom has no layout or canvas to measure contrast with
+            rules: { 'color-contrast': { enabled: false } },
+        });
+        expect(
+            results.violations.map(({ id, nodes }) => ({
+                id,
+                targets: nodes.map((node) => node.target.join(' ')),
+            }))
+        ).toEqual([]);
+    });
+
+    it('applies a customization received in a live session', async () => {
+        const { container } = await renderViewer();
+        fireEvent.change(screen.getByLabelText('Your name'), {
+            target: { value: 'Ana' },
+        });
+        fireEvent.click(screen.getByRole('button', { name: 'Start session' }));
+        expect(receiveLiveEvent).not.toBe(null);
+
+        act(() =>
+            receiveLiveEvent?.({
+                type: 'update',
+                from: 'someone-else',
+                message: {
+                    type: 'customization',
+                    customization: { ...DEFAULT_CUSTOMIZATION, scale: 1.5 },
+                },
+            })
+        );
+        expect(
+            container.querySelector('model-viewer')?.getAttribute('scale')
+        ).toBe('1.5 1.5 1.5');
+        expect(screen.getByLabelText(/Size: 1\.5×/)).toHaveProperty(
+            'value',
+            '1.5'
+        );
+    });
+});
@@ -1,4 +1,146 @@
-import React, { useState, useCallback, useEffect, useRef } from 'react';
+import React, {
+    lazy,
+    Suspense,
+    useState,
+    useCallback,
+    useEffect,
+    useId,
+    useReducer,
+    useRef,
+} from 'react';
+import type { ModelViewerElement } from '@google/model-viewer';
+import { Link } from 'react-router';
+import { useCapabilities } from '~/device/capabilities-context';
+import {
+    getPosterUrl,
+    type Product,
+    type ProductMaterial,
+} from '~/products/catalog';
+import {
+    DEFAULT_CUSTOMIZATION,
+    getVariantUrl,
+    isCustomized,
+    type Customization,
+} from '~/products/customization';
+import {
+    createConfiguration,
+    decodeConfiguration,
+    encodeConfiguration,
+    type ConfigurationWarning,
+    type PlacementMode,
+    type ProductConfiguration,
+} from '~/products/configuration';
+import {
+    DEFAULT_UNITS,
+    formatLength,
+    getUnitSystem,
+    LENGTH_UNITS,
+    type LengthUnit,
+    type UnitSystem,
+} from '~/products/units';
+import { encodeCompareVariants } from '~/compare/compare-variants';
+import AuthoringPanel from '~/features/authoring-panel';
+import {
+    createDraftFeature,
+    toDraftFeatures,
+    type DraftFeature,
+} from '~/features/feature-authoring';
+import FeatureHotspots from '~/features/feature-hotspots';
+import { useI18n } from '~/i18n/i18n-context';
+import LivePanel from '~/live/live-panel';
+import { getLiveSessionUrl } from '~/live/live-client';
+import { LIVE_SESSION_PARAM } from '~/live/protocol';
+import { useLiveSession } from '~/live/use-live-session';
+import SavedPanel from '~/saved/saved-panel';
+import { getDefaultUnitSystem } from '~/i18n/locale';
+import {
+    getMeasurementHotspots,
+    readModelBounds,
+    readSurfaceHotspot,
+    type ModelBounds,
+} from './model-bounds';
+import {
+    checkFit,
+    DEFAULT_FIT_CHECK_OPTIONS,
+    type AxisFit,
+    type FitAxis,
+    type FitCheckOptions,
+    type FitCheckResult,
+    type SpaceMeasurements,
+} from './fit-check';
+import SpacePanel, { type AxisMeasurement } from './space-panel';
+import CustomizationPanel from './customization-panel';
+import { applyCustomizationToScene } from './scene-customization';
+import QRHandoff from './qr-handoff';
+import {
+    HANDOFF_AR_PARAM,
+    HANDOFF_SESSION_PARAM,
+    reportHandoffStatus,
+} from './handoff';
+import CaptureGallery from './capture-gallery';
+import {
+    DEFAULT_CAPTURE_OPTIONS,
+    renderCapture,
+    type CaptureOptions,
+} from './capture-render';
+import {
+    deleteCaptures,
+    listCaptures,
+    saveCapture,
+    type StoredCapture,
+} from './capture-store';
+import {
+    arSessionReducer,
+    describeARStatus,
+    getARMode,
+    INITIAL_AR_SESSION,
+    isARActive,
+} from './ar-session';
+import ARRecovery from './ar-recovery';
+import { useARLaunchTimeout } from './use-ar-launch-timeout';
+import { loadModelViewer } from './model-viewer-loader';
+import {
+    useModelViewerEvents,
+    type ModelViewerEventMap,
+} from './use-model-viewer-events';
+import { cacheProductAssets } from '~/pwa/service-worker';
+import { trackEvent } from '~/analytics/tracker';
+import { getMaterialPreset, isProductPattern } from '~/products/materials';
+import type { Cart } from '~/commerce/cart';
+import { addToCart, fetchCart } from '~/commerce/cart-client';
+import { buildQuickLookUrl } from '~/commerce/quick-look';
+import { formatPrice, getConfiguredPrice } from '~/products/pricing';
+import {
+    getOptionViolations,
+    getStockInfo,
+    type ProductOptionSchema,
+} from '~/products/options';
+import {
+    pickModelUrl,
+    pickPreviewUrl,
+    type ProductAssets,
+} from '~/products/asset-manifest';
+import {
+    createModelLoadState,
+    isModelShown,
+    modelLoadReducer,
+} from './model-loading';
+import ModelProgress from './model-progress';
+import AddToCart from './add-to-cart';
+import Modal from './modal';
+import CameraControls, {
+    getCameraView,
+    INITIAL_CAMERA_ORBIT,
+    resetCamera,
+    setCameraView,
+} from './camera-controls';
+import { createId } from './indexed-db';
+
+// Only WebXR devices render the planner, so three.js stays out of the main
+// bundle for everyone else
+const RoomPlanner = lazy(() => import('~/webxr/room-planner'));
+
+const UNIT_SYSTEMS: UnitSystem[] = ['metric', 'imperial'];
 
 // --- A-FRAME/AR.JS CUSTOM ELEMENTS TYPING FIX ---
 declare module 'react' {
@@ -11,11 +153,12 @@ declare module 'react' {
             'a-entity': any;
             'a-text': any;
             'model-viewer': React.DetailedHTMLProps<
-                React.HTMLAttributes<HTMLElement>,
-                HTMLElement
+                React.HTMLAttributes<ModelViewerElement>,
+                ModelViewerElement
             > & {
                 src?: string;
                 'ios-src'?: string;
+                poster?: string;
                 ar?: boolean;
                 'ar-modes'?: string;
                 'ar-scale'?: string;
@@ -34,309 +177,709 @@ declare module 'react' {
                 scale?: string;
                 'auto-rotate'?: boolean;
                 'rotation-per-second'?: string;
-                onLoad?: (e: any) => void;
-                'onAr-status'?: (e: any) => void;
-                'onModel-visibility'?: (e: any) => void;
-                'onCamera-change'?: (e: any) => void;
             };
         }
     }
 }
 
-const BASE_MODEL_URL = '/public/sofa_v4.glb';
-const BASE_USDZ_URL = '/public/sofa_v4.usdz';
-
-interface Customization {
-    color: string;
-    scale: number;
-    pattern?: string;
-    material?: string;
-}
-
 interface Dimensions {
     width: number;
     height: number;
     depth: number;
 }
 
-interface FitCheckResult {
-    fits: boolean;
-    message: string;
-    icon: string;
-    color: string;
+interface ProductARViewerProps {
+    product: Product;
+    options: ProductOptionSchema | null;
+    assets: ProductAssets | null;
+    authoring: boolean; // feature hotspot authoring for catalog editors
 }
 
-type ARStatus =
-    | 'idle'
-    | 'detecting'
-    | 'ready'
-    | 'placed'
-    | 'session-started'
-    | 'failed';
-
-const parseUrlParams = (): Customization => {
-    const params = new URLSearchParams(window.location.search);
-    return {
-        color: params.get('color') || '#FFFFFF',
-        scale: parseFloat(params.get('scale') || '1.0'),
-        pattern: params.get('pattern') || 'solid',
-        material: params.get('material') || 'default',
-    };
-};
-
-const isMobileDevice = (): boolean => {
-    return /Mobi|Android|iPhone|iPad|iPod/i.test(navigator.userAgent);
-};
-
-const isIOSDevice = (): boolean => {
-    return /iPad|iPhone|iPod/.test(navigator.userAgent);
-};
-
-const supportsWebXR = async (): Promise<boolean> => {
-    if ('xr' in navigator) {
-        try {
-            return await (navigator as any).xr.isSessionSupported(
-                'immersive-ar'
-            );
-        } catch {
-            return false;
-        }
-    }
-    return false;
-};
-
-export default function ProductARViewer() {
-    const [isMobile, setIsMobile] = useState(false);
-    const [isIOS, setIsIOS] = useState(false);
-    const [webXRSupported, setWebXRSupported] = useState(false);
-    const [showConfirmation, setShowConfirmation] = useState(false);
-    const [customizations, setCustomizations] = useState<Customization>({
-        color: '#FFFFFF',
-        scale: 1.0,
-        pattern: 'solid',
-        material: 'default',
-    });
-    const [arStatus, setArStatus] = useState<ARStatus>('idle');
+export default function ProductARViewer({
+    product,
+    options,
+    assets,
+    authoring,
+}: ProductARViewerProps) {
+    const { isMobile, isIOS, webXR } = useCapabilities();
+    const { locale, t } = useI18n();
+    const [customizations, setCustomizations] = useState<Customization>(
+        DEFAULT_CUSTOMIZATION
+    );
+    const [placement, setPlacement] = useState<PlacementMode>('floor');
+    const [linkWarnings, setLinkWarnings] = useState<ConfigurationWarning[]>(
+        []
+    );
+    const [arSession, dispatchAR] = useReducer(
+        arSessionReducer,
+        INITIAL_AR_SESSION
+    );
     const [captureEnabled, setCaptureEnabled] = useState(false);
     const [showMeasurements, setShowMeasurements] = useState(false);
+    const [modelBounds, setModelBounds] = useState<ModelBounds | null>(null);
     const [dimensions, setDimensions] = useState<Dimensions | null>(null);
+    const [unit, setUnit] = useState<LengthUnit>(
+        () => DEFAULT_UNITS[getDefaultUnitSystem(locale)]
+    );
+    const [space, setSpace] = useState<SpaceMeasurements | null>(null);
+    const [axisMeasurement, setAxisMeasurement] =
+        useState<AxisMeasurement | null>(null);
+    const [fitCheckOptions, setFitCheckOptions] = useState<FitCheckOptions>(
+        DEFAULT_FIT_CHECK_OPTIONS
+    );
     const [fitCheckResult, setFitCheckResult] = useState<FitCheckResult | null>(
         null
     );
     const [customUSDZUrl, setCustomUSDZUrl] = useState<string>('');
-    const [isModelLoaded, setIsModelLoaded] = useState(false);
+    const [modelLoad, dispatchModelLoad] = useReducer(
+        modelLoadReducer,
+        null,
+        () =>
+            createModelLoadState(
+                pickModelUrl(product, assets, isMobile),
+                pickPreviewUrl(product, assets, isMobile)
+            )
+    );
     const [showInstructions, setShowInstructions] = useState(true);
     const [captureStatus, setCaptureStatus] = useState<string>('');
+    const [captureOptions, setCaptureOptions] = useState<CaptureOptions>(
+        DEFAULT_CAPTURE_OPTIONS
+    );
+    const [captures, setCaptures] = useState<StoredCapture[]>([]);
+    const [cart, setCart] = useState<Cart | null>(null);
+    const [addingToCart, setAddingToCart] = useState(false);
+
+    const [autoLaunchAR, setAutoLaunchAR] = useState(false);
+    const [viewerLoadError, setViewerLoadError] = useState(false);
+    const [liveInvite, setLiveInvite] = useState<string | null>(null);
+    const [liveSessionId, setLiveSessionId] = useState<string | null>(null);
+    const [liveName, setLiveName] = useState('');
+    const [annotating, setAnnotating] = useState(false);
+    const [liveNote, setLiveNote] = useState('');
+    const [draftFeatures, setDraftFeatures] = useState<DraftFeature[]>(() =>
+        toDraftFeatures(product.features)
+    );
+    const [placingFeature, setPlacingFeature] = useState(false);
+
+    const isModelLoaded = isModelShown(modelLoad);
 
-    const modelViewerRef = useRef<HTMLElement | null>(null);
+    const modelViewerRef = useRef<ModelViewerElement | null>(null);
+    const handoffSessionRef = useRef<string | null>(null);
+    const loadStartRef = useRef(0);
     const arButtonRef = useRef<HTMLButtonElement | null>(null);
 
+    // Remote changes are applied without going through the change handlers,
+    // so they aren't sent back
+    const live = useLiveSession({
+        sessionId: liveSessionId,
+        productId: product.id,
+        name: liveName.trim(),
+        onSnapshot: (state) => {
+            if (state.customization) {
+                setCustomizations(state.customization);
+            } else {
+                // First one in: everyone else starts from this viewer
+                live.send({
+                    type: 'customization',
+                    customization: customizations,
+                });
+            }
+            if (state.camera) {
+                setCameraView(modelViewerRef.current, state.camera, true);
+            }
+        },
+        onUpdate: (message) => {
+            if (message.type === 'customization') {
+                setCustomizations(message.customization);
+            } else if (message.type === 'camera') {
+                setCameraView(modelViewerRef.current, message.view);
+            }
+        },
+    });
+
+    const loadViewer = useCallback(() => {
+        setViewerLoadError(false);
+        loadStartRef.current = performance.now();
+        loadModelViewer().catch((error) => {
+            console.error('Model Viewer failed to load:', error);
+            setViewerLoadError(true);
+        });
+    }, []);
+
     useEffect(() => {
         const initialize = async () => {
-            const mobile = isMobileDevice();
-            const ios = isIOSDevice();
-            const webXR = await supportsWebXR();
-
-            setIsMobile(mobile);
-            setIsIOS(ios);
-            setWebXRSupported(webXR);
-            setCustomizations(parseUrlParams());
-
-            const scriptId = 'model-viewer-script';
-            if (!document.getElementById(scriptId)) {
-                const script = document.createElement('script');
-                script.src =
-                    'https://ajax.googleapis.com/ajax/libs/model-viewer/3.4.0/model-viewer.min.js';
-                script.type = 'module';
-                script.id = scriptId;
-                document.head.appendChild(script);
-
-                // Wait for script to load
-                script.onload = () => {
-                    console.log('Model Viewer loaded successfully');
-                };
+            const params = new URLSearchParams(window.location.search);
+            const { configuration, warnings } = decodeConfiguration(
+                params,
+                product
+            );
+            warnings.forEach((warning) =>
+                console.warn(
+                    `Ignoring ${warning.field}=${warning.value}: ${warning.message}`
+                )
+            );
+            setCustomizations(configuration.customization);
+            setPlacement(configuration.placement);
+            setLinkWarnings(warnings);
+
+            // Opened from a desktop QR code: tell the desktop and go for AR
+            const handoffSession = params.get(HANDOFF_SESSION_PARAM);
+            if (handoffSession) {
+                handoffSessionRef.current = handoffSession;
+                reportHandoffStatus(handoffSession, 'opened', product.id).catch(
+                    (error) => console.error('Handoff report failed:', error)
+                );
+            }
+            if (params.get(HANDOFF_AR_PARAM) === '1') {
+                setAutoLaunchAR(true);
             }
+            setLiveInvite(params.get(LIVE_SESSION_PARAM));
         };
 
         initialize();
+        loadViewer();
+        listCaptures()
+            .then(setCaptures)
+            .catch((error) => console.error('Loading captures failed:', error));
+        fetchCart()
+            .then(setCart)
+            .catch((error) => console.error('Loading cart failed:', error));
     }, []);
 
     useEffect(() => {
-        if (isIOS && customizations.color !== '#FFFFFF') {
-            // In production, this should call a server endpoint
-            // For now, we'll use the base USDZ with a query parameter hint
-            const customUrl = `${BASE_USDZ_URL}?color=${encodeURIComponent(customizations.color)}&scale=${customizations.scale}`;
-            setCustomUSDZUrl(customUrl);
+        if (isIOS && isCustomized(customizations)) {
+            // Quick Look can't be customized at runtime, so ask the server
+            // for a USDZ with the color and scale baked in
+            setCustomUSDZUrl(getVariantUrl(product.id, 'usdz', customizations));
         } else {
-            setCustomUSDZUrl(BASE_USDZ_URL);
+            setCustomUSDZUrl(product.usdzUrl);
         }
-    }, [isIOS, customizations]);
+    }, [isIOS, customizations, product.id, product.usdzUrl]);
 
     useEffect(() => {
-        if (!dimensions) return;
-
-        // Simulate space detection (in production, use WebXR hit-test API)
-        const estimatedRoomWidth = 4; // meters
-        const estimatedRoomHeight = 2.8; // meters
-        const estimatedRoomDepth = 5; // meters
-
-        const { width, height, depth } = dimensions;
-
-        // Calculate if object fits
-        const widthFit = width <= estimatedRoomWidth;
-        const heightFit = height <= estimatedRoomHeight;
-        const depthFit = depth <= estimatedRoomDepth;
-
-        const allFit = widthFit && heightFit && depthFit;
-
-        // Calculate space usage percentage
-        const spaceUsage = Math.max(
-            (width / estimatedRoomWidth) * 100,
-            (height / estimatedRoomHeight) * 100,
-            (depth / estimatedRoomDepth) * 100
-        );
-
-        let result: FitCheckResult;
+        if (!modelBounds) {
+            setDimensions(null);
+            return;
+        }
+        const { size } = modelBounds;
+        setDimensions({
+            width: size.x * customizations.scale,
+            height: size.y * customizations.scale,
+            depth: size.z * customizations.scale,
+        });
+    }, [modelBounds, customizations.scale]);
 
-        if (!allFit) {
-            result = {
-                fits: false,
-                message: 'Object may not fit here - Too large for space',
-                icon: '⚠️',
-                color: '#ef4444', // red
-            };
-        } else if (spaceUsage > 80) {
-            result = {
-                fits: true,
-                message: 'Tight fit - Limited space around object',
-                icon: '⚡',
-                color: '#f59e0b', // amber
-            };
-        } else if (spaceUsage > 60) {
-            result = {
-                fits: true,
-                message: 'Good fit - Comfortable space',
-                icon: '✓',
-                color: '#10b981', // green
-            };
-        } else {
-            result = {
-                fits: true,
-                message: 'Perfect fit - Plenty of space!',
-                icon: '✓',
-                color: '#10b981', // green
-            };
+    useEffect(() => {
+        if (!dimensions || !space) {
+            setFitCheckResult(null);
+            return;
         }
 
+        const result = checkFit(dimensions, space, fitCheckOptions);
+
         setFitCheckResult(result);
         if ('vibrate' in navigator && result.fits) {
             navigator.vibrate(50); // Short vibration for confirmation
         }
-    }, [dimensions]);
+    }, [dimensions, space, fitCheckOptions]);
 
-    const handleModelLoad = useCallback((e: any) => {
-        console.log('Model loaded');
-        setIsModelLoaded(true);
-        setCaptureEnabled(true);
-        modelViewerRef.current = e.target;
-        setTimeout(() => {
-            setShowInstructions(false);
-        }, 5000);
-    }, []);
+    // Runs again when the full model replaces the preview
+    useEffect(() => {
+        if (!isModelShown(modelLoad)) return;
+        applyCustomizationToScene(modelViewerRef.current, customizations).catch(
+            (error) => console.error('Applying customization failed:', error)
+        );
+    }, [modelLoad.status, customizations]);
+
+    // Browsers only start AR from a user gesture, so the handoff lands on the
+    // confirmation dialog as soon as the model can be placed
+    useEffect(() => {
+        if (!autoLaunchAR || !isModelLoaded || !isMobile) return;
+        setAutoLaunchAR(false);
+        dispatchAR({ type: 'REQUEST' });
+    }, [autoLaunchAR, isModelLoaded, isMobile]);
 
-    const handleARStatus = useCallback((e: any) => {
-        const status = e.detail.status;
-        console.log('AR Status:', status);
+    const arMode = getARMode(isIOS, Boolean(webXR));
 
-        if (status === 'not-presenting') {
-            setArStatus('idle');
-            setShowMeasurements(false);
-        } else if (status === 'session-started') {
-            setArStatus('session-started');
+    // Side effects of entering each AR state
+    useEffect(() => {
+        const { status } = arSession;
+        const productId = product.id;
+        if (status === 'confirming') {
+            trackEvent('ar_confirm_shown', { productId, mode: arMode });
+        } else if (status === 'failed') {
+            trackEvent('ar_failed', {
+                productId,
+                mode: arMode,
+                reason: arSession.reason,
+            });
+        } else if (status === 'tracking') {
+            trackEvent('ar_session_started', { productId, mode: arMode });
             setShowMeasurements(true);
+            if (handoffSessionRef.current) {
+                reportHandoffStatus(
+                    handoffSessionRef.current,
+                    'ar-started',
+                    product.id
+                ).catch((error) =>
+                    console.error('Handoff report failed:', error)
+                );
+            }
             if ('vibrate' in navigator) {
                 navigator.vibrate([50, 100, 50]);
             }
-        } else if (status === 'object-placed') {
-            setArStatus('placed');
+        } else if (status === 'placed') {
+            trackEvent('object_placed', { productId, mode: arMode });
             if ('vibrate' in navigator) {
                 navigator.vibrate(200);
             }
-        } else if (status === 'failed') {
-            setArStatus('failed');
-            alert('AR session failed. Please try again.');
+        } else if (status === 'ended') {
+            setShowMeasurements(false);
         }
+    }, [arSession, arMode, product.id]);
+
+    useARLaunchTimeout(arSession.status, dispatchAR);
+
+    // Scene Viewer and Quick Look are separate apps that send no ar-status
+    // events; the page being hidden and shown again is the only signal
+    useEffect(() => {
+        if (arMode === 'webxr') return;
+        const handleVisibility = () => {
+            dispatchAR({
+                type:
+                    document.visibilityState === 'hidden'
+                        ? 'SESSION_STARTED'
+                        : 'SESSION_ENDED',
+            });
+        };
+        document.addEventListener('visibilitychange', handleVisibility);
+        return () =>
+            document.removeEventListener('visibilitychange', handleVisibility);
+    }, [arMode]);
+
+    const handleCustomizationChange = useCallback(
+        (next: Customization) => {
+            for (const field of Object.keys(next) as (keyof Customization)[]) {
+                const value = next[field];
+                if (value !== undefined && value !== customizations[field]) {
+                    trackEvent('customization_changed', {
+                        productId: product.id,
+                        field,
+                        value,
+                    });
+                }
+            }
+            setCustomizations(next);
+            setLinkWarnings([]);
+            live.send({ type: 'customization', customization: next });
+            // Keep the address shareable without triggering a navigation
+            const params = encodeConfiguration(
+                createConfiguration(product.id, next, placement)
+            );
+            const url = `${window.location.pathname}?${params}`;
+            window.history.replaceState(window.history.state, '', url);
+        },
+        [product.id, placement, customizations, live.send]
+    );
+
+    // A restored configuration replaces the link, like picking each option
+    const restoreConfiguration = useCallback(
+        (configuration: ProductConfiguration) => {
+            setCustomizations(configuration.customization);
+            setPlacement(configuration.placement);
+            setLinkWarnings([]);
+            live.send({
+                type: 'customization',
+                customization: configuration.customization,
+            });
+            const params = encodeConfiguration(configuration);
+            const url = `${window.location.pathname}?${params}`;
+            window.history.replaceState(window.history.state, '', url);
+        },
+        [live.send]
+    );
+
+    const handleCameraChange = useCallback(
+        (
+            e: ModelViewerEventMap['camera-change'],
+            viewer: ModelViewerElement
+        ) => {
+            if (!liveSessionId || e.detail.source !== 'user-interaction') {
+                return;
+            }
+            const view = getCameraView(viewer);
+            if (view) live.sendCamera(view);
+        },
+        [liveSessionId, live.sendCamera]
+    );
+
+    // A click on the model places a feature while authoring, or pins a note
+    // for everyone in annotation mode. Clicks on buttons inside the viewer
+    // don't count.
+    const handleViewerClick = (e: React.MouseEvent) => {
+        if (e.target !== e.currentTarget) return;
+        const readClickedHotspot = () =>
+            readSurfaceHotspot(modelViewerRef.current, e.clientX, e.clientY);
+
+        if (authoring && placingFeature) {
+            const hotspot = readClickedHotspot();
+            if (!hotspot) return;
+            setDraftFeatures((current) => [
+                ...current,
+                createDraftFeature(createId(), hotspot),
+            ]);
+            setPlacingFeature(false);
+            return;
+        }
+
+        if (!annotating || live.status !== 'connected' || !live.participantId) {
+            return;
+        }
+        const hotspot = readClickedHotspot();
+        if (!hotspot) return;
+        live.send({
+            type: 'annotation-add',
+            annotation: {
+                id: createId(),
+                ...hotspot,
+                label: liveNote.trim(),
+                authorId: live.participantId,
+            },
+        });
+        setLiveNote('');
+    };
+
+    const updateDraftFeature = (
+        id: string,
+        changes: Pick<Partial<DraftFeature>, 'title' | 'details'>
+    ) => {
+        setDraftFeatures((current) =>
+            current.map((feature) =>
+                feature.id === id ? { ...feature, ...changes } : feature
+            )
+        );
+    };
+
+    const startLiveSession = () => {
+        const sessionId = liveInvite ?? createId();
+        setLiveSessionId(sessionId);
+        setLiveInvite(null);
+    };
+
+    const leaveLiveSession = () => {
+        setLiveSessionId(null);
+        setAnnotating(false);
+    };
+
+    const handleModelLoad = useCallback(
+        (_e: ModelViewerEventMap['load'], viewer: ModelViewerElement) => {
+            // The preview's load isn't reported, only the full model's, which
+            // is then kept for offline use without competing with its download
+            if (modelLoad.src === modelLoad.fullSrc) {
+                trackEvent('model_loaded', {
+                    productId: product.id,
+                    loadTimeMs: Math.round(
+                        performance.now() - loadStartRef.current
+                    ),
+                });
+                cacheProductAssets(product.id, [
+                    modelLoad.fullSrc,
+                    product.usdzUrl,
+                ]).catch((error) =>
+                    console.error('Caching product assets failed:', error)
+                );
+            }
+            dispatchModelLoad({ type: 'LOADED' });
+            setCaptureEnabled(true);
+            setModelBounds(readModelBounds(viewer));
+            setTimeout(() => {
+                setShowInstructions(false);
+            }, 5000);
+        },
+        [product.id, product.usdzUrl, modelLoad.src, modelLoad.fullSrc]
+    );
+
+    const handleModelProgress = useCallback(
+        (e: ModelViewerEventMap['progress']) => {
+            dispatchModelLoad({
+                type: 'PROGRESS',
+                progress: e.detail.totalProgress,
+            });
+        },
+        []
+    );
+
+    // model-viewer also reports lost WebGL contexts here, which it recovers
+    // from by itself
+    const handleModelError = useCallback((e: ModelViewerEventMap['error']) => {
+        if (e.detail?.type !== 'loadfailure') return;
+        console.error('Model failed to load:', e.detail.sourceError);
+        dispatchModelLoad({ type: 'FAILED' });
     }, []);
 
+    const retryModelLoad = () => {
+        loadStartRef.current = performance.now();
+        dispatchModelLoad({ type: 'RETRY' });
+    };
+
+    const handleARStatus = useCallback(
+        (e: ModelViewerEventMap['ar-status']) => {
+            const status = e.detail.status;
+
+            if (status === 'not-presenting') {
+                dispatchAR({ type: 'SESSION_ENDED' });
+            } else if (status === 'session-started') {
+                dispatchAR({ type: 'SESSION_STARTED' });
+            } else if (status === 'object-placed') {
+                dispatchAR({ type: 'OBJECT_PLACED' });
+            } else if (status === 'failed') {
+                dispatchAR({ type: 'FAIL', reason: 'session-failed' });
+            }
+        },
+        []
+    );
+
+    const showStatus = useCallback((message: string) => {
+        setCaptureStatus(message);
+        setTimeout(() => {
+            setCaptureStatus('');
+        }, 2000);
+    }, []);
+
+    const handleUseMeasurement = (axis: FitAxis, meters: number) => {
+        setAxisMeasurement({
+            id: `${axis}-${Date.now()}`,
+            axis,
+            meters,
+        });
+        showStatus(
+            t('space.measured', {
+                axis: t(`axis.${axis}`),
+                value: formatLength(meters, unit, locale),
+            })
+        );
+    };
+
+    // Small and lossy so saved configurations stay cheap to sync
+    const captureThumbnail = useCallback(async (): Promise<Blob | null> => {
+        const modelViewer = modelViewerRef.current;
+        if (!modelViewer || !isModelLoaded) return null;
+        const source = await modelViewer.toBlob({
+            idealAspect: true,
+            mimeType: 'image/png',
+        });
+        const { blob } = await renderCapture(
+            source,
+            { format: 'image/jpeg', maxSize: 256, watermark: false },
+            []
+        );
+        return blob;
+    }, [isModelLoaded]);
+
+    const colorName =
+        product.colors.find(
+            (color) =>
+                color.hex.toUpperCase() === customizations.color.toUpperCase()
+        )?.name ?? customizations.color;
+
+    const materialName = getMaterialPreset(customizations.material)
+        ? t(`material.${customizations.material as ProductMaterial}`)
+        : t('viewer.materialOriginal');
+    const patternName = isProductPattern(customizations.pattern)
+        ? t(`pattern.${customizations.pattern}`)
+        : '';
+
     const captureARImage = useCallback(async () => {
-        const modelViewer = modelViewerRef.current as any;
+        const modelViewer = modelViewerRef.current;
 
         if (!modelViewer) {
-            alert('Model viewer not ready');
+            showStatus(t('capture.notReady'));
             return;
         }
 
         try {
-            setCaptureStatus('Capturing...');
+            setCaptureStatus(t('capture.capturing'));
 
             // Create high-resolution blob
-            const blob = await modelViewer.toBlob({
+            const source = await modelViewer.toBlob({
                 idealAspect: true,
                 mimeType: 'image/png',
             });
 
-            // Create download link
-            const url = URL.createObjectURL(blob);
-            const link = document.createElement('a');
-            const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-            link.href = url;
-            link.download = `ar-product-${timestamp}.png`;
-            document.body.appendChild(link);
-            link.click();
-            document.body.removeChild(link);
-            URL.revokeObjectURL(url);
+            const overlay = [
+                product.name,
+                [
+                    t('capture.overlayColor', { color: colorName }),
+                    materialName,
+                    patternName,
+                    `${customizations.scale.toLocaleString(locale)}×`,
+                ]
+                    .filter(Boolean)
+                    .join(' · '),
+            ];
+            if (dimensions) {
+                overlay.push(
+                    t('capture.overlaySize', {
+                        width: formatLength(dimensions.width, unit, locale),
+                        height: formatLength(dimensions.height, unit, locale),
+                        depth: formatLength(dimensions.depth, unit, locale),
+                    })
+                );
+            }
 
-            setCaptureStatus('Image saved! ✓');
+            const image = await renderCapture(source, captureOptions, overlay);
+            const capture = await saveCapture({
+                productId: product.id,
+                productName: product.name,
+                mimeType: image.blob.type,
+                width: image.width,
+                height: image.height,
+                blob: image.blob,
+            });
+            setCaptures((current) => [capture, ...current]);
+            trackEvent('capture_taken', {
+                productId: product.id,
+                format: captureOptions.format,
+            });
+
+            showStatus(t('capture.saved'));
 
             // Haptic feedback on capture
             if ('vibrate' in navigator) {
                 navigator.vibrate([50, 50, 50]);
             }
-
-            // Clear status after 2 seconds
-            setTimeout(() => {
-                setCaptureStatus('');
-            }, 2000);
         } catch (error) {
             console.error('Capture failed:', error);
-            setCaptureStatus('Capture failed ✗');
-            setTimeout(() => {
-                setCaptureStatus('');
-            }, 2000);
+            showStatus(t('capture.failed'));
         }
-    }, []);
+    }, [
+        product,
+        customizations,
+        colorName,
+        materialName,
+        patternName,
+        dimensions,
+        unit,
+        captureOptions,
+        showStatus,
+        t,
+        locale,
+    ]);
+
+    const handleDeleteCaptures = useCallback(
+        async (ids: string[]) => {
+            try {
+                await deleteCaptures(ids);
+                setCaptures((current) =>
+                    current.filter((capture) => !ids.includes(capture.id))
+                );
+            } catch (error) {
+                console.error('Deleting captures failed:', error);
+                showStatus(t('capture.deleteFailed'));
+            }
+        },
+        [showStatus, t]
+    );
+
+    const descriptionId = useId();
+    const describedSize = dimensions ?? {
+        width: product.dimensions.width * customizations.scale,
+        height: product.dimensions.height * customizations.scale,
+        depth: product.dimensions.depth * customizations.scale,
+    };
+
+    const price = getConfiguredPrice(product, customizations, options);
+    const optionViolations = getOptionViolations(options, customizations);
+
+    const handleAddToCart = async (source: 'page' | 'ar' | 'quick-look') => {
+        setAddingToCart(true);
+        try {
+            setCart(await addToCart(product.id, customizations));
+            trackEvent('add_to_cart', { productId: product.id, price, source });
+            showStatus(t('cart.added'));
+        } catch (error) {
+            console.error('Add to cart failed:', error);
+            showStatus(t('cart.failed'));
+        } finally {
+            setAddingToCart(false);
+        }
+    };
+
+    useModelViewerEvents(modelViewerRef, {
+        load: handleModelLoad,
+        progress: handleModelProgress,
+        error: handleModelError,
+        'ar-status': handleARStatus,
+        'camera-change': handleCameraChange,
+        // Quick Look's banner button
+        'quick-look-button-tapped': () => handleAddToCart('quick-look'),
+    });
+
+    const fitMessage = fitCheckResult
+        ? t(`fit.${fitCheckResult.verdict}`, {
+              axes: fitCheckResult.axes
+                  .filter((axis) => !axis.fits)
+                  .map((axis) => t(`axis.${axis.axis}`))
+                  .join(t('fit.and')),
+              turned: fitCheckResult.rotated ? t('fit.turned') : '',
+          })
+        : '';
+
+    const describeAxisFit = (axis: AxisFit) =>
+        t(axis.spare >= 0 ? 'fit.axisSpare' : 'fit.axisTooLarge', {
+            axis: t(`axis.${axis.axis}`),
+            required: formatLength(axis.required, unit, locale),
+            available: formatLength(axis.available, unit, locale),
+            spare: formatLength(axis.spare, unit, locale),
+            excess: formatLength(-axis.spare, unit, locale),
+        });
+
+    // Quick Look shows this as a banner with an "Add to cart" button
+    const quickLookUrl = buildQuickLookUrl(customUSDZUrl || product.usdzUrl, {
+        callToAction: t('cart.add'),
+        title: product.name,
+        subtitle: colorName,
+        price: formatPrice(price, locale),
+    });
 
     const handleViewInARClick = () => {
+        // Desktop visitors use the QR handoff card instead
         if (isMobile) {
-            setShowConfirmation(true);
-        } else {
-            console.log('Desktop: QR code displayed automatically');
+            dispatchAR({ type: 'REQUEST' });
         }
     };
 
     const handleConfirmation = (allow: boolean) => {
-        setShowConfirmation(false);
-        if (allow) {
-            const modelViewer = modelViewerRef.current as any;
-            if (modelViewer && modelViewer.canActivateAR) {
-                setArStatus('detecting');
-                modelViewer.activateAR();
-            } else {
-                alert('AR not available on this device');
-            }
+        if (!allow) {
+            trackEvent('ar_confirm_cancelled', {
+                productId: product.id,
+                mode: arMode,
+            });
+            dispatchAR({ type: 'CANCEL' });
+            return;
+        }
+        trackEvent('ar_confirm_accepted', {
+            productId: product.id,
+            mode: arMode,
+        });
+        const modelViewer = modelViewerRef.current;
+        if (!modelViewer) {
+            dispatchAR({ type: 'FAIL', reason: 'viewer-not-ready' });
+        } else if (!modelViewer.canActivateAR) {
+            dispatchAR({ type: 'FAIL', reason: 'unsupported' });
+        } else {
+            dispatchAR({ type: 'CONFIRM' });
+            Promise.resolve(modelViewer.activateAR()).catch((error) => {
+                console.error('AR activation failed:', error);
+                dispatchAR({ type: 'FAIL', reason: 'session-failed' });
+            });
         }
     };
 
+    const hotspots = modelBounds ? getMeasurementHotspots(modelBounds) : null;
+
+    const arStatusMessage = describeARStatus(arSession, arMode);
+
     const toggleMeasurements = () => {
         setShowMeasurements(!showMeasurements);
     };
@@ -358,7 +901,7 @@ export default function ProductARViewer() {
                     <button
                         className='close-instructions'
                         onClick={() => setShowInstructions(false)}
-                        aria-label='Close instructions'
+                        aria-label={t('instructions.close')}
                     >
                         ×
                     </button>
@@ -369,7 +912,7 @@ export default function ProductARViewer() {
                             gap: '12px',
                         }}
                     >
-                        <span style={{ fontSize: '24px' }}>
+                        <span style={{ fontSize: '24px' }} aria-hidden='true'>
                             {isMobile ? '📱' : '🖥️'}
                         </span>
                         <div>
@@ -382,8 +925,8 @@ export default function ProductARViewer() {
                                 }}
                             >
                                 {isMobile
-                                    ? 'Mobile: Tap to Enter AR'
-                                    : 'Desktop: Scan QR Code'}
+                                    ? t('instructions.mobileTitle')
+                                    : t('instructions.desktopTitle')}
                             </h3>
                             <p
                                 style={{
@@ -394,13 +937,28 @@ export default function ProductARViewer() {
                                 }}
                             >
                                 {isMobile
-                                    ? 'Use one finger to rotate, pinch to zoom, then tap View in AR to see it in your space.'
-                                    : 'Scan the QR code with your mobile device to view in AR. On desktop, drag with mouse to rotate the model.'}
+                                    ? t('instructions.mobileBody')
+                                    : t('instructions.desktopBody')}
                             </p>
                         </div>
                     </div>
                 </div>
             )}
+            {linkWarnings.length > 0 && (
+                <div className='link-warnings'>
+                    <span className='status-badge warning'>
+                        {t('linkWarnings.title')}
+                    </span>
+                    <ul>
+                        {linkWarnings.map((warning) => (
+                            <li key={warning.field}>
+                                {warning.field} “{warning.value}”:{' '}
+                                {t(warning.message, warning.values)}
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
             {fitCheckResult && (
                 <div
                     className='fit-check-banner'
@@ -410,10 +968,22 @@ export default function ProductARViewer() {
                         color: fitCheckResult.color,
                     }}
                 >
-                    <span style={{ fontSize: '24px' }}>
+                    <span style={{ fontSize: '24px' }} aria-hidden='true'>
                         {fitCheckResult.icon}
                     </span>
-                    <span>{fitCheckResult.message}</span>
+                    <div>
+                        <span>{fitMessage}</span>
+                        <ul className='fit-check-axes'>
+                            {fitCheckResult.axes.map((axis) => (
+                                <li key={axis.axis}>
+                                    <span aria-hidden='true'>
+                                        {axis.fits ? '✓' : '✗'}
+                                    </span>{' '}
+                                    {describeAxisFit(axis)}
+                                </li>
+                            ))}
+                        </ul>
+                    </div>
                 </div>
             )}
 
@@ -430,8 +1000,52 @@ export default function ProductARViewer() {
                             color: '#1f2937',
                         }}
                     >
-                        📏 Product Dimensions (at {customizations.scale}x scale)
+                        📏{' '}
+                        {t('dimensions.title', {
+                            scale: customizations.scale,
+                        })}
                     </h3>
+                    <div
+                        className='customization-options unit-systems'
+                        role='group'
+                        aria-label={t('dimensions.system')}
+                    >
+                        {UNIT_SYSTEMS.map((system) => (
+                            <button
+                                key={system}
+                                className='option-chip'
+                                aria-pressed={getUnitSystem(unit) === system}
+                                onClick={() => setUnit(DEFAULT_UNITS[system])}
+                            >
+                                {t(`dimensions.${system}`)}
+                            </button>
+                        ))}
+                    </div>
+                    <label
+                        style={{
+                            display: 'block',
+                            marginBottom: '12px',
+                            fontSize: '14px',
+                            color: '#6b7280',
+                        }}
+                    >
+                        {t('dimensions.units')}{' '}
+                        <select
+                            value={unit}
+                            onChange={(e) =>
+                                setUnit(e.target.value as LengthUnit)
+                            }
+                        >
+                            {LENGTH_UNITS.filter(
+                                (option) =>
+                                    option.system === getUnitSystem(unit)
+                            ).map((option) => (
+                                <option key={option.value} value={option.value}>
+                                    {t(`unit.${option.value}`)}
+                                </option>
+                            ))}
+                        </select>
+                    </label>
                     <div
                         style={{
                             display: 'flex',
@@ -440,51 +1054,114 @@ export default function ProductARViewer() {
                         }}
                     >
                         <div className='dimension-badge'>
-                            Width:{' '}
-                            <strong>{dimensions.width.toFixed(2)}m</strong>
+                            {t('dimensions.width')}{' '}
+                            <strong>
+                                {formatLength(dimensions.width, unit, locale)}
+                            </strong>
                         </div>
                         <div className='dimension-badge'>
-                            Height:{' '}
-                            <strong>{dimensions.height.toFixed(2)}m</strong>
+                            {t('dimensions.height')}{' '}
+                            <strong>
+                                {formatLength(dimensions.height, unit, locale)}
+                            </strong>
                         </div>
                         <div className='dimension-badge'>
-                            Depth:{' '}
-                            <strong>{dimensions.depth.toFixed(2)}m</strong>
+                            {t('dimensions.depth')}{' '}
+                            <strong>
+                                {formatLength(dimensions.depth, unit, locale)}
+                            </strong>
                         </div>
                     </div>
                 </div>
             )}
 
-            <div style={{ position: 'relative' }}>
+            {viewerLoadError && (
+                <div className='ar-recovery' role='alert'>
+                    <span className='status-badge error'>
+                        {t('viewer.errorBadge')}
+                    </span>
+                    <h3>{t('viewer.errorTitle')}</h3>
+                    <p>{t('viewer.errorBody')}</p>
+                    <button className='button-primary' onClick={loadViewer}>
+                        {t('viewer.retry')}
+                    </button>
+                </div>
+            )}
+
+            {modelLoad.status === 'failed' && (
+                <div className='ar-recovery' role='alert'>
+                    <span className='status-badge error'>
+                        {t('viewer.errorBadge')}
+                    </span>
+                    <h3>{t('viewer.modelErrorTitle')}</h3>
+                    <p>{t('viewer.modelErrorBody')}</p>
+                    <button className='button-primary' onClick={retryModelLoad}>
+                        {t('viewer.retry')}
+                    </button>
+                </div>
+            )}
+
+            <p id={descriptionId} className='sr-only'>
+                {t('viewer.description', {
+                    product: product.name,
+                    description: product.description,
+                    width: formatLength(describedSize.width, unit, locale),
+                    height: formatLength(describedSize.height, unit, locale),
+                    depth: formatLength(describedSize.depth, unit, locale),
+                    color: colorName,
+                    material: materialName,
+                    pattern: patternName,
+                })}
+            </p>
+
+            <div
+                style={{ position: 'relative' }}
+                onKeyDown={(e) => {
+                    // Arrow keys and Page Up/Down are handled by model-viewer
+                    if (
+                        e.key === 'Home' &&
+                        e.target === modelViewerRef.current
+                    ) {
+                        e.preventDefault();
+                        resetCamera(modelViewerRef.current);
+                    }
+                }}
+            >
                 <model-viewer
-                    src={BASE_MODEL_URL}
-                    ios-src={customUSDZUrl || BASE_USDZ_URL}
+                    key={modelLoad.attempt}
+                    src={modelLoad.src}
+                    poster={getPosterUrl(product.id)}
+                    ios-src={quickLookUrl}
                     ar
                     ar-modes='webxr scene-viewer quick-look'
                     ar-scale='auto'
-                    ar-placement='floor'
+                    ar-placement={placement}
+                    scale={`${customizations.scale} ${customizations.scale} ${customizations.scale}`}
                     camera-controls
                     touch-action='pan-y'
-                    alt='Customizable 3D product in augmented reality'
+                    alt={t('viewer.alt', { product: product.name })}
                     shadow-intensity='1'
                     shadow-softness='0.5'
                     exposure='1.0'
                     interaction-prompt='auto'
-                    camera-orbit='0deg 75deg 105%'
+                    camera-orbit={INITIAL_CAMERA_ORBIT}
+                    aria-describedby={descriptionId}
                     field-of-view='30deg'
                     min-camera-orbit='auto auto 5%'
                     max-camera-orbit='auto auto 500%'
-                    onLoad={handleModelLoad}
-                    onAr-status={handleARStatus}
+                    ref={modelViewerRef}
+                    onClick={handleViewerClick}
                 >
+                    <ModelProgress state={modelLoad} />
+
                     {captureEnabled && (
                         <button
                             className='capture-button'
                             onClick={captureARImage}
                             disabled={!isModelLoaded}
                         >
-                            <span>📸</span>
-                            <span>Capture</span>
+                            <span aria-hidden='true'>📸</span>
+                            <span>{t('capture.button')}</span>
                         </button>
                     )}
 
@@ -493,7 +1170,10 @@ export default function ProductARViewer() {
                             className='measurements-toggle'
                             onClick={toggleMeasurements}
                         >
-                            📏 {showMeasurements ? 'Hide' : 'Show'} Dimensions
+                            <span aria-hidden='true'>📏</span>{' '}
+                            {showMeasurements
+                                ? t('dimensions.hide')
+                                : t('dimensions.show')}
                         </button>
                     )}
 
@@ -504,150 +1184,257 @@ export default function ProductARViewer() {
                             ref={arButtonRef}
                             onClick={handleViewInARClick}
                         >
-                            {arStatus === 'session-started'
-                                ? '👁️ In AR Mode'
-                                : '🔮 View in AR'}
+                            {isARActive(arSession)
+                                ? t('ar.active')
+                                : t('ar.view')}
                         </button>
                     )}
 
-                    {true && (
-                        <button className='bg-black px-2 pb-1 rounded-lg text-2xl right-4 top-4 absolute text-[#f97613] font-semibold'>
-                            t.
+                    {/* Children are the DOM overlay during WebXR sessions */}
+                    {isARActive(arSession) && (
+                        <button
+                            className='ar-cart-button'
+                            onClick={() => handleAddToCart('ar')}
+                            disabled={
+                                addingToCart || optionViolations.length > 0
+                            }
+                        >
+                            {t('cart.addWithPrice', {
+                                price: formatPrice(price, locale),
+                            })}
                         </button>
                     )}
 
-                    {!isMobile && (
-                        <div slot='poster' className='qr-section'>
-                            <div className='qr-content'>
-                                <div
-                                    style={{
-                                        fontSize: '64px',
-                                        marginBottom: '16px',
-                                    }}
-                                >
-                                    📱
-                                </div>
-                                <h2
-                                    style={{
-                                        fontSize: '24px',
-                                        fontWeight: '700',
-                                        marginBottom: '12px',
-                                        color: '#1f2937',
-                                    }}
-                                >
-                                    Scan to View in AR
-                                </h2>
-                                <p
-                                    style={{
-                                        fontSize: '14px',
-                                        color: '#6b7280',
-                                        marginBottom: '16px',
-                                    }}
-                                >
-                                    Open your phone camera and scan the QR code
-                                    that appears on this 3D viewer
-                                </p>
-                                <p
-                                    style={{
-                                        fontSize: '12px',
-                                        color: '#9ca3af',
-                                    }}
-                                >
-                                    The QR code is automatically generated by
-                                    the model viewer
-                                </p>
-                            </div>
-                        </div>
-                    )}
-                    {showMeasurements && dimensions && (
+                    <FeatureHotspots
+                        features={authoring ? draftFeatures : product.features}
+                    />
+
+                    {live.annotations.map((annotation, index) => (
+                        <button
+                            key={annotation.id}
+                            slot={`hotspot-live-${annotation.id}`}
+                            className='live-annotation'
+                            data-position={annotation.position}
+                            data-normal={annotation.normal}
+                            title={annotation.label || undefined}
+                        >
+                            {index + 1}
+                        </button>
+                    ))}
+
+                    {showMeasurements && dimensions && hotspots && (
                         <>
                             <button
                                 slot='hotspot-width'
                                 className='measurement-annotation'
-                                data-position='1 0 0'
-                                data-normal='1 0 0'
+                                data-position={hotspots.width.position}
+                                data-normal={hotspots.width.normal}
                             >
-                                W: {dimensions.width.toFixed(2)}m
+                                {t('hotspot.width', {
+                                    value: formatLength(
+                                        dimensions.width,
+                                        unit,
+                                        locale
+                                    ),
+                                })}
                             </button>
                             <button
                                 slot='hotspot-height'
                                 className='measurement-annotation'
-                                data-position='0 1 0'
-                                data-normal='0 1 0'
+                                data-position={hotspots.height.position}
+                                data-normal={hotspots.height.normal}
                             >
-                                H: {dimensions.height.toFixed(2)}m
+                                {t('hotspot.height', {
+                                    value: formatLength(
+                                        dimensions.height,
+                                        unit,
+                                        locale
+                                    ),
+                                })}
                             </button>
                             <button
                                 slot='hotspot-depth'
                                 className='measurement-annotation'
-                                data-position='0 0 1'
-                                data-normal='0 0 1'
+                                data-position={hotspots.depth.position}
+                                data-normal={hotspots.depth.normal}
                             >
-                                D: {dimensions.depth.toFixed(2)}m
+                                {t('hotspot.depth', {
+                                    value: formatLength(
+                                        dimensions.depth,
+                                        unit,
+                                        locale
+                                    ),
+                                })}
                             </button>
                         </>
                     )}
                 </model-viewer>
             </div>
-            {showConfirmation && (
-                <div className='modal-overlay'>
-                    <div className='modal-content'>
-                        <div
-                            style={{
-                                textAlign: 'center',
-                                marginBottom: '24px',
-                            }}
-                        >
-                            <div
-                                style={{
-                                    fontSize: '48px',
-                                    marginBottom: '16px',
-                                }}
-                            >
-                                🔮
-                            </div>
-                            <h3
-                                style={{
-                                    fontSize: '22px',
-                                    fontWeight: '700',
-                                    marginBottom: '12px',
-                                    color: '#1f2937',
-                                }}
-                            >
-                                Open AR Experience
-                            </h3>
-                            <p
-                                style={{
-                                    fontSize: '14px',
-                                    color: '#6b7280',
-                                    lineHeight: '1.6',
-                                }}
-                            >
-                                You're about to enter augmented reality mode.
-                                Make sure you're in a well-lit area with enough
-                                space.
-                            </p>
-                        </div>
-                        <div style={{ display: 'flex', gap: '12px' }}>
-                            <button
-                                className='button-secondary'
-                                onClick={() => handleConfirmation(false)}
-                            >
-                                Cancel
-                            </button>
-                            <button
-                                className='button-primary'
-                                onClick={() => handleConfirmation(true)}
-                            >
-                                Enter AR
-                            </button>
-                        </div>
-                    </div>
-                </div>
+
+            <CameraControls viewerRef={modelViewerRef} />
+            <p className='camera-hint'>{t('viewer.keyboardHint')}</p>
+
+            {arSession.status === 'failed' && (
+                <ARRecovery
+                    mode={arMode}
+                    reason={arSession.reason}
+                    onRetry={() => dispatchAR({ type: 'REQUEST' })}
+                    onDismiss={() => dispatchAR({ type: 'RESET' })}
+                />
+            )}
+
+            {webXR && (
+                <Suspense fallback={null}>
+                    <RoomPlanner
+                        product={product}
+                        customization={customizations}
+                        unit={unit}
+                        onUseMeasurement={handleUseMeasurement}
+                    />
+                </Suspense>
+            )}
+
+            {!isMobile && (
+                <QRHandoff
+                    configuration={createConfiguration(
+                        product.id,
+                        customizations,
+                        placement
+                    )}
+                />
+            )}
+
+            <CustomizationPanel
+                product={product}
+                options={options}
+                customization={customizations}
+                onChange={handleCustomizationChange}
+            />
+
+            <Link
+                to={`/products/${encodeURIComponent(product.id)}/compare?${encodeCompareVariants([createConfiguration(product.id, customizations, placement)])}`}
+                className='compare-open'
+            >
+                {t('compare.open')}
+            </Link>
+
+            <SavedPanel
+                product={product}
+                configuration={createConfiguration(
+                    product.id,
+                    customizations,
+                    placement
+                )}
+                captureThumbnail={captureThumbnail}
+                onRestore={restoreConfiguration}
+            />
+
+            <LivePanel
+                status={live.status}
+                sessionUrl={
+                    liveSessionId ? getLiveSessionUrl(liveSessionId) : null
+                }
+                invited={!!liveInvite}
+                participantId={live.participantId}
+                participants={live.participants}
+                annotations={live.annotations}
+                name={liveName}
+                annotating={annotating}
+                note={liveNote}
+                onNameChange={setLiveName}
+                onStart={startLiveSession}
+                onLeave={leaveLiveSession}
+                onAnnotatingChange={setAnnotating}
+                onNoteChange={setLiveNote}
+                onRemoveAnnotation={(id) =>
+                    live.send({ type: 'annotation-remove', id })
+                }
+            />
+
+            {authoring && (
+                <AuthoringPanel
+                    productId={product.id}
+                    features={draftFeatures}
+                    placing={placingFeature}
+                    onPlacingChange={setPlacingFeature}
+                    onFeatureChange={updateDraftFeature}
+                    onRemoveFeature={(id) =>
+                        setDraftFeatures((current) =>
+                            current.filter((feature) => feature.id !== id)
+                        )
+                    }
+                    onReset={() =>
+                        setDraftFeatures(toDraftFeatures(product.features))
+                    }
+                />
+            )}
+
+            <AddToCart
+                price={price}
+                stock={getStockInfo(options, customizations)}
+                violations={optionViolations}
+                cart={cart}
+                adding={addingToCart}
+                onAdd={() => handleAddToCart('page')}
+            />
+
+            <CaptureGallery
+                captures={captures}
+                options={captureOptions}
+                preferShare={isMobile}
+                onOptionsChange={setCaptureOptions}
+                onDelete={handleDeleteCaptures}
+                onStatus={showStatus}
+            />
+
+            <SpacePanel
+                unit={unit}
+                space={space}
+                options={fitCheckOptions}
+                measurement={axisMeasurement}
+                onChange={(nextSpace, nextOptions) => {
+                    setSpace(nextSpace);
+                    setFitCheckOptions(nextOptions);
+                }}
+            />
+
+            {arSession.status === 'confirming' && (
+                <Modal
+                    title={t('ar.confirmTitle')}
+                    description={t('ar.confirmBody')}
+                    icon='🔮'
+                    onClose={() => handleConfirmation(false)}
+                >
+                    <button
+                        className='button-secondary'
+                        onClick={() => handleConfirmation(false)}
+                    >
+                        {t('ar.cancel')}
+                    </button>
+                    <button
+                        className='button-primary'
+                        onClick={() => handleConfirmation(true)}
+                    >
+                        {t('ar.enter')}
+                    </button>
+                </Modal>
             )}
             {captureStatus && (
-                <div className='capture-status'>{captureStatus}</div>
+                <div className='capture-status' aria-hidden='true'>
+                    {captureStatus}
+                </div>
             )}
+
+            {/* Live regions stay mounted so changes are announced */}
+            <div className='sr-only' role='status'>
+                {arStatusMessage && t(arStatusMessage)}
+            </div>
+            <div className='sr-only' role='status'>
+                {captureStatus}
+            </div>
+            <div className='sr-only' role='status'>
+                {fitMessage}
+            </div>
         </div>
     );
 }
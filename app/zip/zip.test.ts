@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { readZip } from '~/.server/zip';
+import { crc32, writeZip, type ZipEntry } from './zip';
+
+const encoder = new TextEncoder();
+
+const ENTRIES: ZipEntry[] = [
+    { name: 'scene.usda', data: encoder.encode('#usda 1.0\n') },
+    { name: 'textures/größe.png', data: new Uint8Array([137, 80, 78, 71]) },
+    { name: 'empty.txt', data: new Uint8Array() },
+];
+
+// Where each entry's data starts, read from its local header
+const dataOffsets = (archive: Uint8Array): number[] => {
+    const view = new DataView(archive.buffer);
+    const offsets: number[] = [];
+    let offset = 0;
+    while (view.getUint32(offset, true) === 0x04034b50) {
+        const start =
+            offset +
+            30 +
+            view.getUint16(offset + 26, true) +
+            view.getUint16(offset + 28, true);
+        offsets.push(start);
+        offset = start + view.getUint32(offset + 18, true);
+    }
+    return offsets;
+};
+
+describe('crc32', () => {
+    it('matches the standard check value', () => {
+        expect(crc32(encoder.encode('123456789'))).toBe(0xcbf43926);
+        expect(crc32(new Uint8Array())).toBe(0);
+    });
+});
+
+describe('writeZip', () => {
+    it('round-trips names and data', () => {
+        const entries = readZip(Buffer.from(writeZip(ENTRIES)));
+        expect(
+            entries.map(({ name, data }) => ({ name, data: [...data] }))
+        ).toEqual(ENTRIES.map(({ name, data }) => ({ name, data: [...data] })));
+    });
+
+    it('writes an empty archive', () => {
+        expect(readZip(Buffer.from(writeZip([])))).toEqual([]);
+    });
+
+    it('packs data tightly by default', () => {
+        const archive = writeZip(ENTRIES);
+        expect(dataOffsets(archive)).toEqual([40, 100, 143]);
+    });
+
+    it('aligns every file for USDZ', () => {
+        const archive = writeZip(ENTRIES, { alignment: 64 });
+        const offsets = dataOffsets(archive);
+        expect(offsets).toHaveLength(ENTRIES.length);
+        expect(offsets.every((offset) => offset % 64 === 0)).toBe(true);
+        expect(readZip(Buffer.from(archive)).map(({ name }) => name)).toEqual(
+            ENTRIES.map(({ name }) => name)
+        );
+    });
+});
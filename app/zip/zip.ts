@@ -0,0 +1,126 @@
+// Minimal uncompressed ZIP writer shared by the browser (capture exports)
+// and the server (USDZ packages). Stored entries are fine for both: images
+// are already compressed and USDZ requires uncompressed data.
+
+export interface ZipEntry {
+    name: string;
+    data: Uint8Array;
+}
+
+export interface ZipOptions {
+    alignment?: number; // start every file's data on a multiple of this
+}
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+export const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+export const END_OF_CENTRAL_DIR_SIGNATURE = 0x06054b50;
+
+const LOCAL_HEADER_SIZE = 30;
+const CENTRAL_HEADER_SIZE = 46;
+const END_OF_CENTRAL_DIR_SIZE = 22;
+const UTF8_NAMES_FLAG = 0x0800;
+const PADDING_EXTRA_FIELD_ID = 0x1986;
+// An extra field needs a 4 byte header, so shorter gaps grow by a block
+const EXTRA_FIELD_HEADER_SIZE = 4;
+
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) {
+            c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        }
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+export const crc32 = (data: Uint8Array): number => {
+    let crc = 0xffffffff;
+    for (let i = 0; i < data.length; i++) {
+        crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+};
+
+const paddingAt = (offset: number, alignment: number): number => {
+    let padding = (alignment - (offset % alignment)) % alignment;
+    if (padding > 0 && padding < EXTRA_FIELD_HEADER_SIZE) padding += alignment;
+    return padding;
+};
+
+export const writeZip = (
+    entries: ZipEntry[],
+    { alignment = 1 }: ZipOptions = {}
+): Uint8Array<ArrayBuffer> => {
+    const encoder = new TextEncoder();
+    const layout: {
+        entry: ZipEntry;
+        name: Uint8Array;
+        padding: number;
+        offset: number;
+        crc: number;
+    }[] = [];
+    let offset = 0;
+    for (const entry of entries) {
+        const name = encoder.encode(entry.name);
+        const padding = paddingAt(
+            offset + LOCAL_HEADER_SIZE + name.length,
+            alignment
+        );
+        layout.push({ entry, name, padding, offset, crc: crc32(entry.data) });
+        offset += LOCAL_HEADER_SIZE + name.length + padding + entry.data.length;
+    }
+    const centralOffset = offset;
+    const centralSize = layout.reduce(
+        (size, { name }) => size + CENTRAL_HEADER_SIZE + name.length,
+        0
+    );
+
+    const archive = new Uint8Array(
+        centralOffset + centralSize + END_OF_CENTRAL_DIR_SIZE
+    );
+    const view = new DataView(archive.buffer);
+
+    for (const { entry, name, padding, offset, crc } of layout) {
+        view.setUint32(offset, LOCAL_HEADER_SIGNATURE, true);
+        view.setUint16(offset + 4, 20, true); // version needed
+        view.setUint16(offset + 6, UTF8_NAMES_FLAG, true);
+        view.setUint32(offset + 14, crc, true);
+        view.setUint32(offset + 18, entry.data.length, true);
+        view.setUint32(offset + 22, entry.data.length, true);
+        view.setUint16(offset + 26, name.length, true);
+        view.setUint16(offset + 28, padding, true);
+        archive.set(name, offset + LOCAL_HEADER_SIZE);
+
+        const extra = offset + LOCAL_HEADER_SIZE + name.length;
+        if (padding > 0) {
+            view.setUint16(extra, PADDING_EXTRA_FIELD_ID, true);
+            view.setUint16(extra + 2, padding - EXTRA_FIELD_HEADER_SIZE, true);
+        }
+        archive.set(entry.data, extra + padding);
+    }
+
+    let central = centralOffset;
+    for (const { entry, name, offset, crc } of layout) {
+        view.setUint32(central, CENTRAL_HEADER_SIGNATURE, true);
+        view.setUint16(central + 4, 20, true); // version made by
+        view.setUint16(central + 6, 20, true); // version needed
+        view.setUint16(central + 8, UTF8_NAMES_FLAG, true);
+        view.setUint32(central + 16, crc, true);
+        view.setUint32(central + 20, entry.data.length, true);
+        view.setUint32(central + 24, entry.data.length, true);
+        view.setUint16(central + 28, name.length, true);
+        view.setUint32(central + 42, offset, true);
+        archive.set(name, central + CENTRAL_HEADER_SIZE);
+        central += CENTRAL_HEADER_SIZE + name.length;
+    }
+
+    view.setUint32(central, END_OF_CENTRAL_DIR_SIGNATURE, true);
+    view.setUint16(central + 8, entries.length, true);
+    view.setUint16(central + 10, entries.length, true);
+    view.setUint32(central + 12, centralSize, true);
+    view.setUint32(central + 16, centralOffset, true);
+
+    return archive;
+};
@@ -0,0 +1,132 @@
+// Embed snippet for partner sites:
+//
+//   <div data-ar-product="sofa" data-color="#1F2937" style="height: 480px"></div>
+//   <script src="https://<viewer host>/embed.js" async></script>
+//
+// Every [data-ar-product] element gets an iframe of /embed/<product>, and
+// window.ARViewer.get(element) returns a handle for talking to it:
+//
+//   const viewer = ARViewer.get(element);
+//   viewer.on('placed', () => ...);
+//   viewer.setCustomization({ color: '#DC2626', material: 'leather' });
+//   viewer.enterAR();
+//   viewer.capture(); // answered by a 'captured' event with an image Blob
+//
+// The host page's origin must be on the viewer's EMBED_ALLOWED_ORIGINS list.
+// Message shapes are defined in app/embed/protocol.ts.
+
+(() => {
+    const HOST_SOURCE = 'ar-viewer-host';
+    const VIEWER_SOURCE = 'ar-viewer';
+    const CONFIGURATION_ATTRIBUTES = [
+        'color',
+        'scale',
+        'pattern',
+        'material',
+        'placement',
+        'lang',
+    ];
+
+    const script = document.currentScript;
+    const viewerOrigin = new URL(script ? script.src : location.href).origin;
+    const viewers = new Map(); // element -> handle
+
+    const mount = (element) => {
+        const existing = viewers.get(element);
+        if (existing) return existing;
+
+        const productId = element.dataset.arProduct;
+        const url = new URL(
+            `/embed/${encodeURIComponent(productId)}`,
+            viewerOrigin
+        );
+        for (const name of CONFIGURATION_ATTRIBUTES) {
+            const value = element.dataset[name];
+            if (value) url.searchParams.set(name, value);
+        }
+        url.searchParams.set('origin', location.origin);
+
+        const iframe = document.createElement('iframe');
+        iframe.src = url.toString();
+        iframe.title = element.dataset.title || 'AR product viewer';
+        iframe.allow = 'xr-spatial-tracking; fullscreen';
+        iframe.style.cssText =
+            'width: 100%; height: 100%; min-height: 320px; border: 0;';
+        element.replaceChildren(iframe);
+
+        const listeners = new Map(); // event name -> Set of callbacks
+        let ready = false;
+        let queue = []; // commands sent before the viewer was listening
+
+        const send = (command, payload) => {
+            const message = { source: HOST_SOURCE, command, ...payload };
+            if (!ready) {
+                queue.push(message);
+                return;
+            }
+            iframe.contentWindow.postMessage(message, viewerOrigin);
+        };
+
+        const handle = {
+            element,
+            iframe,
+            setCustomization: (customization) =>
+                send('set-customization', { customization }),
+            enterAR: () => send('enter-ar'),
+            capture: () => send('capture'),
+            // `*` receives every event; returns an unsubscribe function
+            on: (event, callback) => {
+                if (!listeners.has(event)) listeners.set(event, new Set());
+                listeners.get(event).add(callback);
+                return () => listeners.get(event).delete(callback);
+            },
+            receive: (message) => {
+                if (message.event === 'ready') {
+                    ready = true;
+                    queue.forEach((queued) =>
+                        iframe.contentWindow.postMessage(queued, viewerOrigin)
+                    );
+                    queue = [];
+                }
+                for (const name of [message.event, '*']) {
+                    (listeners.get(name) || []).forEach((callback) =>
+                        callback(message)
+                    );
+                }
+                element.dispatchEvent(
+                    new CustomEvent(`ar-viewer:${message.event}`, {
+                        detail: message,
+                    })
+                );
+            },
+        };
+        viewers.set(element, handle);
+        return handle;
+    };
+
+    window.addEventListener('message', (event) => {
+        if (event.origin !== viewerOrigin) return;
+        if (!event.data || event.data.source !== VIEWER_SOURCE) return;
+        for (const handle of viewers.values()) {
+            if (handle.iframe.contentWindow === event.source) {
+                handle.receive(event.data);
+            }
+        }
+    });
+
+    const scan = () => {
+        document.querySelectorAll('[data-ar-product]').forEach(mount);
+    };
+
+    window.ARViewer = {
+        mount,
+        scan,
+        get: (element) => viewers.get(element) || null,
+    };
+
+    if (document.readyState === 'loading') {
+        document.addEventListener('DOMContentLoaded', scan);
+    } else {
+        scan();
+    }
+})();
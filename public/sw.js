@@ -0,0 +1,204 @@
+// Service worker: keeps the app shell and the models of recently viewed
+// products available offline, so AR still works on flaky in-store Wi-Fi.
+
+const VERSION = 'v4';
+const SHELL_CACHE = `ar-shell-${VERSION}`;
+const ASSET_CACHE = `ar-assets-${VERSION}`;
+const MODEL_CACHE = 'ar-models';
+const RECENT_PRODUCTS_KEY = '/__sw/recent-products';
+const MAX_CACHED_PRODUCTS = 5;
+
+// Shown for pages that were never visited online
+const OFFLINE_URL = '/offline.html';
+
+const SHELL_URLS = [
+    '/',
+    '/products',
+    OFFLINE_URL,
+    '/favicon.ico',
+    '/manifest.webmanifest',
+];
+
+// Only these are cached at runtime: the shell, product pages and their
+// posters with the loader data client-side navigations fetch for them, and
+// the model decoders.
+// Carts, saved configurations, handoffs and analytics are per user and must
+// always come from the network.
+const RUNTIME_CACHE_PATTERNS = [
+    /^\/(_root\.data)?$/,
+    /^\/products(\.data)?$/,
+    /^\/products\/[^/]+(\.data)?$/,
+    /^\/products\/[^/]+\/poster\.svg$/,
+    /^\/decoders\/[\w.]+$/,
+    /^\/favicon\.ico$/,
+    /^\/manifest\.webmanifest$/,
+];
+
+const isRuntimeCacheable = (url) =>
+    RUNTIME_CACHE_PATTERNS.some((pattern) => pattern.test(url.pathname));
+
+// Live sessions are a never-ending event stream: caching one would hold the
+// response open in the cache and replay stale events on reconnect
+const isEventStream = (response) =>
+    (response.headers.get('Content-Type') || '').startsWith(
+        'text/event-stream'
+    );
+
+const isModelRequest = (url) =>
+    /\.(glb|usdz)$/.test(url.pathname) || url.pathname.includes('/variants/');
+
+self.addEventListener('install', (event) => {
+    event.waitUntil(
+        caches.open(SHELL_CACHE).then((cache) =>
+            Promise.all(
+                SHELL_URLS.map((url) =>
+                    cache.add(url).catch((error) => {
+                        console.warn(`Precaching ${url} failed:`, error);
+                    })
+                )
+            )
+        )
+    );
+    self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+    const keep = [SHELL_CACHE, ASSET_CACHE, MODEL_CACHE];
+    event.waitUntil(
+        caches
+            .keys()
+            .then((keys) =>
+                Promise.all(
+                    keys
+                        .filter((key) => !keep.includes(key))
+                        .map((key) => caches.delete(key))
+                )
+            )
+            .then(() => self.clients.claim())
+    );
+});
+
+const cacheFirst = async (request, cacheName) => {
+    const cache = await caches.open(cacheName);
+    const cached = await cache.match(request);
+    if (cached) return cached;
+    const response = await fetch(request);
+    if (response.ok) {
+        cache.put(request, response.clone());
+    }
+    return response;
+};
+
+// Pages are stored without their query string: product pages read the
+// configuration from the address in the browser, so one copy serves every
+// configuration link (in the language it was last visited in)
+const documentKey = (url) => `${url.origin}${url.pathname}`;
+
+const networkFirst = async (
+    request,
+    { cacheKey = request, fallbackUrl } = {}
+) => {
+    const cache = await caches.open(SHELL_CACHE);
+    try {
+        const response = await fetch(request);
+        if (
+            response.ok &&
+            !isEventStream(response) &&
+            isRuntimeCacheable(new URL(request.url))
+        ) {
+            cache.put(cacheKey, response.clone());
+        }
+        return response;
+    } catch (error) {
+        const cached =
+            (await cache.match(cacheKey)) ||
+            (fallbackUrl && (await cache.match(fallbackUrl)));
+        if (cached) return cached;
+        throw error;
+    }
+};
+
+self.addEventListener('fetch', (event) => {
+    const { request } = event;
+    const url = new URL(request.url);
+    if (request.method !== 'GET' || url.origin !== self.location.origin) {
+        return;
+    }
+    // Left to the browser so the stream isn't buffered or cached
+    if (url.pathname.startsWith('/live/')) {
+        return;
+    }
+
+    if (request.mode === 'navigate') {
+        // Allow-listed pages are stored as they are visited; any other page
+        // gets the offline notice rather than some other page's HTML
+        event.respondWith(
+            networkFirst(request, {
+                cacheKey: documentKey(url),
+                fallbackUrl: OFFLINE_URL,
+            })
+        );
+    } else if (url.pathname.startsWith('/assets/')) {
+        // Hashed build output never changes
+        event.respondWith(cacheFirst(request, ASSET_CACHE));
+    } else if (isModelRequest(url)) {
+        event.respondWith(
+            caches
+                .open(MODEL_CACHE)
+                .then((cache) => cache.match(request))
+                .then((cached) => cached || fetch(request))
+        );
+    } else if (isRuntimeCacheable(url)) {
+        event.respondWith(networkFirst(request));
+    }
+});
+
+const readRecentProducts = async (cache) => {
+    const stored = await cache.match(RECENT_PRODUCTS_KEY);
+    return stored ? stored.json() : [];
+};
+
+// Keeps the models of the last few viewed products, evicting the oldest
+const cacheProduct = async ({ productId, urls }) => {
+    const cache = await caches.open(MODEL_CACHE);
+    await Promise.all(
+        urls.map(async (url) => {
+            if (await cache.match(url)) return;
+            try {
+                const response = await fetch(url);
+                if (response.ok) {
+                    await cache.put(url, response);
+                }
+            } catch (error) {
+                console.warn(`Caching ${url} failed:`, error);
+            }
+        })
+    );
+
+    const recent = (await readRecentProducts(cache)).filter(
+        (entry) => entry.productId !== productId
+    );
+    recent.unshift({ productId, urls });
+
+    const evicted = recent.splice(MAX_CACHED_PRODUCTS);
+    const kept = new Set(recent.flatMap((entry) => entry.urls));
+    await Promise.all(
+        evicted
+            .flatMap((entry) => entry.urls)
+            .filter((url) => !kept.has(url))
+            .map((url) => cache.delete(url))
+    );
+
+    await cache.put(
+        RECENT_PRODUCTS_KEY,
+        new Response(JSON.stringify(recent), {
+            headers: { 'Content-Type': 'application/json' },
+        })
+    );
+};
+
+self.addEventListener('message', (event) => {
+    if (event.data?.type === 'cache-product') {
+        event.waitUntil(cacheProduct(event.data));
+    }
+});
@@ -0,0 +1,30 @@
+// The package ships without types; this covers the part the pipeline uses
+declare module 'gltf-validator' {
+    export interface ValidationMessage {
+        code: string;
+        message: string;
+        severity: 0 | 1 | 2 | 3; // error, warning, info, hint
+        pointer?: string;
+    }
+
+    export interface ValidationReport {
+        issues: {
+            numErrors: number;
+            numWarnings: number;
+            messages: ValidationMessage[];
+        };
+    }
+
+    export interface ValidationOptions {
+        uri?: string;
+        format?: 'glb' | 'gltf';
+        maxIssues?: number;
+        writeTimestamp?: boolean;
+        ignoredIssues?: string[];
+    }
+
+    export function validateBytes(
+        data: Uint8Array,
+        options?: ValidationOptions
+    ): Promise<ValidationReport>;
+}
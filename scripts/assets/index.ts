@@ -0,0 +1,191 @@
+import { readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import {
+    ASSET_MANIFEST_VERSION,
+    type AssetManifest,
+    type ModelCompression,
+} from '~/products/asset-manifest';
+import { getProduct, PRODUCTS, type Product } from '~/products/catalog';
+import { createIO } from './io';
+import { optimizeModel } from './optimize';
+import {
+    DEFAULT_BUDGETS,
+    validateProductAssets,
+    type AssetReport,
+} from './validate';
+
+const USAGE = `Validates product models and writes optimized variants plus a manifest.
+
+Usage: npm run assets -- [options] [product ids]
+
+  --check               Validate only, write nothing
+  --compress <list>     Variants to write: none, draco, meshopt (default: meshopt,draco)
+  --lods <ratios>       Triangle ratio per level of detail (default: 1,0.5)
+  --out <dir>           Output directory (default: public/optimized)
+  --manifest <file>     Manifest path (default: data/asset-manifest.json)
+  --max-triangles <n>   Triangle budget (default: ${DEFAULT_BUDGETS.maxTriangles})
+  --max-texture <px>    Texture edge budget (default: ${DEFAULT_BUDGETS.maxTextureSize})
+
+Paths in the catalog resolve against ASSET_ROOT (default: the working
+directory), like the variant route. Exits with 1 if any asset has errors.`;
+
+const COMPRESSIONS: ModelCompression[] = ['none', 'draco', 'meshopt'];
+
+const parseList = (value: string): string[] =>
+    value
+        .split(',')
+        .map((item) => item.trim())
+        .filter(Boolean);
+
+const parseOptions = () => {
+    const { values, positionals } = parseArgs({
+        allowPositionals: true,
+        options: {
+            check: { type: 'boolean', default: false },
+            compress: { type: 'string', default: 'meshopt,draco' },
+            lods: { type: 'string', default: '1,0.5' },
+            out: { type: 'string', default: 'public/optimized' },
+            manifest: {
+                type: 'string',
+                default: path.join('data', 'asset-manifest.json'),
+            },
+            'max-triangles': {
+                type: 'string',
+                default: String(DEFAULT_BUDGETS.maxTriangles),
+            },
+            'max-texture': {
+                type: 'string',
+                default: String(DEFAULT_BUDGETS.maxTextureSize),
+            },
+            help: { type: 'boolean', short: 'h', default: false },
+        },
+    });
+
+    const compression = parseList(values.compress) as ModelCompression[];
+    const unknown = compression.filter((item) => !COMPRESSIONS.includes(item));
+    if (unknown.length > 0) {
+        throw new Error(`Unknown compression: ${unknown.join(', ')}`);
+    }
+    const lodRatios = parseList(values.lods).map(Number);
+    if (lodRatios.some((ratio) => !(ratio > 0 && ratio <= 1))) {
+        throw new Error('Level of detail ratios must be between 0 and 1');
+    }
+
+    const products = positionals.map((id) => {
+        const product = getProduct(id);
+        if (!product) throw new Error(`Unknown product: ${id}`);
+        return product;
+    });
+
+    return {
+        help: values.help,
+        check: values.check,
+        compression,
+        lodRatios: lodRatios.sort((a, b) => b - a),
+        outDir: path.resolve(values.out),
+        manifestPath: path.resolve(values.manifest),
+        budgets: {
+            ...DEFAULT_BUDGETS,
+            maxTriangles: Number(values['max-triangles']),
+            maxTextureSize: Number(values['max-texture']),
+        },
+        products: products.length > 0 ? products : PRODUCTS,
+    };
+};
+
+const printReport = (report: AssetReport) => {
+    const errors = report.issues.filter(
+        (issue) => issue.severity === 'error'
+    ).length;
+    const summary = report.stats
+        ? `${report.stats.triangles} triangles · ${(report.bytes / 1024).toFixed(0)} KB · ${report.stats.maxTextureSize}px textures`
+        : 'not readable';
+    console.log(`${errors > 0 ? '✗' : '✓'} ${report.product.id}: ${summary}`);
+    for (const issue of report.issues) {
+        console.log(`    ${issue.severity}: ${issue.message}`);
+    }
+};
+
+// Entries of products that weren't processed this run are kept
+const readManifest = async (manifestPath: string): Promise<AssetManifest> => {
+    try {
+        return JSON.parse(await readFile(manifestPath, 'utf8'));
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+        return {
+            version: ASSET_MANIFEST_VERSION,
+            generatedAt: '',
+            products: {},
+        };
+    }
+};
+
+const processProduct = async (
+    io: Awaited<ReturnType<typeof createIO>>,
+    product: Product,
+    options: ReturnType<typeof parseOptions>
+) => {
+    const report = await validateProductAssets(io, product, options.budgets);
+    printReport(report);
+    const valid = !report.issues.some((issue) => issue.severity === 'error');
+
+    // Invalid sources get no variants; the viewer falls back to the
+    // catalog's model for them
+    const models =
+        valid && !options.check && report.document
+            ? await optimizeModel(io, product.id, report.document, options)
+            : [];
+    for (const model of models) {
+        console.log(
+            `    wrote ${model.url} (${model.triangles} triangles, ${(model.bytes / 1024).toFixed(0)} KB)`
+        );
+    }
+    return {
+        valid,
+        entry: {
+            valid,
+            usdzUrl: report.hasUsdz ? product.usdzUrl : null,
+            dimensions: report.stats?.dimensions ?? null,
+            models,
+        },
+    };
+};
+
+const main = async () => {
+    const options = parseOptions();
+    if (options.help) {
+        console.log(USAGE);
+        return;
+    }
+
+    const io = await createIO();
+    const manifest = await readManifest(options.manifestPath);
+    let failed = 0;
+    for (const product of options.products) {
+        const { valid, entry } = await processProduct(io, product, options);
+        if (!valid) failed++;
+        manifest.products[product.id] = entry;
+    }
+
+    if (!options.check) {
+        manifest.version = ASSET_MANIFEST_VERSION;
+        manifest.generatedAt = new Date().toISOString();
+        await writeFile(
+            options.manifestPath,
+            `${JSON.stringify(manifest, null, 2)}\n`
+        );
+        console.log(`Manifest written to ${options.manifestPath}`);
+    }
+    if (failed > 0) {
+        console.error(
+            `${failed} of ${options.products.length} products failed`
+        );
+        process.exitCode = 1;
+    }
+};
+
+main().catch((error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+});
@@ -0,0 +1,71 @@
+import { Logger, NodeIO, type Document } from '@gltf-transform/core';
+import { ALL_EXTENSIONS } from '@gltf-transform/extensions';
+import { getBounds, getGLPrimitiveCount } from '@gltf-transform/functions';
+import draco3d from 'draco3dgltf';
+import { MeshoptDecoder, MeshoptEncoder } from 'meshoptimizer';
+import type { ProductDimensions } from '~/products/catalog';
+
+// glTF primitive modes that draw triangles (TRIANGLES, STRIP, FAN)
+const TRIANGLE_MODES = [4, 5, 6];
+
+// Reads and writes GLBs with every extension the viewer can decode, so
+// already-compressed sources load and compressed outputs can be written
+export const createIO = async (): Promise<NodeIO> => {
+    await Promise.all([MeshoptDecoder.ready, MeshoptEncoder.ready]);
+    return new NodeIO()
+        .setLogger(new Logger(Logger.Verbosity.WARN))
+        .registerExtensions(ALL_EXTENSIONS)
+        .registerDependencies({
+            'draco3d.decoder': await draco3d.createDecoderModule(),
+            'draco3d.encoder': await draco3d.createEncoderModule(),
+            'meshopt.decoder': MeshoptDecoder,
+            'meshopt.encoder': MeshoptEncoder,
+        });
+};
+
+export interface ModelStats {
+    triangles: number;
+    maxTextureSize: number; // px, longest edge of the largest texture
+    dimensions: ProductDimensions;
+}
+
+const getScene = (document: Document) => {
+    const root = document.getRoot();
+    return root.getDefaultScene() ?? root.listScenes()[0] ?? null;
+};
+
+// Triangles are counted per node, so instanced meshes count every time
+// they are drawn
+export const measureModel = (document: Document): ModelStats => {
+    const scene = getScene(document);
+    let triangles = 0;
+    scene?.traverse((node) => {
+        for (const primitive of node.getMesh()?.listPrimitives() ?? []) {
+            if (TRIANGLE_MODES.includes(primitive.getMode())) {
+                triangles += getGLPrimitiveCount(primitive);
+            }
+        }
+    });
+
+    const maxTextureSize = Math.max(
+        0,
+        ...document
+            .getRoot()
+            .listTextures()
+            .map((texture) => Math.max(...(texture.getSize() ?? [0, 0])))
+    );
+
+    // glTF is Y-up and in meters: X is width, Y height, Z depth
+    const { min, max } = scene
+        ? getBounds(scene)
+        : { min: [0, 0, 0], max: [0, 0, 0] };
+    return {
+        triangles,
+        maxTextureSize,
+        dimensions: {
+            width: max[0] - min[0],
+            height: max[1] - min[1],
+            depth: max[2] - min[2],
+        },
+    };
+};
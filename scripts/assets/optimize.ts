@@ -0,0 +1,82 @@
+import { mkdir, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import type { Document, NodeIO } from '@gltf-transform/core';
+import {
+    cloneDocument,
+    dedup,
+    draco,
+    meshopt,
+    prune,
+    simplify,
+    weld,
+} from '@gltf-transform/functions';
+import { MeshoptEncoder, MeshoptSimplifier } from 'meshoptimizer';
+import { toAssetUrl } from '~/.server/variants';
+import type { ModelAsset, ModelCompression } from '~/products/asset-manifest';
+import { measureModel } from './io';
+
+export interface OptimizeOptions {
+    outDir: string; // absolute, inside the asset root
+    compression: ModelCompression[];
+    lodRatios: number[]; // share of triangles kept per level, 1 first
+}
+
+// Highest acceptable simplification error, as a fraction of mesh radius
+const LOD_MAX_ERROR = 0.01;
+
+const compress = async (document: Document, compression: ModelCompression) => {
+    if (compression === 'draco') {
+        await document.transform(draco());
+    } else if (compression === 'meshopt') {
+        await document.transform(meshopt({ encoder: MeshoptEncoder }));
+    }
+};
+
+// Writes one GLB per level of detail and compression, e.g.
+// sofa.lod1.meshopt.glb, and describes them for the manifest
+export const optimizeModel = async (
+    io: NodeIO,
+    productId: string,
+    source: Document,
+    options: OptimizeOptions
+): Promise<ModelAsset[]> => {
+    await MeshoptSimplifier.ready;
+    await mkdir(options.outDir, { recursive: true });
+
+    const base = cloneDocument(source);
+    await base.transform(dedup(), prune(), weld());
+
+    const models: ModelAsset[] = [];
+    for (const [lod, ratio] of options.lodRatios.entries()) {
+        const level = cloneDocument(base);
+        if (ratio < 1) {
+            await level.transform(
+                simplify({
+                    simplifier: MeshoptSimplifier,
+                    ratio,
+                    error: LOD_MAX_ERROR,
+                })
+            );
+        }
+        const { triangles } = measureModel(level);
+
+        for (const compression of options.compression) {
+            const output = cloneDocument(level);
+            await compress(output, compression);
+            const data = await io.writeBinary(output);
+            const filePath = path.join(
+                options.outDir,
+                `${productId}.lod${lod}.${compression}.glb`
+            );
+            await writeFile(filePath, data);
+            models.push({
+                url: toAssetUrl(filePath),
+                compression,
+                lod,
+                triangles,
+                bytes: data.byteLength,
+            });
+        }
+    }
+    return models;
+};
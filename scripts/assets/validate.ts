@@ -0,0 +1,204 @@
+import { readFile, stat } from 'node:fs/promises';
+import type { Document, NodeIO } from '@gltf-transform/core';
+import { validateBytes } from 'gltf-validator';
+import { resolveAssetPath } from '~/.server/variants';
+import { readZip } from '~/.server/zip';
+import type { Product, ProductDimensions } from '~/products/catalog';
+import { measureModel, type ModelStats } from './io';
+
+export interface AssetBudgets {
+    maxBytes: number;
+    maxTriangles: number;
+    maxTextureSize: number; // px, longest edge
+    dimensionTolerance: number; // allowed deviation from the catalog, 0-1
+}
+
+// Sized for mid-range phones, which load the same source models
+export const DEFAULT_BUDGETS: AssetBudgets = {
+    maxBytes: 10 * 1024 * 1024,
+    maxTriangles: 150_000,
+    maxTextureSize: 2048,
+    dimensionTolerance: 0.05,
+};
+
+export interface AssetIssue {
+    severity: 'error' | 'warning';
+    message: string;
+}
+
+export interface AssetReport {
+    product: Product;
+    issues: AssetIssue[];
+    bytes: number;
+    stats: ModelStats | null;
+    document: Document | null; // null when the GLB could not be read
+    hasUsdz: boolean;
+}
+
+const AXES: (keyof ProductDimensions)[] = ['width', 'height', 'depth'];
+
+const USD_LAYER = /\.usd[ac]?$/;
+
+const formatMeters = (meters: number) => `${meters.toFixed(3)} m`;
+
+const readOptional = async (filePath: string) => {
+    try {
+        return {
+            data: await readFile(filePath),
+            mtime: (await stat(filePath)).mtimeMs,
+        };
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+        throw error;
+    }
+};
+
+// The Khronos validator catches spec violations that loaders tolerate
+// differently; its errors fail the asset, warnings are passed on
+const runGltfValidator = async (
+    data: Buffer,
+    uri: string
+): Promise<AssetIssue[]> => {
+    const report = await validateBytes(new Uint8Array(data), {
+        uri,
+        maxIssues: 20,
+        writeTimestamp: false,
+    });
+    return report.issues.messages
+        .filter((message) => message.severity <= 1)
+        .map((message) => ({
+            severity: message.severity === 0 ? 'error' : 'warning',
+            message: `glTF ${message.code}: ${message.message}${
+                message.pointer ? ` (${message.pointer})` : ''
+            }`,
+        }));
+};
+
+const checkBudgets = (
+    stats: ModelStats,
+    bytes: number,
+    budgets: AssetBudgets
+): AssetIssue[] => {
+    const issues: AssetIssue[] = [];
+    if (bytes > budgets.maxBytes) {
+        issues.push({
+            severity: 'warning',
+            message: `File is ${(bytes / 1024 / 1024).toFixed(1)} MB, budget is ${(budgets.maxBytes / 1024 / 1024).toFixed(1)} MB`,
+        });
+    }
+    if (stats.triangles > budgets.maxTriangles) {
+        issues.push({
+            severity: 'error',
+            message: `${stats.triangles} triangles, budget is ${budgets.maxTriangles}`,
+        });
+    }
+    if (stats.maxTextureSize > budgets.maxTextureSize) {
+        issues.push({
+            severity: 'error',
+            message: `${stats.maxTextureSize}px texture, budget is ${budgets.maxTextureSize}px`,
+        });
+    }
+    return issues;
+};
+
+// Catches models exported in the wrong unit or orientation, which would
+// make AR placement and the fit check lie about the real size
+const checkDimensions = (
+    measured: ProductDimensions,
+    expected: ProductDimensions,
+    tolerance: number
+): AssetIssue[] =>
+    AXES.filter(
+        (axis) =>
+            Math.abs(measured[axis] - expected[axis]) >
+            expected[axis] * tolerance
+    ).map((axis) => ({
+        severity: 'error',
+        message: `Model ${axis} is ${formatMeters(measured[axis])}, catalog says ${formatMeters(expected[axis])}`,
+    }));
+
+// Quick Look only opens USDZ, so a missing or broken one breaks AR on iOS.
+// The package is checked structurally; its geometry isn't parsed.
+const checkUsdz = (
+    usdz: { data: Buffer; mtime: number } | null,
+    glbMtime: number
+): AssetIssue[] => {
+    if (!usdz) {
+        return [{ severity: 'error', message: 'USDZ missing, iOS has no AR' }];
+    }
+    let rootLayer: string | undefined;
+    try {
+        rootLayer = readZip(usdz.data)[0]?.name;
+    } catch (error) {
+        return [
+            {
+                severity: 'error',
+                message: `USDZ unreadable: ${(error as Error).message}`,
+            },
+        ];
+    }
+    const issues: AssetIssue[] = [];
+    if (!rootLayer || !USD_LAYER.test(rootLayer)) {
+        issues.push({
+            severity: 'error',
+            message: `USDZ root layer is ${rootLayer ?? 'missing'}, expected a .usd/.usda/.usdc file`,
+        });
+    }
+    if (usdz.mtime < glbMtime) {
+        issues.push({
+            severity: 'warning',
+            message: 'USDZ is older than the GLB, re-export it so both match',
+        });
+    }
+    return issues;
+};
+
+export const validateProductAssets = async (
+    io: NodeIO,
+    product: Product,
+    budgets: AssetBudgets = DEFAULT_BUDGETS
+): Promise<AssetReport> => {
+    const report: AssetReport = {
+        product,
+        issues: [],
+        bytes: 0,
+        stats: null,
+        document: null,
+        hasUsdz: false,
+    };
+
+    const glb = await readOptional(resolveAssetPath(product.modelUrl));
+    const usdz = await readOptional(resolveAssetPath(product.usdzUrl));
+    report.hasUsdz = !!usdz;
+    report.issues.push(...checkUsdz(usdz, glb?.mtime ?? 0));
+    if (!glb) {
+        report.issues.push({
+            severity: 'error',
+            message: `GLB missing: ${product.modelUrl}`,
+        });
+        return report;
+    }
+
+    report.bytes = glb.data.length;
+    report.issues.push(...(await runGltfValidator(glb.data, product.modelUrl)));
+    try {
+        report.document = await io.readBinary(new Uint8Array(glb.data));
+    } catch (error) {
+        report.issues.push({
+            severity: 'error',
+            message: `GLB unreadable: ${(error as Error).message}`,
+        });
+        return report;
+    }
+
+    report.stats = measureModel(report.document);
+    report.issues.push(
+        ...checkBudgets(report.stats, report.bytes, budgets),
+        ...checkDimensions(
+            report.stats.dimensions,
+            product.dimensions,
+            budgets.dimensionTolerance
+        )
+    );
+    return report;
+};